@@ -0,0 +1,146 @@
+// src/components/ComponentSelector/ComponentSelector.tsx
+import React, { CSSProperties, useMemo } from "react";
+import tokens from "../../styles/tokens"; // Adjust path
+import type { VehicleData } from "../../utils/api";
+import { getCatalogue, selectComponentsForModel } from "../../utils/catalogue";
+import { formatPrice } from "../../utils/formatting";
+import useComponentSelection from "../../hooks/useComponentSelection";
+import VariantCard from "../VariantCard/VariantCard";
+import Button from "../Button/Button";
+
+// --- Component Props Interface ---
+
+interface ComponentSelectorProps {
+    /** Vehicle data with the model's components */
+    vehicleData: VehicleData | null;
+    /** Model being configured */
+    modelId: number | string;
+    /** Selection to start from, e.g. restored from a draft */
+    defaultSelected?: Array<number | string>;
+    /** Callback with the resolved selection (pass to the quote as componentIds) */
+    onChange?: (componentIds: Array<number | string>) => void;
+    /** Custom inline styles for the container */
+    style?: CSSProperties;
+}
+
+/**
+ * Component Selector Component
+ *
+ * Accessories, packages and warranties of the configured model as
+ * toggleable VariantCards. Every toggle is resolved against the components'
+ * rules: requirements and package contents are added, conflicting
+ * components are removed, and the customer is told what changed and why.
+ * Components included in a selected package show as included at no cost.
+ */
+const ComponentSelector: React.FC<ComponentSelectorProps> = ({
+    vehicleData,
+    modelId,
+    defaultSelected,
+    onChange,
+    style,
+}) => {
+    const components = useMemo(
+        () =>
+            vehicleData
+                ? selectComponentsForModel(getCatalogue(vehicleData), modelId)
+                : [],
+        [vehicleData, modelId]
+    );
+
+    const { isSelected, toggle, messages, dismissMessages, getLockReason } =
+        useComponentSelection({
+            components,
+            initialSelected: defaultSelected,
+            onChange,
+        });
+
+    // --- Styles ---
+
+    const containerStyle: CSSProperties = {
+        display: "flex",
+        flexDirection: "column",
+        fontFamily: tokens.fontFamily.sans,
+        ...style,
+    };
+
+    const messagesStyle: CSSProperties = {
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "flex-start",
+        gap: tokens.spacing[3],
+        marginBottom: tokens.spacing[2],
+        padding: `${tokens.spacing[2]} ${tokens.spacing[4]}`,
+        borderRadius: tokens.borderRadius.DEFAULT,
+        backgroundColor: tokens.colors.blue[50],
+        color: tokens.colors.neutral[800],
+        fontSize: tokens.fontSize.sm,
+        lineHeight: 1.4,
+    };
+
+    const messageListStyle: CSSProperties = {
+        margin: 0,
+        paddingLeft: tokens.spacing[4],
+    };
+
+    const emptyStyle: CSSProperties = {
+        fontSize: tokens.fontSize.sm,
+        color: tokens.colors.neutral[600],
+    };
+
+    // --- Render ---
+
+    if (components.length === 0) {
+        return (
+            <div style={{ ...containerStyle, ...emptyStyle }}>
+                No accessories are available for this vehicle.
+            </div>
+        );
+    }
+
+    return (
+        <div style={containerStyle}>
+            <div aria-live="polite">
+                {messages.length > 0 && (
+                    <div style={messagesStyle}>
+                        <ul style={messageListStyle}>
+                            {messages.map((message) => (
+                                <li key={message}>{message}</li>
+                            ))}
+                        </ul>
+                        <Button
+                            text="Dismiss"
+                            variant="ghost"
+                            size="small"
+                            onClick={dismissMessages}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {components.map((component) => {
+                const lockReason = getLockReason(component.id);
+                // Package contents cost nothing extra
+                const isBundled = !component.is_required && lockReason !== null;
+                return (
+                    <VariantCard
+                        key={component.id}
+                        title={component.title}
+                        subtitle={component.subtitle || ""}
+                        description={component.description || ""}
+                        note={isBundled ? lockReason : ""}
+                        price={
+                            component.price && !isBundled
+                                ? `+${formatPrice(component.price)}`
+                                : ""
+                        }
+                        isSelected={isSelected(component.id)}
+                        isMandatory={!!component.is_required}
+                        onClick={() => toggle(component.id)}
+                    />
+                );
+            })}
+        </div>
+    );
+};
+
+export default ComponentSelector;
@@ -124,6 +124,7 @@ const Dropdown = React.forwardRef<HTMLButtonElement, DropdownProps>(
         const descriptionId = description ? `${uniqueId}-description` : undefined;
         const errorId = error ? `${uniqueId}-error` : undefined;
         const hasError = !!error;
+        const errorColor = errorBorderColor; // Label and message match the error border
 
         const dropdownRef = useRef<HTMLDivElement>(null);
         const listboxRef = useRef<HTMLUListElement>(null);
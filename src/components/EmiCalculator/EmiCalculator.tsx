@@ -0,0 +1,289 @@
+// src/components/EmiCalculator/EmiCalculator.tsx
+import React, { CSSProperties, useMemo, useState } from "react";
+import tokens from "../../styles/tokens"; // Adjust path
+import type { VehicleData } from "../../utils/api";
+import { getCatalogue, selectFinanceOptionsForModel } from "../../utils/catalogue";
+import { EmiPlan, buildEmiPlans, getTenureOptions } from "../../utils/emi";
+import { formatPrice } from "../../utils/formatting";
+import Dropdown from "../Dropdown/Dropdown";
+import PriceDisplay from "../PriceDisplay/PriceDisplay";
+
+// --- Component Props Interface ---
+
+interface EmiCalculatorProps {
+    /** Vehicle data with finance providers and options */
+    vehicleData: VehicleData | null;
+    /** Model being configured */
+    modelId: number | string;
+    /** Price to finance, usually the current quote total */
+    vehiclePrice: number;
+    /** Down payment choices, in percent of the price */
+    downPaymentPercentOptions?: number[];
+    /** Initial down payment, in percent of the price */
+    defaultDownPaymentPercent?: number;
+    /** Initial tenure in months */
+    defaultTenureMonths?: number;
+    /** Id of the chosen finance option (controlled) */
+    selectedOptionId?: number | string | null;
+    /** Callback function triggered when the customer picks a plan */
+    onSelectPlan?: (plan: EmiPlan) => void;
+    /** Border color for the selected plan */
+    selectedBorderColor?: string;
+    /** Custom inline styles for the container */
+    style?: CSSProperties;
+}
+
+const DEFAULT_DOWN_PAYMENT_PERCENTS = [10, 20, 30, 40, 50];
+
+// --- Helper Components ---
+
+/** One label/amount row of the plan breakdown */
+const BreakdownRow: React.FC<{ label: string; amount: number; highlight?: boolean }> = ({
+    label,
+    amount,
+    highlight = false,
+}) => (
+    <div
+        style={{
+            display: "flex",
+            justifyContent: "space-between",
+            fontSize: tokens.fontSize.sm,
+            color: highlight ? tokens.colors.green[600] : tokens.colors.neutral[600],
+            padding: `${tokens.spacing[1]} 0`,
+        }}
+    >
+        <span>{label}</span>
+        <span>{highlight ? `- ${formatPrice(amount)}` : formatPrice(amount)}</span>
+    </div>
+);
+
+/**
+ * EMI Calculator Component
+ *
+ * Compares finance plans from every provider offering the configured
+ * model, for a chosen down payment and tenure. Plans are listed cheapest
+ * overall first; picking one shows its breakdown.
+ */
+const EmiCalculator: React.FC<EmiCalculatorProps> = ({
+    vehicleData,
+    modelId,
+    vehiclePrice,
+    downPaymentPercentOptions = DEFAULT_DOWN_PAYMENT_PERCENTS,
+    defaultDownPaymentPercent,
+    defaultTenureMonths = 36,
+    selectedOptionId,
+    onSelectPlan,
+    selectedBorderColor = tokens.colors.blue[600],
+    style,
+}) => {
+    const [downPaymentPercent, setDownPaymentPercent] = useState<number>(
+        defaultDownPaymentPercent ?? downPaymentPercentOptions[0] ?? 0
+    );
+    const [tenureMonths, setTenureMonths] = useState<number>(defaultTenureMonths);
+    const [internalSelectedId, setInternalSelectedId] = useState<number | string | null>(null);
+    const isControlled = selectedOptionId !== undefined;
+    const activeOptionId = isControlled ? selectedOptionId : internalSelectedId;
+
+    // --- Plans ---
+
+    const catalogue = useMemo(
+        () => (vehicleData ? getCatalogue(vehicleData) : null),
+        [vehicleData]
+    );
+
+    const tenureOptions = useMemo(
+        () =>
+            catalogue
+                ? getTenureOptions(selectFinanceOptionsForModel(catalogue, modelId))
+                : [],
+        [catalogue, modelId]
+    );
+
+    const requestedDownPayment = Math.round((vehiclePrice * downPaymentPercent) / 100);
+
+    const plans = useMemo(
+        () =>
+            catalogue
+                ? buildEmiPlans(catalogue, modelId, {
+                      vehiclePrice,
+                      downPayment: requestedDownPayment,
+                      tenureMonths,
+                  })
+                : [],
+        [catalogue, modelId, vehiclePrice, requestedDownPayment, tenureMonths]
+    );
+
+    const activePlan =
+        plans.find((plan) => String(plan.optionId) === String(activeOptionId)) ?? null;
+
+    const handleSelect = (plan: EmiPlan) => {
+        if (!isControlled) setInternalSelectedId(plan.optionId);
+        onSelectPlan?.(plan);
+    };
+
+    // --- Styles ---
+
+    const containerStyle: CSSProperties = {
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacing[4],
+        fontFamily: tokens.fontFamily.sans,
+        ...style,
+    };
+
+    const controlsStyle: CSSProperties = {
+        display: "flex",
+        gap: tokens.spacing[4],
+        flexWrap: "wrap",
+    };
+
+    const planStyle = (isSelected: boolean): CSSProperties => ({
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        gap: tokens.spacing[4],
+        padding: tokens.spacing[4],
+        borderRadius: tokens.borderRadius.DEFAULT,
+        border: `1px solid ${isSelected ? selectedBorderColor : tokens.colors.neutral[300]}`,
+        boxShadow: isSelected ? `0 0 0 3px ${tokens.colors.blue[400]}` : "none",
+        backgroundColor: tokens.colors.white,
+        cursor: "pointer",
+        transition: "border-color 0.2s ease, box-shadow 0.2s ease",
+        userSelect: "none",
+    });
+
+    const planTitleStyle: CSSProperties = {
+        fontSize: tokens.fontSize.base,
+        fontWeight: tokens.fontWeight.semibold,
+        color: tokens.colors.neutral[900],
+    };
+
+    const planMetaStyle: CSSProperties = {
+        fontSize: tokens.fontSize.sm,
+        color: tokens.colors.neutral[500],
+        marginTop: tokens.spacing[1],
+    };
+
+    const noteStyle: CSSProperties = {
+        fontSize: tokens.fontSize.xs,
+        color: tokens.colors.neutral[500],
+    };
+
+    const breakdownStyle: CSSProperties = {
+        padding: tokens.spacing[4],
+        borderRadius: tokens.borderRadius.DEFAULT,
+        backgroundColor: tokens.colors.neutral[50],
+        border: `1px solid ${tokens.colors.neutral[200]}`,
+    };
+
+    // --- Render ---
+
+    if (plans.length === 0) {
+        return (
+            <div style={{ ...containerStyle, ...planMetaStyle }}>
+                No finance plans are available for this vehicle.
+            </div>
+        );
+    }
+
+    return (
+        <div style={containerStyle}>
+            <div style={controlsStyle}>
+                <Dropdown
+                    label="Down payment"
+                    options={downPaymentPercentOptions.map((percent) => ({
+                        label: `${percent}% (${formatPrice(Math.round((vehiclePrice * percent) / 100))})`,
+                        value: percent,
+                    }))}
+                    value={downPaymentPercent}
+                    onChange={(value) => setDownPaymentPercent(Number(value))}
+                    style={{ flex: 1, minWidth: "200px" }}
+                />
+                <Dropdown
+                    label="Tenure"
+                    options={tenureOptions.map((months) => ({
+                        label: `${months} months`,
+                        value: months,
+                    }))}
+                    value={tenureMonths}
+                    onChange={(value) => setTenureMonths(Number(value))}
+                    style={{ flex: 1, minWidth: "200px" }}
+                />
+            </div>
+
+            <div role="radiogroup" aria-label="Finance plans" style={{ display: "flex", flexDirection: "column", gap: tokens.spacing[2] }}>
+                {plans.map((plan) => {
+                    const isSelected = activePlan?.optionId === plan.optionId;
+                    const adjustments = [
+                        plan.downPayment > requestedDownPayment &&
+                            `Min. down payment ${formatPrice(plan.downPayment)}`,
+                        plan.tenureMonths !== tenureMonths && `${plan.tenureMonths} months`,
+                    ].filter(Boolean);
+                    return (
+                        <div
+                            key={plan.optionId}
+                            role="radio"
+                            aria-checked={isSelected}
+                            tabIndex={0}
+                            style={planStyle(isSelected)}
+                            onClick={() => handleSelect(plan)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" || e.key === " ") {
+                                    e.preventDefault();
+                                    handleSelect(plan);
+                                }
+                            }}
+                        >
+                            <div>
+                                <div style={planTitleStyle}>{plan.providerName || plan.title}</div>
+                                <div style={planMetaStyle}>
+                                    {plan.title} · {plan.effectiveRate}% p.a.
+                                    {plan.effectiveRate < plan.interestRate && ` (was ${plan.interestRate}%)`}
+                                </div>
+                                {adjustments.length > 0 && (
+                                    <div style={noteStyle}>{adjustments.join(" · ")}</div>
+                                )}
+                            </div>
+                            <div style={{ textAlign: "right", flexShrink: 0 }}>
+                                <PriceDisplay price={plan.emi} size="medium" />
+                                <div style={noteStyle}>per month</div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {activePlan && (
+                <div style={breakdownStyle} aria-live="polite">
+                    <BreakdownRow label="Vehicle price" amount={activePlan.vehiclePrice} />
+                    <BreakdownRow label="Down payment" amount={activePlan.downPayment} />
+                    <BreakdownRow label="Loan amount" amount={activePlan.loanAmount} />
+                    <BreakdownRow label="Total interest" amount={activePlan.totalInterest} />
+                    <BreakdownRow label="Processing fee" amount={activePlan.processingFee} />
+                    {activePlan.subventionSaving > 0 && (
+                        <BreakdownRow
+                            label="Interest subvention"
+                            amount={activePlan.subventionSaving}
+                            highlight
+                        />
+                    )}
+                    <div
+                        style={{
+                            display: "flex",
+                            justifyContent: "space-between",
+                            alignItems: "baseline",
+                            marginTop: tokens.spacing[2],
+                            paddingTop: tokens.spacing[2],
+                            borderTop: `1px solid ${tokens.colors.neutral[200]}`,
+                        }}
+                    >
+                        <span style={planTitleStyle}>Total payable</span>
+                        <PriceDisplay price={activePlan.totalPayable} size="small" />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EmiCalculator;
@@ -2,13 +2,23 @@
 import React, { CSSProperties } from "react";
 import tokens from "../../styles/tokens"; // Adjust import path
 import Button from "../Button/Button"; // Use the local Button component
+import {
+    getFriendlyErrorMessage,
+    isRetryableError,
+} from "../../utils/apiErrors";
 
 // --- Component Props Interface ---
 
 interface ErrorDisplayProps {
-    /** The error message string to display */
-    error?: string | null;
-    /** Whether to show the retry button */
+    /**
+     * The error to display. Strings are shown as-is; Error objects (e.g. an
+     * ApiError) are shown as a friendly message.
+     */
+    error?: string | Error | null;
+    /**
+     * Whether to show the retry button. For Error objects the button is
+     * only shown when the error is retryable.
+     */
     showRetry?: boolean;
     /** Text for the retry button */
     retryText?: string;
@@ -40,6 +50,10 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
         return null;
     }
 
+    const message =
+        typeof error === "string" ? error : getFriendlyErrorMessage(error);
+    const canRetry = typeof error === "string" || isRetryableError(error);
+
     // --- Styles ---
 
     const containerStyle: CSSProperties = {
@@ -61,10 +75,10 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
     return (
         <div style={containerStyle} role={role} {...rest}>
             {/* Error message text */}
-            <span>{error}</span>
+            <span>{message}</span>
 
             {/* Retry Button (conditional) */}
-            {showRetry && onRetry && (
+            {showRetry && canRetry && onRetry && (
                 <div style={{ marginTop: tokens.spacing[3] }}> {/* Add space above button */}
                     <Button
                         text={retryText}
@@ -1,5 +1,5 @@
 // src/components/InputField/InputField.tsx
-import React, { useState, useEffect, CSSProperties, ChangeEvent, FocusEvent } from "react";
+import React, { useState, useEffect, useId, CSSProperties, ChangeEvent, FocusEvent } from "react";
 import tokens from "../../styles/tokens"; // Adjust path
 
 // --- Component Props Interface ---
@@ -118,6 +118,7 @@ const InputField = React.forwardRef<HTMLInputElement, InputFieldProps>(
         const descriptionId = description ? `${uniqueId}-description` : undefined;
         const errorId = error ? `${uniqueId}-error` : undefined;
         const hasError = !!error;
+        const errorColor = errorBorderColor; // Label and message match the error border
 
         // Sync state if controlled value changes
         useEffect(() => {
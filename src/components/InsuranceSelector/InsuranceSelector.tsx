@@ -0,0 +1,226 @@
+// src/components/InsuranceSelector/InsuranceSelector.tsx
+import React, { CSSProperties, useMemo } from "react";
+import tokens from "../../styles/tokens"; // Adjust path
+import type { VehicleData } from "../../utils/api";
+import {
+    getCatalogue,
+    selectInsurancePlansForModel,
+    selectInsuranceProvider,
+} from "../../utils/catalogue";
+import {
+    INSURANCE_ADD_ON_LABELS,
+    InsuranceAddOn,
+    InsuranceSelection,
+    calculateInsurancePremium,
+    getAvailableAddOns,
+} from "../../utils/insurance";
+import { formatPrice } from "../../utils/formatting";
+import VariantCard from "../VariantCard/VariantCard";
+import SectionTitle from "../SectionTitle/SectionTitle";
+import PriceDisplay from "../PriceDisplay/PriceDisplay";
+
+// --- Component Props Interface ---
+
+interface InsuranceSelectorProps {
+    /** Vehicle data with insurance providers and plans */
+    vehicleData: VehicleData | null;
+    /** Model being configured */
+    modelId: number | string;
+    /** Ex-showroom price of the configured vehicle (quote.exShowroomPrice) */
+    exShowroomPrice: number;
+    /** Current selection; null when the customer opted out */
+    value: InsuranceSelection | null;
+    /** Callback function triggered when the plan or add-ons change */
+    onChange: (selection: InsuranceSelection | null) => void;
+    /** Whether to offer a card for arranging insurance separately */
+    allowNone?: boolean;
+    /** Title of the opt-out card */
+    noneTitle?: string;
+    /** Custom inline styles for the container */
+    style?: CSSProperties;
+}
+
+/** Short description of what each add-on covers */
+const ADD_ON_DESCRIPTIONS: Record<InsuranceAddOn, string> = {
+    zero_dep: "Claims paid without deducting depreciation on parts",
+    roadside_assistance: "Towing, battery and on-the-spot help, 24x7",
+};
+
+/**
+ * Insurance Selector Component
+ *
+ * Insurance step of the booking flow. Lists the plans offered on the
+ * configured model as VariantCards priced for the vehicle, then the
+ * chosen plan's add-ons as toggleable cards. The selection is meant to be
+ * passed to the quote request so the premium shows up in the total.
+ */
+const InsuranceSelector: React.FC<InsuranceSelectorProps> = ({
+    vehicleData,
+    modelId,
+    exShowroomPrice,
+    value,
+    onChange,
+    allowNone = true,
+    noneTitle = "I'll arrange my own insurance",
+    style,
+}) => {
+    const catalogue = useMemo(
+        () => (vehicleData ? getCatalogue(vehicleData) : null),
+        [vehicleData]
+    );
+
+    const plans = useMemo(
+        () => (catalogue ? selectInsurancePlansForModel(catalogue, modelId) : []),
+        [catalogue, modelId]
+    );
+
+    const selectedAddOns = value?.addOns ?? [];
+    const selectedPlan =
+        plans.find((plan) => String(plan.id) === String(value?.planId)) ?? null;
+
+    // Premium of every plan with the customer's add-ons, for the cards
+    const premiums = new Map(
+        plans.map((plan) => [
+            String(plan.id),
+            calculateInsurancePremium(
+                plan,
+                catalogue ? selectInsuranceProvider(catalogue, plan.provider_id) : undefined,
+                exShowroomPrice,
+                selectedAddOns
+            ),
+        ])
+    );
+    const selectedPremium = selectedPlan ? premiums.get(String(selectedPlan.id)) : undefined;
+
+    // --- Handlers ---
+
+    const selectPlan = (planId: number | string) => {
+        const plan = plans.find((p) => String(p.id) === String(planId));
+        if (!plan) return;
+        // Keep add-ons the new plan also offers
+        const offered = getAvailableAddOns(plan);
+        onChange({
+            planId: plan.id,
+            addOns: selectedAddOns.filter((addOn) => offered.includes(addOn)),
+        });
+    };
+
+    const toggleAddOn = (addOn: InsuranceAddOn) => {
+        if (!selectedPlan) return;
+        onChange({
+            planId: selectedPlan.id,
+            addOns: selectedAddOns.includes(addOn)
+                ? selectedAddOns.filter((item) => item !== addOn)
+                : [...selectedAddOns, addOn],
+        });
+    };
+
+    // --- Styles ---
+
+    const containerStyle: CSSProperties = {
+        display: "flex",
+        flexDirection: "column",
+        fontFamily: tokens.fontFamily.sans,
+        ...style,
+    };
+
+    const sectionTitleStyle: CSSProperties = {
+        marginTop: tokens.spacing[4],
+        marginBottom: tokens.spacing[2],
+    };
+
+    const summaryStyle: CSSProperties = {
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "baseline",
+        marginTop: tokens.spacing[2],
+        padding: tokens.spacing[4],
+        borderRadius: tokens.borderRadius.DEFAULT,
+        backgroundColor: tokens.colors.neutral[50],
+        border: `1px solid ${tokens.colors.neutral[200]}`,
+    };
+
+    const summaryLabelStyle: CSSProperties = {
+        fontSize: tokens.fontSize.sm,
+        color: tokens.colors.neutral[600],
+    };
+
+    // --- Render ---
+
+    if (plans.length === 0) {
+        return (
+            <div style={{ ...containerStyle, ...summaryLabelStyle }}>
+                No insurance plans are available for this vehicle.
+            </div>
+        );
+    }
+
+    return (
+        <div style={containerStyle}>
+            {plans.map((plan) => {
+                const premium = premiums.get(String(plan.id));
+                return (
+                    <VariantCard
+                        key={plan.id}
+                        title={premium?.providerName || plan.title}
+                        subtitle={premium?.providerName ? plan.title : ""}
+                        description={
+                            plan.description ||
+                            (premium ? `IDV ${formatPrice(premium.idv)}` : "")
+                        }
+                        price={premium ? formatPrice(premium.total) : ""}
+                        isSelected={selectedPlan?.id === plan.id}
+                        onClick={() => selectPlan(plan.id)}
+                    />
+                );
+            })}
+
+            {allowNone && (
+                <VariantCard
+                    title={noneTitle}
+                    subtitle="Insurance is mandatory before registration"
+                    price=""
+                    includedText="₹0"
+                    isSelected={value === null}
+                    onClick={() => onChange(null)}
+                />
+            )}
+
+            {selectedPlan && getAvailableAddOns(selectedPlan).length > 0 && (
+                <>
+                    <SectionTitle title="Add-ons" style={sectionTitleStyle} />
+                    {getAvailableAddOns(selectedPlan).map((addOn) => {
+                        // Price the add-on on its own so the card shows its cost
+                        const addOnPremium = calculateInsurancePremium(
+                            selectedPlan,
+                            undefined,
+                            exShowroomPrice,
+                            [addOn]
+                        ).addOns[0];
+                        return (
+                            <VariantCard
+                                key={addOn}
+                                title={INSURANCE_ADD_ON_LABELS[addOn]}
+                                subtitle={ADD_ON_DESCRIPTIONS[addOn]}
+                                price={addOnPremium ? `+${formatPrice(addOnPremium.amount)}` : ""}
+                                isSelected={selectedAddOns.includes(addOn)}
+                                onClick={() => toggleAddOn(addOn)}
+                            />
+                        );
+                    })}
+                </>
+            )}
+
+            {selectedPremium && (
+                <div style={summaryStyle} aria-live="polite">
+                    <span style={summaryLabelStyle}>
+                        Premium incl. GST ({formatPrice(selectedPremium.gst)})
+                    </span>
+                    <PriceDisplay price={selectedPremium.total} size="small" />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default InsuranceSelector;
@@ -1,5 +1,5 @@
 // src/components/LoadingIndicator/LoadingIndicator.tsx
-import React, { CSSProperties, useEffect, useState } from "react";
+import React, { CSSProperties } from "react";
 import { motion } from "framer-motion"; // Assuming framer-motion is installed
 import tokens from "../../styles/tokens"; // Adjust path
 
@@ -4,6 +4,8 @@ import React, {
     useState,
     useEffect,
     useCallback,
+    useMemo,
+    useId,
     CSSProperties,
     FocusEvent,
     ChangeEvent,
@@ -13,18 +15,28 @@ import { motion, AnimatePresence } from "framer-motion";
 import { createPortal } from "react-dom";
 import tokens from "../../styles/tokens"; // Adjust path
 import { formatLocationString } from "../../utils/formatting"; // Use shared formatter
+import useLocationSearch, { LocationStatus } from "../../hooks/useLocationSearch";
+import type { LocationProvider } from "../../utils/locationProviders";
+import type { RecentLocation } from "../../utils/recentLocations";
+import type { LocationSource } from "../../utils/location";
+import type { ServiceabilityResult } from "../../utils/serviceability";
+import type { AvailabilityRequestResponse } from "../../utils/api";
+import { validateAvailabilityRequest } from "../../utils/validation";
+import useRecentLocations from "../../hooks/useRecentLocations";
+import InputField from "../InputField/InputField";
+import Button from "../Button/Button";
 
 // --- Types and Interfaces ---
 
 interface LocationResult {
     id: string;
     place_name: string;
+    /** Set by LocationProvider results; false marks areas we don't deliver to */
+    serviceable?: boolean;
     // Add other potential properties from your search results
     [key: string]: any;
 }
 
-type LocationStatus = "idle" | "searching" | "success" | "error";
-
 interface LocationSearchProps {
     /** Controlled input value */
     value: string;
@@ -38,10 +50,43 @@ interface LocationSearchProps {
     error?: string;
     /** Whether to visually show the error */
     showError?: boolean;
-    /** Callback function to perform the location search */
-    searchLocation: (query: string) => Promise<LocationResult[] | null>;
+    /** Callback function to perform the location search (takes precedence over `provider`) */
+    searchLocation?: (query: string) => Promise<LocationResult[] | null>;
+    /**
+     * Provider to search with when no `searchLocation` callback is given.
+     * Searched through useLocationSearch, so queries are debounced, cached
+     * and cancelled when superseded.
+     */
+    provider?: LocationProvider;
+    /** Minimum query length before searching (default 3) */
+    minQueryLength?: number;
+    /** Called with the selected result (e.g. useLocationSearch's handleLocationSelect) */
+    onSelect?: (feature: LocationResult, source: LocationSource) => void;
+    /**
+     * Recently selected locations, shown when the input is focused and empty.
+     * When omitted, the component uses the shared persisted list.
+     */
+    recentLocations?: RecentLocation[];
+    /** Removes an entry from a `recentLocations` list owned by the parent */
+    onRemoveRecentLocation?: (id: string) => void;
+    /** Whether to offer recent locations at all (default true) */
+    showRecentLocations?: boolean;
+    /** Serviceability of the searched pincode, shown when status is "unserviceable" */
+    serviceability?: ServiceabilityResult | null;
+    /** Submits a "notify me when available" request; the form is hidden without it */
+    onRequestAvailability?: (details: {
+        name: string;
+        phone: string;
+        pincode: string;
+    }) => Promise<AvailabilityRequestResponse>;
     /** Callback function to get current location (optional) */
-    getCurrentLocation?: () => void;
+    getCurrentLocation?: () => void | Promise<void>;
+    /**
+     * Status from the owner of getCurrentLocation (e.g. useLocationSearch).
+     * When set, it replaces the internal search status so geolocation
+     * failures are explained below the input.
+     */
+    locationStatus?: LocationStatus;
     /** Whether location services (like getting current location) are enabled */
     enableLocationServices?: boolean;
     /** Custom inline styles for the container */
@@ -60,6 +105,186 @@ interface LocationSearchProps {
     onBlur?: (event: FocusEvent<HTMLInputElement>) => void;
 }
 
+// --- Status Messages ---
+
+/** Explanations for statuses that need more than an icon colour */
+const STATUS_MESSAGES: Partial<Record<LocationStatus, string>> = {
+    "no-results": "No matching locations. Try a pincode or a nearby city.",
+    unserviceable: "We don't deliver to this pincode yet. Try a nearby pincode.",
+    error: "Location search isn't available right now. Please try again.",
+    "permission-denied":
+        "Location access is blocked. Allow it in your browser settings or type your pincode.",
+    "position-unavailable":
+        "We couldn't determine your location. Please type your pincode.",
+    timeout: "Finding your location took too long. Try again or type your pincode.",
+    unsupported:
+        "Your browser doesn't support location detection. Please type your pincode.",
+    "not-found":
+        "We don't deliver to your current location yet. Try a nearby pincode.",
+};
+
+const isFailureStatus = (status: LocationStatus): boolean =>
+    status !== "idle" && status !== "searching" && status !== "success";
+
+// --- Unserviceable Panel ---
+
+interface UnserviceablePanelProps {
+    serviceability: ServiceabilityResult;
+    onCitySelect: (feature: LocationResult) => void;
+    onRequestAvailability?: LocationSearchProps["onRequestAvailability"];
+}
+
+/** Explains that a pincode isn't serviced yet, with nearby cities and a "notify me" form */
+const UnserviceablePanel: React.FC<UnserviceablePanelProps> = ({
+    serviceability,
+    onCitySelect,
+    onRequestAvailability,
+}) => {
+    const [showForm, setShowForm] = useState(false);
+    const [name, setName] = useState("");
+    const [phone, setPhone] = useState("");
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [confirmation, setConfirmation] = useState<string | null>(null);
+
+    const { pincode, nearestCities } = serviceability;
+
+    const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        if (!onRequestAvailability) return;
+        const validationErrors = validateAvailabilityRequest({ name, phone, pincode });
+        setErrors(validationErrors);
+        if (Object.keys(validationErrors).length > 0) return;
+
+        setIsSubmitting(true);
+        try {
+            const response = await onRequestAvailability({ name, phone, pincode });
+            if (response.status === "success") {
+                setConfirmation(response.message || "Thanks! We'll let you know.");
+            } else {
+                setErrors({ form: response.message || "Couldn't save your request. Please try again." });
+            }
+        } catch (err) {
+            console.error("Availability request failed:", err);
+            setErrors({ form: "Couldn't save your request. Please try again." });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const panelStyle: CSSProperties = {
+        marginTop: tokens.spacing[2],
+        padding: tokens.spacing[4],
+        borderRadius: tokens.borderRadius.lg,
+        backgroundColor: tokens.colors.neutral[50],
+        border: `1px solid ${tokens.colors.neutral[200]}`,
+        fontFamily: "'Geist', sans-serif",
+        fontSize: "14px",
+        color: tokens.colors.neutral[700],
+    };
+
+    const cityButtonStyle: CSSProperties = {
+        marginRight: tokens.spacing[2],
+        marginTop: tokens.spacing[2],
+        padding: `${tokens.spacing[1]} ${tokens.spacing[3]}`,
+        borderRadius: "999px", // Pill
+        border: `1px solid ${tokens.colors.neutral[300]}`,
+        backgroundColor: tokens.colors.white,
+        color: tokens.colors.neutral[700],
+        fontSize: "13px",
+        cursor: "pointer",
+    };
+
+    const linkButtonStyle: CSSProperties = {
+        marginTop: tokens.spacing[3],
+        padding: 0,
+        border: "none",
+        background: "none",
+        color: tokens.colors.blue[600],
+        fontSize: "14px",
+        textDecoration: "underline",
+        cursor: "pointer",
+    };
+
+    const formErrorStyle: CSSProperties = {
+        color: tokens.colors.red[600],
+        fontSize: "12px",
+        margin: `${tokens.spacing[2]} 0 0 0`,
+    };
+
+    return (
+        <div style={panelStyle} role="status">
+            <p style={{ margin: 0, fontWeight: 500 }}>
+                We don't deliver to {pincode} yet.
+            </p>
+
+            {nearestCities.length > 0 && (
+                <div>
+                    <p style={{ margin: `${tokens.spacing[2]} 0 0 0` }}>Nearest cities we serve:</p>
+                    {nearestCities.map((city) => (
+                        <button
+                            key={city.feature.id}
+                            type="button"
+                            style={cityButtonStyle}
+                            onClick={() => onCitySelect(city.feature)}
+                        >
+                            {city.city}
+                            {city.state ? `, ${city.state}` : ""}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {onRequestAvailability && confirmation && (
+                <p style={{ margin: `${tokens.spacing[3]} 0 0 0` }}>{confirmation}</p>
+            )}
+
+            {onRequestAvailability && !confirmation && !showForm && (
+                <button type="button" style={linkButtonStyle} onClick={() => setShowForm(true)}>
+                    Notify me when available
+                </button>
+            )}
+
+            {onRequestAvailability && !confirmation && showForm && (
+                <form onSubmit={handleSubmit} noValidate style={{ marginTop: tokens.spacing[3] }}>
+                    <InputField
+                        label="Name"
+                        placeholder="Your name"
+                        value={name}
+                        onChange={setName}
+                        error={errors.name}
+                        autocomplete="name"
+                        required
+                    />
+                    <InputField
+                        label="Phone"
+                        type="tel"
+                        placeholder="10-digit mobile number"
+                        value={phone}
+                        onChange={setPhone}
+                        error={errors.phone}
+                        autocomplete="tel"
+                        maxLength={10}
+                        required
+                    />
+                    <Button
+                        type="submit"
+                        text="Notify me"
+                        loading={isSubmitting}
+                        disabled={isSubmitting}
+                        width="100%"
+                    />
+                    {(errors.form || errors.pincode) && (
+                        <p style={formErrorStyle} role="alert">
+                            {errors.form || errors.pincode}
+                        </p>
+                    )}
+                </form>
+            )}
+        </div>
+    );
+};
+
 // --- Location Icon Helper ---
 
 const LocationIcon: React.FC<{ status: LocationStatus }> = ({ status }) => {
@@ -67,7 +292,7 @@ const LocationIcon: React.FC<{ status: LocationStatus }> = ({ status }) => {
     const iconColor =
         status === "success"
             ? tokens.colors.green[600]
-            : status === "error"
+            : isFailureStatus(status)
               ? tokens.colors.red[500]
               : tokens.colors.neutral[700]; // Default color
 
@@ -97,8 +322,8 @@ const LocationIcon: React.FC<{ status: LocationStatus }> = ({ status }) => {
  * Location Search Input Component
  *
  * Provides an input field with location searching capabilities,
- * displaying results in a dropdown portal. Requires a `searchLocation` prop
- * to fetch results and optionally `getCurrentLocation`.
+ * displaying results in a dropdown portal. Results come from a
+ * `searchLocation` callback or a `provider`; `getCurrentLocation` is optional.
  */
 const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
     (
@@ -109,8 +334,17 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
             label = "Location",
             error = "",
             showError = false,
-            searchLocation, // Required prop
+            searchLocation,
+            provider,
+            minQueryLength = 3,
+            onSelect,
+            recentLocations: recentLocationsProp,
+            onRemoveRecentLocation,
+            showRecentLocations = true,
+            serviceability,
+            onRequestAvailability,
             getCurrentLocation,
+            locationStatus,
             enableLocationServices = false,
             style,
             name = "location",
@@ -132,9 +366,39 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
 
         const inputRefInternal = useRef<HTMLInputElement>(null);
         const inputRef = (ref || inputRefInternal) as React.RefObject<HTMLInputElement>; // Use forwarded ref or internal
-        const resultsRef = useRef<HTMLDivElement>(null); // Ref for the dropdown list
-        const blurTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+        const resultsRef = useRef<HTMLUListElement>(null); // Ref for the dropdown list
+        const blurTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
         const isSelectingResult = useRef(false); // Flag to prevent blur hiding dropdown during selection
+        const latestQueryRef = useRef(0); // Sequence number of the newest query; older responses are dropped
+
+        // A bare provider is searched through the hook for debounce, caching and cancellation
+        // Without vehicle data it never reports "unserviceable", only "no-results"
+        const { searchLocation: searchProvider, locationStatus: providerStatus } =
+            useLocationSearch(null, { provider, minQueryLength });
+        const search = searchLocation ?? (provider ? searchProvider : null);
+        const searchesProvider = !searchLocation && !!provider;
+
+        // Recent locations: the parent's list when given, else the shared persisted one
+        const {
+            recentLocations: ownRecentLocations,
+            addRecentLocation: addOwnRecentLocation,
+            removeRecentLocation: removeOwnRecentLocation,
+        } = useRecentLocations();
+        const recentLocations = useMemo(
+            () =>
+                showRecentLocations
+                    ? recentLocationsProp ?? ownRecentLocations
+                    : [],
+            [showRecentLocations, recentLocationsProp, ownRecentLocations]
+        );
+        const removeRecentLocation = recentLocationsProp
+            ? onRemoveRecentLocation
+            : removeOwnRecentLocation;
+        const showingRecents = !value.trim() && recentLocations.length > 0;
+        // What the dropdown lists: recent locations for an empty input, else search results
+        const options: LocationResult[] = showingRecents
+            ? recentLocations.map((entry) => entry.feature)
+            : results;
 
         const componentId = useId();
         const uniqueId = id || `location-${componentId}`;
@@ -142,6 +406,19 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
         const labelId = label ? `${uniqueId}-label` : undefined;
         const errorId = error && showError ? `${uniqueId}-error` : undefined;
         const hasError = !!error && showError;
+        // The hook resolves failures with no results; it knows which it was
+        const status =
+            locationStatus ??
+            (searchesProvider && internalStatus === "no-results"
+                ? providerStatus
+                : internalStatus);
+        const showUnserviceablePanel =
+            status === "unserviceable" &&
+            !!serviceability &&
+            !serviceability.serviceable;
+        // The panel explains an unserviced pincode in full
+        const statusMessage = showUnserviceablePanel ? undefined : STATUS_MESSAGES[status];
+        const statusId = statusMessage ? `${uniqueId}-status` : undefined;
 
         // --- Portal Setup ---
         useEffect(() => {
@@ -195,7 +472,7 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
              setIsFocused(true);
              if (blurTimeoutRef.current) clearTimeout(blurTimeoutRef.current); // Clear any pending blur timeout
              // Optionally show results if input has value and results exist
-             if (value && results.length > 0) {
+             if ((value && results.length > 0) || showingRecents) {
                 setShowResultsDropdown(true);
              }
              if (onFocus) onFocus(event);
@@ -217,12 +494,14 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
         const handleInputChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
              const query = event.target.value;
              onChange(query); // Update parent state
+             const queryId = ++latestQueryRef.current;
 
-             if (query.length >= 3) {
+             if (query.trim().length >= minQueryLength) {
                  setInternalStatus("searching");
                  setShowResultsDropdown(false); // Hide old results while searching
                  try {
-                     const apiResults = await searchLocation(query);
+                     const apiResults = search ? await search(query) : null;
+                     if (queryId !== latestQueryRef.current) return; // A newer query owns the dropdown
                      if (apiResults && apiResults.length > 0) {
                          setResults(apiResults);
                          setShowResultsDropdown(true);
@@ -231,29 +510,44 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                      } else {
                          setResults([]);
                          setShowResultsDropdown(false);
-                         setInternalStatus("error"); // No results found status
+                         setInternalStatus("no-results");
                      }
                  } catch (err) {
+                     if (queryId !== latestQueryRef.current) return;
                      console.error("Location search failed:", err);
                      setInternalStatus("error");
                      setResults([]);
                      setShowResultsDropdown(false);
                  }
              } else {
+                 if (searchesProvider) searchProvider(query); // Cancels a pending search
                  setResults([]);
-                 setShowResultsDropdown(false);
+                 // An emptied input offers the recent locations again
+                 setShowResultsDropdown(!query.trim() && recentLocations.length > 0);
+                 setActiveIndex(-1);
                  setInternalStatus("idle"); // Reset status if query is too short
              }
-         }, [onChange, searchLocation]);
+         }, [onChange, search, searchesProvider, searchProvider, minQueryLength, recentLocations.length]);
 
         const handleResultSelect = useCallback((feature: LocationResult) => {
+             latestQueryRef.current++; // Drop any response still on its way
              const formattedValue = formatLocationString(feature);
              onChange(formattedValue); // Update parent state with formatted value
+             onSelect?.(feature, showingRecents ? "recent" : "search");
+             if (!recentLocationsProp) addOwnRecentLocation(feature);
              setResults([]); // Clear internal results
              setShowResultsDropdown(false); // Hide dropdown
              setInternalStatus("success"); // Mark as selection success
              inputRef.current?.focus(); // Return focus to input
-         }, [onChange, inputRef]);
+         }, [onChange, onSelect, showingRecents, recentLocationsProp, addOwnRecentLocation, inputRef]);
+
+        const handleRecentRemove = useCallback((index: number) => {
+            const entry = recentLocations[index];
+            if (!entry || !removeRecentLocation) return;
+            removeRecentLocation(entry.id);
+            // Keep the highlight on the entry that moves into this slot
+            setActiveIndex((prev) => Math.min(prev, recentLocations.length - 2));
+        }, [recentLocations, removeRecentLocation]);
 
 
         const handleResultMouseDown = useCallback((feature: LocationResult) => {
@@ -263,16 +557,16 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
 
         // Keyboard navigation for dropdown results
         const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
-            if (!showResultsDropdown || results.length === 0) return;
+            if (!showResultsDropdown || options.length === 0) return;
 
             switch (event.key) {
                 case "ArrowDown":
                     event.preventDefault();
-                    setActiveIndex((prev) => (prev + 1) % results.length);
+                    setActiveIndex((prev) => (prev + 1) % options.length);
                     break;
                 case "ArrowUp":
                     event.preventDefault();
-                    setActiveIndex((prev) => (prev - 1 + results.length) % results.length);
+                    setActiveIndex((prev) => (prev <= 0 ? options.length : prev) - 1);
                     break;
                  case "Home":
                      event.preventDefault();
@@ -280,12 +574,19 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                      break;
                  case "End":
                      event.preventDefault();
-                     setActiveIndex(results.length - 1);
+                     setActiveIndex(options.length - 1);
                      break;
                 case "Enter":
                     event.preventDefault();
-                    if (activeIndex >= 0 && activeIndex < results.length) {
-                        handleResultSelect(results[activeIndex]);
+                    if (activeIndex >= 0 && activeIndex < options.length) {
+                        handleResultSelect(options[activeIndex]);
+                    }
+                    break;
+                case "Delete":
+                    // Remove the highlighted recent location
+                    if (showingRecents && activeIndex >= 0) {
+                        event.preventDefault();
+                        handleRecentRemove(activeIndex);
                     }
                     break;
                 case "Escape":
@@ -299,6 +600,11 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
 
         // --- Styles ---
 
+        const errorColor = tokens.colors.red[600];
+        const errorBorderColor = tokens.colors.red[500]; // Consistent error color
+        const focusBorderColor = tokens.colors.blue[500]; // Consistent focus color
+        const borderColor = tokens.colors.neutral[700]; // Darker base border? Framer uses 700
+
         const containerStyle: CSSProperties = {
             display: "flex",
             flexDirection: "column",
@@ -368,7 +674,7 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
              top: "50%",
              transform: "translateY(-50%)",
              cursor:
-                 enableLocationServices && internalStatus !== "searching" && !disabled
+                 enableLocationServices && status !== "searching" && !disabled
                      ? "pointer"
                      : "default",
              display: "flex",
@@ -376,7 +682,7 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
              justifyContent: "center",
              padding: "5px", // Clickable area
              opacity:
-                 enableLocationServices && internalStatus !== "searching" && !disabled
+                 enableLocationServices && status !== "searching" && !disabled
                      ? 1
                      : 0.5,
              border: 'none',
@@ -421,6 +727,33 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
             outline: 'none',
         });
 
+        const recentHeaderStyle: CSSProperties = {
+            padding: `${tokens.spacing[2]} ${tokens.spacing[4]}`,
+            color: tokens.colors.neutral[500],
+            fontSize: "12px",
+            fontWeight: "600",
+            textTransform: "uppercase",
+            letterSpacing: "0.06em",
+        };
+
+        const recentRemoveButtonStyle: CSSProperties = {
+            float: "right",
+            marginLeft: tokens.spacing[2],
+            padding: `0 ${tokens.spacing[1]}`,
+            border: "none",
+            background: "none",
+            color: tokens.colors.neutral[500],
+            fontSize: "16px",
+            lineHeight: 1,
+            cursor: "pointer",
+        };
+
+        const unserviceableTagStyle: CSSProperties = {
+            marginLeft: tokens.spacing[2],
+            color: tokens.colors.neutral[500],
+            fontSize: "12px",
+        };
+
         const errorStyle: CSSProperties = {
              color: errorColor,
              fontSize: "12px",
@@ -433,9 +766,12 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
             marginLeft: tokens.spacing[1],
         };
 
-        const errorBorderColor = tokens.colors.red[500]; // Consistent error color
-        const focusBorderColor = tokens.colors.blue[500]; // Consistent focus color
-        const borderColor = tokens.colors.neutral[700]; // Darker base border? Framer uses 700
+        const statusMessageStyle: CSSProperties = {
+             color: tokens.colors.neutral[600],
+             fontSize: "12px",
+             margin: "5px 0 0 0",
+             fontFamily: "'Geist', sans-serif",
+        };
 
 
         return (
@@ -471,6 +807,7 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                          aria-activedescendant={activeIndex >= 0 ? `${uniqueId}-option-${activeIndex}` : undefined}
                          aria-invalid={hasError}
                          aria-errormessage={errorId}
+                         aria-describedby={statusId}
                          aria-labelledby={labelId}
                      />
                      {/* Location Icon / Button */}
@@ -478,11 +815,11 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                         type="button"
                         style={iconButtonStyle}
                         onClick={
-                            enableLocationServices && internalStatus !== "searching" && !disabled && getCurrentLocation
+                            enableLocationServices && status !== "searching" && !disabled && getCurrentLocation
                                 ? getCurrentLocation
                                 : undefined
                         }
-                        disabled={!enableLocationServices || internalStatus === "searching" || disabled}
+                        disabled={!enableLocationServices || status === "searching" || disabled}
                         title={
                             enableLocationServices
                                 ? "Use current location"
@@ -490,7 +827,7 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                         }
                         aria-label="Use current location"
                      >
-                         <LocationIcon status={internalStatus} />
+                         <LocationIcon status={status} />
                      </button>
                  </div>
 
@@ -501,8 +838,25 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                      </p>
                  )}
 
+                {/* Location Status Message (geolocation failures) */}
+                 {!hasError && statusMessage && (
+                     <p id={statusId} style={statusMessageStyle} role="status">
+                         {statusMessage}
+                     </p>
+                 )}
+
+                {/* Unserviceable Pincode */}
+                 {showUnserviceablePanel && serviceability && (
+                     <UnserviceablePanel
+                         key={serviceability.pincode} // Fresh form per pincode
+                         serviceability={serviceability}
+                         onCitySelect={handleResultSelect}
+                         onRequestAvailability={onRequestAvailability}
+                     />
+                 )}
+
                 {/* Location Results Dropdown (Portal) */}
-                {portalContainer && showResultsDropdown && results.length > 0 &&
+                {portalContainer && showResultsDropdown && options.length > 0 &&
                     createPortal(
                         <AnimatePresence>
                             <motion.ul // Use ul for semantic list
@@ -517,7 +871,12 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                                 tabIndex={-1} // Not tabbable itself, navigation is via input
                                 aria-labelledby={labelId}
                              >
-                                {results.map((feature, index) => (
+                                {showingRecents && (
+                                    <li role="presentation" style={recentHeaderStyle}>
+                                        Recent locations
+                                    </li>
+                                )}
+                                {options.map((feature, index) => (
                                     <li
                                         key={feature.id || index}
                                         id={`${uniqueId}-option-${index}`}
@@ -529,7 +888,29 @@ const LocationSearch = React.forwardRef<HTMLInputElement, LocationSearchProps>(
                                         onMouseDown={() => handleResultMouseDown(feature)}
                                         title={feature.place_name} // Tooltip for long names
                                     >
+                                        {showingRecents && removeRecentLocation && (
+                                            <button
+                                                type="button"
+                                                tabIndex={-1}
+                                                style={recentRemoveButtonStyle}
+                                                aria-label={`Remove ${feature.place_name} from recent locations`}
+                                                title="Remove"
+                                                // Don't select the entry or blur the input
+                                                onMouseDown={(event) => {
+                                                    event.preventDefault();
+                                                    event.stopPropagation();
+                                                    handleRecentRemove(index);
+                                                }}
+                                            >
+                                                ×
+                                            </button>
+                                        )}
                                         {feature.place_name}
+                                        {feature.serviceable === false && (
+                                            <span style={unserviceableTagStyle}>
+                                                Not serviceable yet
+                                            </span>
+                                        )}
                                     </li>
                                 ))}
                             </motion.ul>
@@ -25,12 +25,20 @@ interface PriceDisplayProps {
     style?: CSSProperties;
     /** Fallback text if price is null or invalid */
     fallbackText?: string;
+    /** Price before discounts (quote.totalBeforeDiscount); shown struck through when higher */
+    originalPrice?: number | null;
+    /** Price after subsidies (quote.effectiveOnRoadPrice); shown on its own line when lower */
+    effectivePrice?: number | null;
+    /** Label for the effective price line */
+    effectivePriceLabel?: string;
 }
 
 /**
  * Price Display Component
  *
  * Formats and displays a numeric price value with currency symbols and customizable styling.
+ * A higher original price is shown struck through before the price, and an effective
+ * price below the price is shown on a separate line with the subsidies it reflects.
  * Uses a shared formatting utility and inline styles/tokens.
  */
 const PriceDisplay: React.FC<PriceDisplayProps> = ({
@@ -42,6 +50,9 @@ const PriceDisplay: React.FC<PriceDisplayProps> = ({
     showDecimal = false,
     style,
     fallbackText = "N/A", // Default fallback
+    originalPrice,
+    effectivePrice,
+    effectivePriceLabel = "Effective on-road price",
     ...rest
 }) => {
     // --- Style Calculation ---
@@ -91,11 +102,60 @@ const PriceDisplay: React.FC<PriceDisplayProps> = ({
         ? formatPriceUtil(price, showDecimal, showPrefix ? prefix : "")
         : fallbackText;
 
+    // Only struck through when a discount actually lowers the price
+    const showOriginalPrice =
+        isValidPrice &&
+        typeof originalPrice === "number" &&
+        !isNaN(originalPrice) &&
+        originalPrice > price;
+
+    const originalPriceStyle: CSSProperties = {
+        fontSize: "0.75em", // Relative to the price size
+        fontWeight: tokens.fontWeight.normal,
+        color: tokens.colors.neutral[400],
+        textDecoration: "line-through",
+        marginRight: tokens.spacing[2],
+    };
+
+    // Only worth a line when subsidies actually lower the price
+    const showEffectivePrice =
+        isValidPrice &&
+        typeof effectivePrice === "number" &&
+        !isNaN(effectivePrice) &&
+        effectivePrice < price;
+
+    const effectivePriceStyle: CSSProperties = {
+        fontSize: tokens.fontSize.sm,
+        fontWeight: tokens.fontWeight.medium,
+        letterSpacing: "normal",
+        color: tokens.colors.green[600], // Savings color
+        marginTop: tokens.spacing[1],
+    };
+
+    const incentivesNoteStyle: CSSProperties = {
+        fontWeight: tokens.fontWeight.normal,
+        color: tokens.colors.neutral[500],
+    };
+
     // --- Render ---
 
     return (
         <div style={priceStyle} {...rest}>
+            {showOriginalPrice && (
+                <del style={originalPriceStyle}>
+                    {formatPriceUtil(originalPrice, showDecimal, showPrefix ? prefix : "")}
+                </del>
+            )}
             {formattedPrice}
+            {showEffectivePrice && (
+                <div style={effectivePriceStyle}>
+                    {effectivePriceLabel}:{" "}
+                    {formatPriceUtil(effectivePrice, showDecimal, showPrefix ? prefix : "")}{" "}
+                    <span style={incentivesNoteStyle}>
+                        (after {formatPriceUtil(price - effectivePrice, showDecimal, showPrefix ? prefix : "")} in subsidies)
+                    </span>
+                </div>
+            )}
         </div>
     );
 };
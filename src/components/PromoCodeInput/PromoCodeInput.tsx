@@ -0,0 +1,176 @@
+// src/components/PromoCodeInput/PromoCodeInput.tsx
+import React, { CSSProperties, KeyboardEvent } from "react";
+import tokens from "../../styles/tokens"; // Adjust path
+import type { PromoStatus } from "../../hooks/usePromoCodes";
+import type { AppliedPromo, PromoRejection } from "../../utils/promo";
+import { formatPrice } from "../../utils/formatting";
+import InputField from "../InputField/InputField";
+import Button from "../Button/Button";
+
+// --- Component Props Interface ---
+
+interface PromoCodeInputProps {
+    /** Code being typed (usePromoCodes().code) */
+    value: string;
+    /** Callback function triggered on input change */
+    onChange: (value: string) => void;
+    /** Validate and apply the typed code */
+    onApply: () => void;
+    /** Remove an applied code */
+    onRemove: (code: string) => void;
+    /** Codes applied to the quote (quote.promos.applied) */
+    applied?: AppliedPromo[];
+    /** Codes that no longer apply to the configuration (quote.promos.rejected) */
+    rejected?: PromoRejection[];
+    /** Validation state */
+    status?: PromoStatus;
+    /** Error message to display below the input */
+    error?: string | null;
+    /** Label text displayed above the input */
+    label?: string;
+    /** Disable the input and buttons */
+    disabled?: boolean;
+    /** Custom inline styles for the main container */
+    style?: CSSProperties;
+}
+
+/**
+ * Promo Code Input Component
+ *
+ * InputField with an Apply button for coupon, referral and promo codes.
+ * Applied codes are listed with their discount and a Remove action; codes
+ * that stopped applying after a configuration change are listed with the reason.
+ */
+const PromoCodeInput: React.FC<PromoCodeInputProps> = ({
+    value,
+    onChange,
+    onApply,
+    onRemove,
+    applied = [],
+    rejected = [],
+    status = "idle",
+    error,
+    label = "Promo or referral code",
+    disabled = false,
+    style,
+}) => {
+    const isApplying = status === "applying";
+    const canApply = !disabled && !isApplying && value.trim() !== "";
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === "Enter") {
+            event.preventDefault(); // Don't submit the surrounding form
+            if (canApply) onApply();
+        }
+    };
+
+    // --- Styles ---
+
+    const containerStyle: CSSProperties = {
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacing[2],
+        fontFamily: tokens.fontFamily.sans,
+        ...style,
+    };
+
+    const codeRowStyle: CSSProperties = {
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        gap: tokens.spacing[3],
+        padding: `${tokens.spacing[2]} ${tokens.spacing[4]}`,
+        borderRadius: tokens.borderRadius.DEFAULT,
+        fontSize: tokens.fontSize.sm,
+    };
+
+    const appliedRowStyle: CSSProperties = {
+        ...codeRowStyle,
+        backgroundColor: tokens.colors.green[100],
+        color: tokens.colors.neutral[800],
+    };
+
+    const rejectedRowStyle: CSSProperties = {
+        ...codeRowStyle,
+        backgroundColor: tokens.colors.neutral[100],
+        color: tokens.colors.neutral[500],
+    };
+
+    const codeStyle: CSSProperties = {
+        fontFamily: tokens.fontFamily.mono,
+        fontWeight: tokens.fontWeight.semibold,
+        marginRight: tokens.spacing[2],
+    };
+
+    const discountStyle: CSSProperties = {
+        fontWeight: tokens.fontWeight.semibold,
+        color: tokens.colors.green[600],
+        marginLeft: "auto",
+    };
+
+    // --- Render ---
+
+    return (
+        <div style={containerStyle}>
+            <InputField
+                label={label}
+                placeholder="Enter code"
+                value={value}
+                onChange={(next) => onChange(next.toUpperCase())}
+                onKeyDown={handleKeyDown}
+                error={error || ""}
+                disabled={disabled}
+                autoComplete="off"
+                autoCapitalize="characters"
+                spellCheck={false}
+                rightElement={
+                    <Button
+                        text="Apply"
+                        variant="ghost"
+                        size="small"
+                        loading={isApplying}
+                        disabled={!canApply}
+                        onClick={() => onApply()}
+                    />
+                }
+            />
+
+            {applied.map((promo) => (
+                <div key={promo.code} style={appliedRowStyle} aria-live="polite">
+                    <span>
+                        <span style={codeStyle}>{promo.code}</span>
+                        {promo.description}
+                    </span>
+                    <span style={discountStyle}>-{formatPrice(promo.discount)}</span>
+                    <Button
+                        text="Remove"
+                        variant="ghost"
+                        size="small"
+                        disabled={disabled}
+                        onClick={() => onRemove(promo.code)}
+                        aria-label={`Remove code ${promo.code}`}
+                    />
+                </div>
+            ))}
+
+            {rejected.map((promo) => (
+                <div key={promo.code} style={rejectedRowStyle}>
+                    <span>
+                        <span style={codeStyle}>{promo.code}</span>
+                        {promo.message}
+                    </span>
+                    <Button
+                        text="Remove"
+                        variant="ghost"
+                        size="small"
+                        disabled={disabled}
+                        onClick={() => onRemove(promo.code)}
+                        aria-label={`Remove code ${promo.code}`}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default PromoCodeInput;
@@ -11,6 +11,8 @@ interface VariantCardProps {
     subtitle?: string;
     /** Additional description line */
     description?: string;
+    /** Short status line, e.g. why the card can't be toggled ("Included with Touring Pack") */
+    note?: string;
     /** Formatted price string (e.g., "+₹999") or empty if included */
     price?: string;
     /** Text displayed when price is empty (e.g., "Included") */
@@ -46,6 +48,7 @@ const VariantCard: React.FC<VariantCardProps> = ({
     title = "Standard Variant",
     subtitle = "Details about the variant",
     description = "", // Optional description
+    note = "",
     price = "", // Empty string means 'included'
     includedText = "Included",
     pricePrefix = "+", // Framer code had this separate, but price often includes it
@@ -58,6 +61,8 @@ const VariantCard: React.FC<VariantCardProps> = ({
     isMandatory = false, // Add flag for required/mandatory items
     ...rest
 }) => {
+    const primaryColor = tokens.colors.blue[600]; // Define primary color
+
     // --- Styles ---
 
     const containerStyle: CSSProperties = {
@@ -113,6 +118,13 @@ const VariantCard: React.FC<VariantCardProps> = ({
         lineHeight: 1.4,
     };
 
+    const noteStyle: CSSProperties = {
+        fontSize: tokens.fontSize.sm,
+        fontWeight: tokens.fontWeight.medium,
+        color: tokens.colors.blue[700],
+        lineHeight: 1.4,
+    };
+
     const priceContainerStyle: CSSProperties = {
         display: "flex",
         flexDirection: "column", // Stack price/included text
@@ -128,11 +140,10 @@ const VariantCard: React.FC<VariantCardProps> = ({
     const includedTextStyle: CSSProperties = {
         fontSize: tokens.fontSize.sm,
         fontWeight: tokens.fontWeight.medium,
-        color: isSelected ? primaryColor : tokens.colors.green[700], // Green for included? Or neutral?
+        color: isSelected ? primaryColor : tokens.colors.green[600], // Green for included? Or neutral?
     };
 
     // --- Render ---
-    const primaryColor = tokens.colors.blue[600]; // Define primary color
 
     // Determine what to display in the price area
     const priceDisplayContent = price ? (
@@ -160,6 +171,7 @@ const VariantCard: React.FC<VariantCardProps> = ({
                 {title && <div style={titleStyle}>{title}</div>}
                 {subtitle && <div style={subtitleStyle}>{subtitle}</div>}
                 {description && <div style={descriptionStyle}>{description}</div>}
+                {note && <div style={noteStyle}>{note}</div>}
             </div>
 
             {/* Right side: Price or Included Text */}
@@ -0,0 +1,9 @@
+// src/context/ApiClientContext.ts
+import { createContext } from "react"
+import { ApiClient, defaultApiClient } from "../utils/apiClient" // Use relative path
+
+/**
+ * Context holding the API client used by data hooks.
+ * Falls back to the environment default when no provider is mounted.
+ */
+export const ApiClientContext = createContext<ApiClient>(defaultApiClient)
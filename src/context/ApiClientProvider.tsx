@@ -0,0 +1,25 @@
+// src/context/ApiClientProvider.tsx
+import React, { ReactNode } from "react"
+import { ApiClient } from "../utils/apiClient" // Use relative path
+import { ApiClientContext } from "./ApiClientContext"
+
+interface ApiClientProviderProps {
+    /** Client created with createApiClient for the target environment */
+    client: ApiClient
+    children?: ReactNode
+}
+
+/**
+ * Provides an ApiClient to every hook below it, so staging, production
+ * or a local stand-in server can be targeted without editing source.
+ */
+const ApiClientProvider: React.FC<ApiClientProviderProps> = ({
+    client,
+    children,
+}) => (
+    <ApiClientContext.Provider value={client}>
+        {children}
+    </ApiClientContext.Provider>
+)
+
+export default ApiClientProvider
@@ -0,0 +1,14 @@
+// src/context/VehicleDataContext.ts
+import { createContext } from "react"
+import {
+    VehicleDataStore,
+    defaultVehicleDataStore,
+} from "../utils/vehicleDataStore" // Use relative path
+
+/**
+ * Context holding the vehicle data store shared by data hooks.
+ * Falls back to a module-wide store when no provider is mounted.
+ */
+export const VehicleDataContext = createContext<VehicleDataStore>(
+    defaultVehicleDataStore
+)
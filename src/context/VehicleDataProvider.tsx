@@ -0,0 +1,35 @@
+// src/context/VehicleDataProvider.tsx
+import React, { ReactNode, useState } from "react"
+import {
+    VehicleDataStore,
+    createVehicleDataStore,
+} from "../utils/vehicleDataStore" // Use relative path
+import { VehicleDataContext } from "./VehicleDataContext"
+
+interface VehicleDataProviderProps {
+    /** Existing store to share; a new one is created when omitted */
+    store?: VehicleDataStore
+    /** Freshness window for a newly created store (default 5 min) */
+    maxAgeMs?: number
+    children?: ReactNode
+}
+
+/**
+ * Provides one vehicle data store to every hook below it, so all
+ * useApiData callers share a single request and a single cache.
+ */
+const VehicleDataProvider: React.FC<VehicleDataProviderProps> = ({
+    store,
+    maxAgeMs,
+    children,
+}) => {
+    const [ownStore] = useState(() => createVehicleDataStore({ maxAgeMs }))
+
+    return (
+        <VehicleDataContext.Provider value={store ?? ownStore}>
+            {children}
+        </VehicleDataContext.Provider>
+    )
+}
+
+export default VehicleDataProvider
@@ -0,0 +1,20 @@
+// src/hooks/useApiClient.ts
+import { useContext, useMemo } from "react"
+import { ApiClientContext } from "../context/ApiClientContext" // Use relative path
+import { ApiClient, createApiClient } from "../utils/apiClient"
+
+/**
+ * Returns the ApiClient from the nearest ApiClientProvider.
+ * @param {string} [baseUrlOverride] - Optional base URL; derives a client with the same defaults
+ * @returns {ApiClient} API client
+ */
+export default function useApiClient(baseUrlOverride?: string): ApiClient {
+    const client = useContext(ApiClientContext)
+
+    return useMemo(() => {
+        if (!baseUrlOverride || baseUrlOverride === client.config.baseUrl) {
+            return client
+        }
+        return createApiClient({ ...client.config, baseUrl: baseUrlOverride })
+    }, [client, baseUrlOverride])
+}
@@ -1,131 +1,109 @@
 // src/hooks/useApiData.ts
-import { useState, useEffect, useCallback } from "react"
+import { useEffect, useCallback, useSyncExternalStore } from "react"
+import { VehicleData } from "../utils/api" // Use relative path
+import { ValidationReport } from "../utils/vehicleDataSchema"
 import {
-    fetchVehicleData,
-    VehicleData,
-    ApiVariant,
-    ApiColor,
-    ApiComponent,
-    ApiPricing,
-} from "../utils/api" // Use relative path
+    ApiError,
+    getFriendlyErrorMessage,
+    isRetryableError,
+} from "../utils/apiErrors"
+import { isOnline, subscribeConnectivity } from "../utils/connectivity"
+import useApiClient from "./useApiClient"
+import useCatalogue, { UseCatalogueReturn } from "./useCatalogue"
+import useVehicleDataStore from "./useVehicleDataStore"
 
-interface UseApiDataState {
+export interface UseApiDataOptions {
+    /** Serve cached data without revalidating for this long (default: the store's) */
+    maxAgeMs?: number
+}
+
+interface UseApiDataState extends UseCatalogueReturn {
     loading: boolean
+    /** Customer-facing message for the last failure */
     error: string | null
+    /** The underlying error, for branching on `code` */
+    errorDetail: ApiError | Error | null
+    /** Whether retrying may help (false for e.g. 4xx or bad data) */
+    isRetryable: boolean
     data: VehicleData | null
+    /** Data-quality report for the last successful load */
+    validationReport: ValidationReport | null
+    /** True while `data` is a cached copy the server hasn't reconfirmed */
+    isStale: boolean
+    /** Epoch ms the server last confirmed `data`, or null before the first load */
+    lastUpdated: number | null
     retry: () => void
-    getVehiclePrice: (vehicleId: number | string) => number
-    getVariantsForVehicle: (vehicleId: number | string) => ApiVariant[]
-    getColorsForVehicle: (vehicleId: number | string) => ApiColor[]
-    getComponentsForVehicle: (vehicleId: number | string) => ApiComponent[]
+    /** Drop the cached catalogue and fetch it again */
+    invalidate: () => void
 }
 
 /**
  * Custom hook to fetch and manage API data (VehicleData)
- * @param {string} [apiUrl] - Optional API URL override (currently unused as fetchApi uses constant)
+ * Requests go through the ApiClient from the nearest ApiClientProvider, and
+ * state is shared through the nearest VehicleDataProvider, so any number of
+ * callers cause a single request. Cached data is served straight away and
+ * revalidated in the background once stale (see utils/vehicleDataCache).
+ * @param {string} [apiUrl] - Optional base URL override for this hook's client
+ * @param {UseApiDataOptions} [options] - Cache freshness window
  * @returns {UseApiDataState} API data state and utility functions
  */
-export default function useApiData(apiUrl?: string): UseApiDataState {
-    const [loading, setLoading] = useState<boolean>(true)
-    const [error, setError] = useState<string | null>(null)
-    const [data, setData] = useState<VehicleData | null>(null)
-    const [retryCount, setRetryCount] = useState<number>(0)
-
-    // Fetch data function
-    const fetchData = useCallback(async () => {
-        setLoading(true)
-        setError(null)
-        // Optionally clear data while loading: setData(null);
-
-        try {
-            // apiUrl parameter is currently not used by fetchVehicleData internally
-            // If needed, modify fetchApi or fetchVehicleData to accept it.
-            const vehicleData = await fetchVehicleData()
-            setData(vehicleData)
-            setError(null) // Clear error on success
-        } catch (err) {
-            console.error("Error in useApiData hook:", err)
-            const errorMessage =
-                err instanceof Error ? err.message : "An unknown error occurred"
-            setError(
-                `Failed to load vehicle data. Please try again. (${errorMessage})`
-            )
-            setData(null) // Clear data on error
-        } finally {
-            setLoading(false)
-        }
-    }, [apiUrl, retryCount]) // Dependency array includes retryCount
+export default function useApiData(
+    apiUrl?: string,
+    { maxAgeMs }: UseApiDataOptions = {}
+): UseApiDataState {
+    const client = useApiClient(apiUrl)
+    const store = useVehicleDataStore()
 
-    // Retry function
-    const retry = useCallback(() => {
-        console.log("Retrying data fetch...")
-        setRetryCount((prev) => prev + 1)
-    }, [])
+    const subscribe = useCallback(
+        (listener: () => void) => store.subscribe(listener),
+        [store]
+    )
+    const getSnapshot = useCallback(
+        () => store.getSnapshot(client),
+        [store, client]
+    )
+    const { entry, loading, isStale, error: errorDetail } =
+        useSyncExternalStore(subscribe, getSnapshot)
 
-    // Initial fetch and retry effect
+    // Initial load; joins a request another caller already started
     useEffect(() => {
-        console.log(
-            `Fetching data... (Retry count: ${retryCount}, URL: ${apiUrl || "default"})`
-        )
-        fetchData()
-    }, [fetchData]) // Use fetchData directly in dependency array
+        store.load(client, { maxAgeMs })
+    }, [store, client, maxAgeMs])
 
-    // Utility function to get vehicle base price
-    const getVehiclePrice = useCallback(
-        (vehicleId: number | string): number => {
-            if (!data?.pricing) return 0
-            // Ensure consistent type comparison if IDs can be numbers or strings
-            const vehicleIdStr = String(vehicleId)
-            const pricing = data.pricing.find(
-                (p) => String(p.model_id) === vehicleIdStr
-            )
-            return pricing?.base_price || 0
-        },
-        [data]
+    // Revalidate once connectivity returns (offline loads serve the cache)
+    useEffect(
+        () =>
+            subscribeConnectivity(() => {
+                if (isOnline()) store.load(client, { maxAgeMs })
+            }),
+        [store, client, maxAgeMs]
     )
 
-    // Utility function to get variants for a vehicle
-    const getVariantsForVehicle = useCallback(
-        (vehicleId: number | string): ApiVariant[] => {
-            if (!data?.variants) return []
-            const vehicleIdStr = String(vehicleId)
-            return data.variants.filter(
-                (v) => String(v.model_id) === vehicleIdStr
-            )
-        },
-        [data]
-    )
+    // Retry function
+    const retry = useCallback(() => {
+        console.log(`Retrying data fetch... (URL: ${client.config.baseUrl})`)
+        store.load(client, { maxAgeMs })
+    }, [store, client, maxAgeMs])
 
-    // Utility function to get colors for a vehicle
-    const getColorsForVehicle = useCallback(
-        (vehicleId: number | string): ApiColor[] => {
-            if (!data?.colors) return []
-            const vehicleIdStr = String(vehicleId)
-            return data.colors.filter((c) => String(c.model_id) === vehicleIdStr)
-        },
-        [data]
-    )
+    // Manual invalidation; the refetch can't be answered with a 304
+    const invalidate = useCallback(() => {
+        store.invalidate(client)
+    }, [store, client])
 
-    // Utility function to get components for a vehicle
-    const getComponentsForVehicle = useCallback(
-        (vehicleId: number | string): ApiComponent[] => {
-            if (!data?.components) return []
-            const vehicleIdStr = String(vehicleId)
-            return data.components.filter(
-                (c) => String(c.model_id) === vehicleIdStr
-            )
-        },
-        [data]
-    )
+    const data = entry ? entry.data : null
+    const catalogueHelpers = useCatalogue(data)
 
     return {
         loading,
-        error,
+        error: errorDetail ? getFriendlyErrorMessage(errorDetail) : null,
+        errorDetail,
+        isRetryable: errorDetail ? isRetryableError(errorDetail) : false,
         data,
+        validationReport: entry ? entry.report : null,
+        isStale,
+        lastUpdated: entry ? entry.fetchedAt : null,
         retry,
-        getVehiclePrice,
-        getVariantsForVehicle,
-        getColorsForVehicle,
-        getComponentsForVehicle,
+        invalidate,
+        ...catalogueHelpers,
     }
-}
\ No newline at end of file
+}
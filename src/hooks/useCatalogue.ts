@@ -0,0 +1,106 @@
+// src/hooks/useCatalogue.ts
+import { useCallback, useMemo } from "react"
+import {
+    VehicleData,
+    ApiVariant,
+    ApiColor,
+    ApiComponent,
+} from "../utils/api" // Use relative path
+import {
+    Catalogue,
+    getCatalogue,
+    selectBasePrice,
+    selectColorsForModel,
+    selectComponentsForModel,
+    selectVariantsForModel,
+} from "../utils/catalogue"
+import {
+    PricingLocation,
+    Quote,
+    QuoteRequest,
+    buildQuote,
+    resolvePricing,
+} from "../utils/pricing"
+
+export interface UseCatalogueReturn {
+    /** Indexed catalogue for `data`; use the selectors in utils/catalogue */
+    catalogue: Catalogue | null
+    /** Base price; resolved for `location` when given, else the first pricing row */
+    getVehiclePrice: (
+        vehicleId: number | string,
+        location?: PricingLocation
+    ) => number
+    /** Full quote with line items, or null if the location isn't priced */
+    getQuote: (request: QuoteRequest) => Quote | null
+    getVariantsForVehicle: (
+        vehicleId: number | string
+    ) => ReadonlyArray<ApiVariant>
+    getColorsForVehicle: (
+        vehicleId: number | string
+    ) => ReadonlyArray<ApiColor>
+    getComponentsForVehicle: (
+        vehicleId: number | string
+    ) => ReadonlyArray<ApiComponent>
+}
+
+/**
+ * Custom hook exposing memoised catalogue lookups for a payload.
+ * @param {VehicleData | null} data - Vehicle data, or null while loading
+ * @returns {UseCatalogueReturn} Indexed catalogue and lookup functions
+ */
+export default function useCatalogue(
+    data: VehicleData | null
+): UseCatalogueReturn {
+    // Indexed view of the payload, shared with every other hook using it
+    const catalogue = useMemo(() => (data ? getCatalogue(data) : null), [data])
+
+    // Utility function to get vehicle base price
+    const getVehiclePrice = useCallback(
+        (vehicleId: number | string, location?: PricingLocation): number => {
+            if (!catalogue) return 0
+            if (!location) return selectBasePrice(catalogue, vehicleId)
+            return (
+                resolvePricing(catalogue, vehicleId, location)?.row
+                    .base_price || 0
+            )
+        },
+        [catalogue]
+    )
+
+    // Utility function to price a full configuration at a location
+    const getQuote = useCallback(
+        (request: QuoteRequest): Quote | null =>
+            catalogue ? buildQuote(catalogue, request) : null,
+        [catalogue]
+    )
+
+    // Utility function to get variants for a vehicle
+    const getVariantsForVehicle = useCallback(
+        (vehicleId: number | string): ReadonlyArray<ApiVariant> =>
+            catalogue ? selectVariantsForModel(catalogue, vehicleId) : [],
+        [catalogue]
+    )
+
+    // Utility function to get colors for a vehicle
+    const getColorsForVehicle = useCallback(
+        (vehicleId: number | string): ReadonlyArray<ApiColor> =>
+            catalogue ? selectColorsForModel(catalogue, vehicleId) : [],
+        [catalogue]
+    )
+
+    // Utility function to get components for a vehicle
+    const getComponentsForVehicle = useCallback(
+        (vehicleId: number | string): ReadonlyArray<ApiComponent> =>
+            catalogue ? selectComponentsForModel(catalogue, vehicleId) : [],
+        [catalogue]
+    )
+
+    return {
+        catalogue,
+        getVehiclePrice,
+        getQuote,
+        getVariantsForVehicle,
+        getColorsForVehicle,
+        getComponentsForVehicle,
+    }
+}
@@ -0,0 +1,108 @@
+// src/hooks/useComponentSelection.ts
+import { useState, useCallback, useMemo } from "react"
+import type { ApiComponent } from "../utils/api" // Use relative path
+import {
+    ComponentChange,
+    buildComponentRules,
+    explainComponentChange,
+    getComponentLockReason,
+    resolveComponentSelection,
+    toggleComponent,
+} from "../utils/componentRules"
+
+type Id = number | string
+
+interface UseComponentSelectionOptions {
+    /** Components of the chosen model (see selectComponentsForModel) */
+    components: ReadonlyArray<ApiComponent>
+    /** Selection to start from, e.g. restored from a draft; resolved against the rules */
+    initialSelected?: Id[]
+    /** Called with the resolved selection after every toggle */
+    onChange?: (selected: Id[]) => void
+}
+
+interface UseComponentSelectionReturn {
+    /** Resolved selection, required components included; pass to the quote as `componentIds` */
+    selected: Id[]
+    isSelected: (componentId: Id) => boolean
+    /** Select or deselect a component; returns false when the toggle was refused */
+    toggle: (componentId: Id) => boolean
+    /** Automatic changes made by the last toggle */
+    changes: ComponentChange[]
+    /** Customer-facing explanations of the last toggle (changes, or why it was refused) */
+    messages: string[]
+    dismissMessages: () => void
+    /** Why a component can't be toggled right now, or null */
+    getLockReason: (componentId: Id) => string | null
+}
+
+/**
+ * Custom hook managing component (add-on) selection with the requires,
+ * excludes, package and exclusive-group rules applied on every toggle.
+ * @param {UseComponentSelectionOptions} options - Components and initial selection
+ * @returns {UseComponentSelectionReturn} Resolved selection, explanations and actions
+ */
+export default function useComponentSelection({
+    components,
+    initialSelected,
+    onChange,
+}: UseComponentSelectionOptions): UseComponentSelectionReturn {
+    const rules = useMemo(() => buildComponentRules(components), [components])
+
+    const [picked, setPicked] = useState<Id[]>(() => initialSelected || [])
+    const [changes, setChanges] = useState<ComponentChange[]>([])
+    const [blocked, setBlocked] = useState<string | null>(null)
+
+    // Re-resolved whenever the components change (e.g. a different model)
+    const selected = useMemo(
+        () => resolveComponentSelection(rules, picked).selected,
+        [rules, picked]
+    )
+
+    const isSelected = useCallback(
+        (componentId: Id) => selected.some((id) => String(id) === String(componentId)),
+        [selected]
+    )
+
+    const toggle = useCallback(
+        (componentId: Id): boolean => {
+            const result = toggleComponent(rules, selected, componentId)
+            if (result.blocked) {
+                setBlocked(result.blocked)
+                setChanges([])
+                return false
+            }
+            setPicked(result.selected)
+            setChanges(result.changes)
+            setBlocked(null)
+            onChange?.(result.selected)
+            return true
+        },
+        [rules, selected, onChange]
+    )
+
+    const dismissMessages = useCallback(() => {
+        setChanges([])
+        setBlocked(null)
+    }, [])
+
+    const getLockReason = useCallback(
+        (componentId: Id) => getComponentLockReason(rules, selected, componentId),
+        [rules, selected]
+    )
+
+    const messages = useMemo(
+        () => (blocked ? [blocked] : changes.map(explainComponentChange)),
+        [blocked, changes]
+    )
+
+    return {
+        selected,
+        isSelected,
+        toggle,
+        changes,
+        messages,
+        dismissMessages,
+        getLockReason,
+    }
+}
@@ -1,7 +1,15 @@
 // src/hooks/useFormValidation.ts
-import { useState, useCallback, ChangeEvent, FocusEvent } from "react"
+import {
+    useState,
+    useCallback,
+    useEffect,
+    useRef,
+    ChangeEvent,
+    FocusEvent,
+} from "react"
 // We'll use the validation functions from our local utils
 import * as Validators from "../utils/validation" // Or import specific functions needed
+import { clearFormDraft, loadFormDraft, saveFormDraft } from "../utils/formDraft"
 
 // Define generic types for flexibility
 type FormValues = Record<string, any>
@@ -15,6 +23,10 @@ interface UseFormValidationOptions<T extends FormValues> {
     initialValues: T
     validationSchema?: ValidationSchema<T>
     onSubmit: (values: T) => Promise<void> | void // Callback on successful submit
+    /** Persist unsent values under this storage key and restore them on mount */
+    draftKey?: string
+    /** Fields never written to the draft (e.g. OTP codes); keep the array stable */
+    draftExclude?: Array<keyof T>
 }
 
 interface UseFormValidationReturn<T extends FormValues> {
@@ -40,6 +52,10 @@ interface UseFormValidationReturn<T extends FormValues> {
     setTouched: (newTouched: FormTouched) => void
     validateField: (name: keyof T) => void // Validate a single field on demand
     validateForm: () => boolean // Validate the whole form on demand
+    /** Epoch ms the draft was last saved, or null without one */
+    draftSavedAt: number | null
+    /** Discard the persisted draft without touching current values */
+    clearDraft: () => void
 }
 
 /**
@@ -52,12 +68,41 @@ export default function useFormValidation<T extends FormValues>({
     initialValues,
     validationSchema,
     onSubmit,
+    draftKey,
+    draftExclude,
 }: UseFormValidationOptions<T>): UseFormValidationReturn<T> {
-    const [values, setValues] = useState<T>(initialValues || ({} as T))
+    const [restoredDraft] = useState(() =>
+        draftKey ? loadFormDraft<Partial<T>>(draftKey) : null
+    )
+    const [values, setValues] = useState<T>(() => ({
+        ...(initialValues || ({} as T)),
+        ...restoredDraft?.values,
+    }))
+    const [draftSavedAt, setDraftSavedAt] = useState<number | null>(
+        restoredDraft ? restoredDraft.savedAt : null
+    )
+    // Values that must not be saved as a draft (untouched or just reset)
+    const unsavedValuesRef = useRef<T | null>(restoredDraft ? null : values)
     const [errors, setErrors] = useState<FormErrors>({})
     const [touched, setTouched] = useState<FormTouched>({})
     const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
 
+    // --- Draft Persistence ---
+
+    useEffect(() => {
+        if (!draftKey || values === unsavedValuesRef.current) return
+        const draft = { ...values }
+        draftExclude?.forEach((name) => delete draft[name])
+        const now = Date.now()
+        if (saveFormDraft(draftKey, draft, now)) setDraftSavedAt(now)
+    }, [draftKey, draftExclude, values])
+
+    const clearDraft = useCallback(() => {
+        if (draftKey) clearFormDraft(draftKey)
+        unsavedValuesRef.current = values
+        setDraftSavedAt(null)
+    }, [draftKey, values])
+
     // Derived state: check if the form is valid based on current errors
     const isValid = Object.keys(errors).length === 0
 
@@ -182,6 +227,7 @@ export default function useFormValidation<T extends FormValues>({
             if (isFormValid) {
                 try {
                     await onSubmit(values) // Call the provided onSubmit callback
+                    clearDraft() // Sent; nothing left to restore
                 } catch (submitError) {
                     console.error("Form submission error:", submitError)
                     // Optionally set a global form error state here if needed
@@ -193,18 +239,22 @@ export default function useFormValidation<T extends FormValues>({
 
             setIsSubmitting(false)
         },
-        [validateForm, onSubmit, values, errors] // Depends on validation, callback, and current state
+        [validateForm, onSubmit, values, errors, clearDraft] // Depends on validation, callback, and current state
     )
 
     // --- Utility Functions ---
 
     /** Resets the form to its initial state */
     const resetForm = useCallback(() => {
-        setValues(initialValues || ({} as T))
+        const resetValues = initialValues || ({} as T)
+        if (draftKey) clearFormDraft(draftKey)
+        unsavedValuesRef.current = resetValues
+        setDraftSavedAt(null)
+        setValues(resetValues)
         setErrors({})
         setTouched({})
         setIsSubmitting(false)
-    }, [initialValues])
+    }, [initialValues, draftKey])
 
     /** Manually sets the value of a specific field */
     const setFieldValue = useCallback((name: keyof T, value: any) => {
@@ -237,5 +287,7 @@ export default function useFormValidation<T extends FormValues>({
         setTouched,
         validateField,
         validateForm,
+        draftSavedAt,
+        clearDraft,
     }
 }
\ No newline at end of file
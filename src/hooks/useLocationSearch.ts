@@ -1,42 +1,168 @@
 // src/hooks/useLocationSearch.ts
-import { useState, useRef, useCallback, RefObject } from "react"
-import { searchLocationFromPricing, VehicleData } from "../utils/api" // Use relative path
+import {
+    useState,
+    useRef,
+    useCallback,
+    useEffect,
+    useMemo,
+    RefObject,
+} from "react"
+import {
+    AvailabilityRequestResponse,
+    LocationFeature,
+    VehicleData,
+    submitAvailabilityRequest,
+} from "../utils/api" // Use relative path
 import { formatLocationString } from "../utils/formatting" // Use relative path
+import {
+    GeolocationError,
+    GeolocationErrorCode,
+    ReverseGeocoder,
+    getBrowserPosition,
+} from "../utils/geolocation"
+import {
+    LocationProvider,
+    LocationProviderResult,
+    createLocalPricingProvider,
+} from "../utils/locationProviders"
+import { LruCache } from "../utils/lruCache"
+import type { RecentLocation } from "../utils/recentLocations"
+import {
+    LocationSource,
+    SelectedLocation,
+    toSelectedLocation,
+} from "../utils/location"
+import {
+    ServiceabilityResult,
+    checkServiceability,
+} from "../utils/serviceability"
+import useApiClient from "./useApiClient"
+import useRecentLocations, {
+    UseRecentLocationsOptions,
+} from "./useRecentLocations"
 
-// Define the structure of a location result (Mapbox-like feature)
-interface LocationResult {
-    id: string
-    place_name: string
-    // Add other properties if needed from the actual feature structure
-    [key: string]: any // Allow other properties
+// Results are Mapbox-like features tagged with serviceability
+type LocationResult = LocationProviderResult
+
+export type LocationStatus =
+    | "idle"
+    | "searching"
+    | "success"
+    | "no-results" // The query matched nothing
+    | "unserviceable" // A valid pincode we don't deliver to yet
+    | "error" // The provider failed
+    // Current-location failures, each explained differently to the user
+    | "permission-denied"
+    | "position-unavailable"
+    | "timeout"
+    | "unsupported"
+    | "not-found" // Located, but no serviceable pincode nearby
+
+const GEOLOCATION_STATUS: Record<GeolocationErrorCode, LocationStatus> = {
+    PERMISSION_DENIED: "permission-denied",
+    POSITION_UNAVAILABLE: "position-unavailable",
+    TIMEOUT: "timeout",
+    UNSUPPORTED: "unsupported",
+}
+
+interface UseLocationSearchOptions {
+    /**
+     * Where results come from (default: local pricing data). Pass a
+     * composite provider to fall back to a remote geocoder. Results are
+     * cached per provider, so keep it stable (module-level or memoised).
+     */
+    provider?: LocationProvider
+    /** Reverse geocoder for the default local provider */
+    reverseGeocoder?: ReverseGeocoder
+    /** Options passed to navigator.geolocation */
+    positionOptions?: PositionOptions
+    /** Delay after the last keystroke before searching, in ms (default 250) */
+    debounceMs?: number
+    /** Shorter queries clear the results instead of searching (default 3) */
+    minQueryLength?: number
+    /** Number of recent queries whose results are kept (default 20) */
+    cacheSize?: number
+    /** Storage key and cap for the recently selected locations */
+    recentLocations?: UseRecentLocationsOptions
 }
 
-type LocationStatus = "idle" | "searching" | "success" | "error"
+const DEFAULT_DEBOUNCE_MS = 250
+const DEFAULT_MIN_QUERY_LENGTH = 3
+const DEFAULT_CACHE_SIZE = 20
 
 interface UseLocationSearchReturn {
-    location: string
+    location: string // Display text for the input
     setLocation: React.Dispatch<React.SetStateAction<string>>
+    selectedLocation: SelectedLocation | null // The chosen location, cleared by a new search
+    setSelectedLocation: React.Dispatch<
+        React.SetStateAction<SelectedLocation | null>
+    >
+    /** Set with nearby serviced cities when status is "unserviceable" */
+    serviceability: ServiceabilityResult | null
+    /**
+     * Ask to be notified when the unserviced pincode is covered.
+     * The pincode defaults to the one in `serviceability`.
+     */
+    requestAvailability: (details: {
+        name: string
+        phone: string
+        pincode?: string
+    }) => Promise<AvailabilityRequestResponse>
     locationStatus: LocationStatus
     setLocationStatus: React.Dispatch<React.SetStateAction<LocationStatus>>
     locationResults: LocationResult[]
     setLocationResults: React.Dispatch<React.SetStateAction<LocationResult[]>>
     showLocationResults: boolean
     setShowLocationResults: React.Dispatch<React.SetStateAction<boolean>>
-    searchLocation: (query: string) => Promise<LocationResult[]> // Now returns results
-    handleLocationSelect: (feature: LocationResult) => string // Returns formatted string
-    getCurrentLocation: () => void // Mock implementation
-    inputRef: RefObject<HTMLInputElement> // Allow associating an input ref
+    /**
+     * Debounced search. Resolves with the results, or with [] when the
+     * query is too short or superseded by a newer call.
+     */
+    searchLocation: (query: string) => Promise<LocationResult[]>
+    handleLocationSelect: (
+        feature: LocationFeature,
+        source?: LocationSource
+    ) => SelectedLocation
+    getCurrentLocation: () => Promise<void> // Resolves once status is settled
+    recentLocations: RecentLocation[] // Newest first, persisted
+    removeRecentLocation: (id: string) => void
+    clearRecentLocations: () => void
+    /**
+     * Pre-seed a default location for a returning user. It's added to the
+     * recent list and, when `select` is true and nothing is chosen yet,
+     * selected.
+     */
+    seedDefaultLocation: (
+        feature: LocationFeature,
+        options?: { select?: boolean }
+    ) => void
+    inputRef: RefObject<HTMLInputElement | null> // Allow associating an input ref
 }
 
 /**
- * Custom hook for location search functionality using local data filtering.
+ * Custom hook for location search functionality backed by a LocationProvider.
  * @param {VehicleData | null} vehicleData - Vehicle data containing pricing info for local search.
+ * @param {UseLocationSearchOptions} [options] - Provider and geolocation options.
  * @returns {UseLocationSearchReturn} Location search methods and state.
  */
 export default function useLocationSearch(
-    vehicleData: VehicleData | null
+    vehicleData: VehicleData | null,
+    {
+        provider,
+        reverseGeocoder,
+        positionOptions,
+        debounceMs = DEFAULT_DEBOUNCE_MS,
+        minQueryLength = DEFAULT_MIN_QUERY_LENGTH,
+        cacheSize = DEFAULT_CACHE_SIZE,
+        recentLocations: recentLocationsOptions,
+    }: UseLocationSearchOptions = {}
 ): UseLocationSearchReturn {
     const [location, setLocation] = useState<string>("")
+    const [selectedLocation, setSelectedLocation] =
+        useState<SelectedLocation | null>(null)
+    const [serviceability, setServiceability] =
+        useState<ServiceabilityResult | null>(null)
+    const client = useApiClient()
     const [locationStatus, setLocationStatus] =
         useState<LocationStatus>("idle")
     const [locationResults, setLocationResults] = useState<LocationResult[]>([])
@@ -44,30 +170,94 @@ export default function useLocationSearch(
         useState<boolean>(false)
 
     const inputRef = useRef<HTMLInputElement>(null)
+    const {
+        recentLocations,
+        addRecentLocation,
+        removeRecentLocation,
+        clearRecentLocations,
+        seedDefaultLocation: seedRecentLocation,
+    } = useRecentLocations(recentLocationsOptions)
+    const localProvider = useMemo(
+        () =>
+            createLocalPricingProvider(() => vehicleData, { reverseGeocoder }),
+        [vehicleData, reverseGeocoder]
+    )
+    const activeProvider = provider ?? localProvider
+    // Cached results are only valid for the provider that produced them,
+    // so each provider keeps its own cache, even across switches
+    const cachesRef = useRef(
+        new WeakMap<LocationProvider, LruCache<string, LocationResult[]>>()
+    )
+    const cache = useMemo(() => {
+        let providerCache = cachesRef.current.get(activeProvider)
+        if (providerCache?.capacity !== Math.max(1, Math.floor(cacheSize))) {
+            providerCache = new LruCache<string, LocationResult[]>(cacheSize)
+            cachesRef.current.set(activeProvider, providerCache)
+        }
+        return providerCache
+    }, [activeProvider, cacheSize])
 
-    // Search location by query using the local filtering function
-    const searchLocation = useCallback(
-        async (query: string): Promise<LocationResult[]> => {
-            const trimmedQuery = query.trim()
-            if (!trimmedQuery || trimmedQuery.length < 3) {
-                setLocationResults([])
-                setShowLocationResults(false)
-                setLocationStatus("idle") // Reset status if query is too short
-                return []
-            }
+    const searchControllerRef = useRef<AbortController | null>(null)
+    const geolocationControllerRef = useRef<AbortController | null>(null)
+    const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    // Settles the promise of a debounced call that hasn't run yet
+    const pendingResolveRef = useRef<
+        ((results: LocationResult[]) => void) | null
+    >(null)
 
-            setLocationStatus("searching")
+    const cancelPendingSearch = useCallback(() => {
+        searchControllerRef.current?.abort()
+        if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current)
+        debounceTimerRef.current = null
+        pendingResolveRef.current?.([])
+        pendingResolveRef.current = null
+    }, [])
 
-            try {
-                // Use local search function with vehicle data
-                const results = searchLocationFromPricing(trimmedQuery, vehicleData)
+    // Cancel pending and in-flight work when the component using the hook unmounts
+    useEffect(
+        () => () => {
+            cancelPendingSearch()
+            geolocationControllerRef.current?.abort()
+        },
+        [cancelPendingSearch]
+    )
 
-                setLocationResults(results)
-                setShowLocationResults(results.length > 0)
-                setLocationStatus(results.length > 0 ? "idle" : "error") // idle if results, error if not
+    const applyResults = useCallback(
+        (query: string, results: LocationResult[]) => {
+            setLocationResults(results)
+            setShowLocationResults(results.length > 0)
 
-                return results // Return the results
+            // A valid pincode with nothing serviceable gets its own state
+            const check = results.some((result) => result.serviceable)
+                ? null
+                : checkServiceability(query, vehicleData)
+            if (check && !check.serviceable) {
+                setServiceability(check)
+                setLocationStatus("unserviceable")
+                return
+            }
+            setLocationStatus(results.length > 0 ? "idle" : "no-results")
+        },
+        [vehicleData]
+    )
+
+    // Run a search now, unless a newer query has superseded it
+    const runSearch = useCallback(
+        async (
+            query: string,
+            controller: AbortController
+        ): Promise<LocationResult[]> => {
+            try {
+                const results = await activeProvider.search(query, {
+                    signal: controller.signal,
+                })
+                if (controller.signal.aborted) return [] // Superseded or unmounted
+
+                cache.set(query.toLowerCase(), results)
+                applyResults(query, results)
+                return results
             } catch (error) {
+                if (controller.signal.aborted) return []
                 console.error("Error searching location:", error)
                 setLocationStatus("error")
                 setLocationResults([])
@@ -75,45 +265,159 @@ export default function useLocationSearch(
                 return [] // Return empty array on error
             }
         },
-        [vehicleData] // Dependency on vehicleData
+        [activeProvider, cache, applyResults]
+    )
+
+    // Search location by query, debounced, with cached results served at once
+    const searchLocation = useCallback(
+        (query: string): Promise<LocationResult[]> => {
+            // A newer query supersedes whatever is pending or in flight
+            cancelPendingSearch()
+            const controller = new AbortController()
+            searchControllerRef.current = controller
+
+            setSelectedLocation(null) // Typing replaces the previous choice
+            setServiceability(null)
+            const trimmedQuery = query.trim()
+            if (trimmedQuery.length < minQueryLength) {
+                setLocationResults([])
+                setShowLocationResults(false)
+                setLocationStatus("idle") // Reset status if query is too short
+                return Promise.resolve([])
+            }
+
+            const cached = cache.get(trimmedQuery.toLowerCase())
+            if (cached) {
+                applyResults(trimmedQuery, cached)
+                return Promise.resolve(cached)
+            }
+
+            setLocationStatus("searching")
+            return new Promise((resolve) => {
+                pendingResolveRef.current = resolve
+                debounceTimerRef.current = setTimeout(() => {
+                    debounceTimerRef.current = null
+                    pendingResolveRef.current = null
+                    runSearch(trimmedQuery, controller).then(resolve)
+                }, debounceMs)
+            })
+        },
+        [
+            cancelPendingSearch,
+            minQueryLength,
+            cache,
+            applyResults,
+            runSearch,
+            debounceMs,
+        ]
     )
 
     // Handle location selection from dropdown
-    const handleLocationSelect = useCallback((feature: LocationResult): string => {
-        const formattedLocation = formatLocationString(feature) // Use formatter from utils
-        setLocation(formattedLocation)
-        setLocationResults([]) // Clear results
-        setShowLocationResults(false) // Hide dropdown
-        setLocationStatus("success") // Mark as success
-        // Optionally focus the input after selection if needed
-        // inputRef.current?.focus();
-        return formattedLocation // Return the selected value
-    }, []) // No dependencies needed here as formatLocationString is pure
-
-    // Handle getting current location (MOCK IMPLEMENTATION)
-    const getCurrentLocation = useCallback(() => {
+    const handleLocationSelect = useCallback(
+        (
+            feature: LocationFeature,
+            source: LocationSource = "search"
+        ): SelectedLocation => {
+            const selected = toSelectedLocation(feature, source, vehicleData)
+            setSelectedLocation(selected)
+            setLocation(formatLocationString(selected)) // Display text only
+            setLocationResults([]) // Clear results
+            setShowLocationResults(false) // Hide dropdown
+            setLocationStatus("success") // Mark as success
+            addRecentLocation(feature) // Remember for next visit
+            // Optionally focus the input after selection if needed
+            // inputRef.current?.focus();
+            return selected
+        },
+        [vehicleData, addRecentLocation]
+    )
+
+    // Pre-seed a default location, e.g. from a returning user's profile
+    const seedDefaultLocation = useCallback(
+        (feature: LocationFeature, { select = true } = {}) => {
+            seedRecentLocation(feature)
+            if (select && !location) {
+                const selected = toSelectedLocation(
+                    feature,
+                    "default",
+                    vehicleData
+                )
+                setSelectedLocation(selected)
+                setLocation(formatLocationString(selected))
+                setLocationStatus("success")
+            }
+        },
+        [seedRecentLocation, location, vehicleData]
+    )
+
+    // Submit a "notify me when available" request for an unserviced pincode
+    const requestAvailability = useCallback(
+        (details: {
+            name: string
+            phone: string
+            pincode?: string
+        }): Promise<AvailabilityRequestResponse> => {
+            const pincode = details.pincode ?? serviceability?.pincode
+            if (!pincode) {
+                return Promise.resolve({
+                    status: "error",
+                    message: "Enter the pincode you want us to deliver to",
+                })
+            }
+            return submitAvailabilityRequest(
+                {
+                    name: details.name.trim(),
+                    phone: details.phone.replace(/\D/g, ""),
+                    pincode,
+                },
+                client
+            )
+        },
+        [serviceability, client]
+    )
+
+    // Handle getting current location: browser position -> pincode -> serviceable location
+    const getCurrentLocation = useCallback(async (): Promise<void> => {
+        geolocationControllerRef.current?.abort()
+        const controller = new AbortController()
+        geolocationControllerRef.current = controller
+
         setLocationStatus("searching")
         setLocationResults([]) // Clear results
         setShowLocationResults(false) // Hide dropdown
 
-        // Simulate geolocation API
-        console.log("MOCK: Attempting to get current location...")
-        setTimeout(() => {
-            // Mock success with a predefined location
-            const mockLocation = "110001, Delhi, Delhi, India" // Example mock
-            setLocation(mockLocation)
-            setLocationStatus("success")
-            console.log("MOCK: Set location to", mockLocation)
-
-            // You might want to clear results and hide dropdown again here just in case
-            setLocationResults([])
-            setShowLocationResults(false)
-        }, 1500) // Simulate delay
-    }, []) // No dependencies
+        try {
+            const coordinates = await getBrowserPosition(positionOptions)
+            if (controller.signal.aborted) return
+            const feature = await activeProvider.reverse(
+                coordinates,
+                controller.signal
+            )
+            if (controller.signal.aborted) return
+
+            if (feature?.serviceable) {
+                handleLocationSelect(feature, "geolocation")
+            } else {
+                setLocationStatus("not-found")
+            }
+        } catch (error) {
+            if (controller.signal.aborted) return
+            if (error instanceof GeolocationError) {
+                setLocationStatus(GEOLOCATION_STATUS[error.code])
+            } else {
+                console.error("Error getting current location:", error)
+                setLocationStatus("error")
+            }
+        }
+    }, [activeProvider, positionOptions, handleLocationSelect])
 
     return {
         location,
         setLocation,
+        selectedLocation,
+        setSelectedLocation,
+        serviceability,
+        requestAvailability,
         locationStatus,
         setLocationStatus,
         locationResults,
@@ -123,6 +427,10 @@ export default function useLocationSearch(
         searchLocation,
         handleLocationSelect,
         getCurrentLocation,
+        recentLocations,
+        removeRecentLocation,
+        clearRecentLocations,
+        seedDefaultLocation,
         inputRef,
     }
 }
\ No newline at end of file
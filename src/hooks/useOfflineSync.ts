@@ -0,0 +1,120 @@
+// src/hooks/useOfflineSync.ts
+import {
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef,
+    useSyncExternalStore,
+} from "react"
+import { SubmitBookingPayload, submitBooking } from "../utils/api" // Use relative path
+import {
+    BookingReplayResult,
+    BookingSubmission,
+    BookingSubmitter,
+    QueuedBooking,
+    discardQueuedBooking,
+    getQueuedBookings,
+    isBookingQueueSyncing,
+    replayBookingQueue,
+    submitOrQueueBooking,
+    subscribeBookingQueue,
+} from "../utils/bookingQueue"
+import { isOnline, subscribeConnectivity } from "../utils/connectivity"
+import useApiClient from "./useApiClient"
+
+export type SyncStatus = "online" | "offline" | "syncing"
+
+interface UseOfflineSyncOptions {
+    /** Sends a submission (default: submitBooking through the context client) */
+    submit?: BookingSubmitter
+    /** Called after each replay of the queue */
+    onSynced?: (result: BookingReplayResult) => void
+}
+
+interface UseOfflineSyncReturn {
+    /** "syncing" while queued submissions are being sent */
+    status: SyncStatus
+    isOnline: boolean
+    /** Submissions waiting for a connection */
+    pendingBookings: QueuedBooking[]
+    /** Queued submissions the server rejected */
+    failedBookings: QueuedBooking[]
+    /** Submit now, or queue while offline */
+    submitBooking: (payload: SubmitBookingPayload) => Promise<BookingSubmission>
+    /** Replay the queue now */
+    syncNow: () => Promise<BookingReplayResult>
+    /** Remove a queued submission */
+    discardBooking: (id: string) => void
+}
+
+/**
+ * Custom hook for booking while connectivity comes and goes.
+ * Submissions made offline are queued and replayed, with their original
+ * idempotency keys, as soon as the browser reports a connection.
+ * @param {UseOfflineSyncOptions} [options] - Submitter and replay callback
+ * @returns {UseOfflineSyncReturn} Connection status, queue and actions
+ */
+export default function useOfflineSync({
+    submit,
+    onSynced,
+}: UseOfflineSyncOptions = {}): UseOfflineSyncReturn {
+    const client = useApiClient()
+    const online = useSyncExternalStore(subscribeConnectivity, isOnline, () => true)
+    const queue = useSyncExternalStore(subscribeBookingQueue, getQueuedBookings)
+    const syncing = useSyncExternalStore(
+        subscribeBookingQueue,
+        isBookingQueueSyncing
+    )
+
+    // Latest callbacks, so inline functions don't restart the replay effect
+    const submitRef = useRef<BookingSubmitter | undefined>(submit)
+    const onSyncedRef = useRef(onSynced)
+    useEffect(() => {
+        submitRef.current = submit
+        onSyncedRef.current = onSynced
+    }, [submit, onSynced])
+
+    const send = useCallback<BookingSubmitter>(
+        (payload, options) =>
+            submitRef.current
+                ? submitRef.current(payload, options)
+                : submitBooking(payload, client, options),
+        [client]
+    )
+
+    const syncNow = useCallback(async () => {
+        const result = await replayBookingQueue(send)
+        onSyncedRef.current?.(result)
+        return result
+    }, [send])
+
+    const pendingBookings = useMemo(
+        () => queue.filter((item) => item.status === "pending"),
+        [queue]
+    )
+    const failedBookings = useMemo(
+        () => queue.filter((item) => item.status === "failed"),
+        [queue]
+    )
+
+    // Replay whenever a connection is (re)gained with work waiting
+    const hasPending = pendingBookings.length > 0
+    useEffect(() => {
+        if (online && hasPending) syncNow()
+    }, [online, hasPending, syncNow])
+
+    const submitOrQueue = useCallback(
+        (payload: SubmitBookingPayload) => submitOrQueueBooking(payload, send),
+        [send]
+    )
+
+    return {
+        status: !online ? "offline" : syncing ? "syncing" : "online",
+        isOnline: online,
+        pendingBookings,
+        failedBookings,
+        submitBooking: submitOrQueue,
+        syncNow,
+        discardBooking: discardQueuedBooking,
+    }
+}
@@ -0,0 +1,317 @@
+// src/hooks/useOtp.ts
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import {
+    DEFAULT_OTP_LENGTH,
+    OtpChannel,
+    OtpSendResult,
+    OtpService,
+    OtpSession,
+    createApiOtpService,
+} from "../utils/otp" // Use relative path
+import { getFriendlyErrorMessage } from "../utils/apiErrors"
+import useApiClient from "./useApiClient"
+
+export type OtpStatus =
+    | "idle"
+    | "sending"
+    | "sent"
+    | "verifying"
+    | "verified"
+    | "invalid"
+    | "expired"
+    | "locked"
+    | "error"
+
+interface UseOtpOptions {
+    /** OTP backend (default: the API, through the context client) */
+    service?: OtpService
+    /** Digits only, without country code */
+    phone?: string
+    email?: string
+    /** Channel for the first send (default "sms") */
+    channel?: OtpChannel
+    /** Verify as soon as every digit is entered (default true) */
+    autoVerify?: boolean
+    onVerified?: () => void
+}
+
+/** Props for OTPInputGroup */
+interface OtpInputBindings {
+    value: string
+    onChange: (otp: string) => void
+    length: number
+    error: string
+    disabled: boolean
+}
+
+interface UseOtpReturn {
+    status: OtpStatus
+    session: OtpSession | null
+    channel: OtpChannel
+    code: string
+    setCode: (code: string) => void
+    /** Customer-facing message for the current status, if any */
+    error: string | null
+    secondsUntilExpiry: number
+    secondsUntilResend: number
+    canResend: boolean
+    attemptsRemaining: number | null
+    /** Epoch ms the lockout ends, when locked */
+    lockedUntil: number | null
+    send: (channel?: OtpChannel) => Promise<void>
+    resend: () => Promise<void>
+    /** Send the code over the other channel straight away */
+    switchChannel: (channel: OtpChannel) => Promise<void>
+    verify: (code?: string) => Promise<boolean>
+    reset: () => void
+    /** Spread onto OTPInputGroup */
+    inputProps: OtpInputBindings
+}
+
+const secondsUntil = (timestamp: number, now: number): number =>
+    Math.max(0, Math.ceil((timestamp - now) / 1000))
+
+/**
+ * Custom hook driving an OTP verification screen.
+ * @param {UseOtpOptions} options - Service, destinations and behaviour
+ * @returns {UseOtpReturn} OTP state, countdowns, actions and OTPInputGroup props
+ */
+export default function useOtp({
+    service,
+    phone,
+    email,
+    channel: initialChannel = "sms",
+    autoVerify = true,
+    onVerified,
+}: UseOtpOptions = {}): UseOtpReturn {
+    const client = useApiClient()
+    const otpService = useMemo(
+        () => service ?? createApiOtpService(client),
+        [service, client]
+    )
+
+    const [status, setStatus] = useState<OtpStatus>("idle")
+    const [session, setSession] = useState<OtpSession | null>(null)
+    const [channel, setChannel] = useState<OtpChannel>(initialChannel)
+    const [code, setCodeState] = useState<string>("")
+    const [message, setMessage] = useState<string | null>(null)
+    const [lockedUntil, setLockedUntil] = useState<number | null>(null)
+    const [now, setNow] = useState<number>(() => Date.now())
+    // Drops responses from requests superseded by a later one
+    const latestRequestRef = useRef(0)
+
+    // Tick once a second while a countdown is running
+    const ticking =
+        (!!session && status !== "verified") || (lockedUntil ?? 0) > now
+    useEffect(() => {
+        if (!ticking) return
+        const intervalId = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(intervalId)
+    }, [ticking])
+
+    const applySendResult = useCallback((result: OtpSendResult) => {
+        setNow(Date.now())
+        switch (result.status) {
+            case "sent":
+                setSession(result.session)
+                setChannel(result.session.channel)
+                setCodeState("")
+                setLockedUntil(null)
+                setMessage(null)
+                setStatus("sent")
+                break
+            case "cooldown":
+                setMessage(
+                    `You can request a new code in ${secondsUntil(result.retryAt, Date.now())}s.`
+                )
+                setStatus((prev) => (prev === "sending" ? "sent" : prev))
+                break
+            case "locked":
+                setLockedUntil(result.lockedUntil)
+                setMessage(null)
+                setStatus("locked")
+                break
+        }
+    }, [])
+
+    const runSend = useCallback(
+        async (request: () => Promise<OtpSendResult>) => {
+            const requestId = ++latestRequestRef.current
+            setStatus("sending")
+            setMessage(null)
+            try {
+                const result = await request()
+                if (requestId === latestRequestRef.current) {
+                    applySendResult(result)
+                }
+            } catch (error) {
+                if (requestId !== latestRequestRef.current) return
+                console.error("Error sending OTP:", error)
+                setMessage(getFriendlyErrorMessage(error))
+                setStatus("error")
+            }
+        },
+        [applySendResult]
+    )
+
+    const send = useCallback(
+        (sendChannel: OtpChannel = channel) => {
+            setChannel(sendChannel)
+            return runSend(() =>
+                otpService.send({ channel: sendChannel, phone, email })
+            )
+        },
+        [channel, runSend, otpService, phone, email]
+    )
+
+    const resend = useCallback(
+        () =>
+            session
+                ? runSend(() => otpService.resend(session.requestId, channel))
+                : send(),
+        [session, runSend, otpService, channel, send]
+    )
+
+    const switchChannel = useCallback(
+        (nextChannel: OtpChannel) => {
+            setChannel(nextChannel)
+            return session
+                ? runSend(() => otpService.resend(session.requestId, nextChannel))
+                : send(nextChannel)
+        },
+        [session, runSend, otpService, send]
+    )
+
+    const verify = useCallback(
+        async (candidate: string = code): Promise<boolean> => {
+            if (!session) return false
+            const requestId = ++latestRequestRef.current
+            setStatus("verifying")
+            setMessage(null)
+            try {
+                const result = await otpService.verify(
+                    session.requestId,
+                    candidate
+                )
+                if (requestId !== latestRequestRef.current) return false
+                setNow(Date.now())
+                switch (result.status) {
+                    case "verified":
+                        setStatus("verified")
+                        onVerified?.()
+                        return true
+                    case "invalid":
+                        setSession({
+                            ...session,
+                            attemptsRemaining: result.attemptsRemaining,
+                        })
+                        setCodeState("")
+                        setStatus("invalid")
+                        return false
+                    case "expired":
+                        setStatus("expired")
+                        return false
+                    case "locked":
+                        setSession(null)
+                        setLockedUntil(result.lockedUntil)
+                        setStatus("locked")
+                        return false
+                }
+            } catch (error) {
+                if (requestId !== latestRequestRef.current) return false
+                console.error("Error verifying OTP:", error)
+                setMessage(getFriendlyErrorMessage(error))
+                setStatus("error")
+            }
+            return false
+        },
+        [session, code, otpService, onVerified]
+    )
+
+    const setCode = useCallback(
+        (value: string) => {
+            setCodeState(value)
+            if (
+                autoVerify &&
+                session &&
+                value.length === session.codeLength &&
+                /^\d+$/.test(value)
+            ) {
+                verify(value)
+            }
+        },
+        [autoVerify, session, verify]
+    )
+
+    const reset = useCallback(() => {
+        latestRequestRef.current++
+        setStatus("idle")
+        setSession(null)
+        setCodeState("")
+        setMessage(null)
+        setLockedUntil(null)
+        setChannel(initialChannel)
+    }, [initialChannel])
+
+    // --- Derived State ---
+
+    const expired =
+        !!session &&
+        now >= session.expiresAt &&
+        status !== "verified" &&
+        status !== "verifying"
+    const effectiveStatus: OtpStatus = expired ? "expired" : status
+    const secondsUntilResend = session
+        ? secondsUntil(session.resendAvailableAt, now)
+        : 0
+    const busy = effectiveStatus === "sending" || effectiveStatus === "verifying"
+    const canResend =
+        !busy &&
+        effectiveStatus !== "verified" &&
+        effectiveStatus !== "locked" &&
+        (!session || secondsUntilResend === 0 || expired)
+
+    let error = message
+    if (!error) {
+        if (effectiveStatus === "invalid" && session) {
+            const left = session.attemptsRemaining
+            error = `Incorrect code. ${left} attempt${left === 1 ? "" : "s"} left.`
+        } else if (effectiveStatus === "expired") {
+            error = "This code has expired. Request a new one."
+        } else if (effectiveStatus === "locked" && lockedUntil) {
+            const minutes = Math.max(1, Math.ceil((lockedUntil - now) / 60000))
+            error = `Too many incorrect attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`
+        }
+    }
+
+    return {
+        status: effectiveStatus,
+        session,
+        channel,
+        code,
+        setCode,
+        error,
+        secondsUntilExpiry: session ? secondsUntil(session.expiresAt, now) : 0,
+        secondsUntilResend,
+        canResend,
+        attemptsRemaining: session ? session.attemptsRemaining : null,
+        lockedUntil,
+        send,
+        resend,
+        switchChannel,
+        verify,
+        reset,
+        inputProps: {
+            value: code,
+            onChange: setCode,
+            length: session ? session.codeLength : DEFAULT_OTP_LENGTH,
+            error: error || "",
+            disabled:
+                !session ||
+                busy ||
+                effectiveStatus === "verified" ||
+                effectiveStatus === "locked" ||
+                expired,
+        },
+    }
+}
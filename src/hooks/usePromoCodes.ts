@@ -0,0 +1,124 @@
+// src/hooks/usePromoCodes.ts
+import { useState, useCallback, useMemo, useRef } from "react"
+import {
+    PromoContext,
+    PromoRule,
+    PromoService,
+    checkPromoStacking,
+    getDefaultPromoService,
+    normalizePromoCode,
+} from "../utils/promo" // Use relative path
+import { getFriendlyErrorMessage } from "../utils/apiErrors"
+import useApiClient from "./useApiClient"
+
+export type PromoStatus = "idle" | "applying" | "applied" | "error"
+
+interface UsePromoCodesOptions {
+    /** Promo backend (default: per VITE_PROMO_SERVICE, through the context client) */
+    service?: PromoService
+    /** Configuration codes are validated against; null while it's incomplete */
+    context: PromoContext | null
+}
+
+interface UsePromoCodesReturn {
+    /** Validated codes, in the order applied; pass to the quote request as `promos` */
+    promos: PromoRule[]
+    /** Code being typed */
+    code: string
+    setCode: (code: string) => void
+    status: PromoStatus
+    /** Customer-facing message when a code was rejected or couldn't be checked */
+    error: string | null
+    /** Validate and add the typed code (or the one given) */
+    apply: (code?: string) => Promise<boolean>
+    remove: (code: string) => void
+    clear: () => void
+}
+
+/**
+ * Custom hook managing the promo codes entered during booking.
+ * @param {UsePromoCodesOptions} options - Service and the configuration to validate against
+ * @returns {UsePromoCodesReturn} Applied codes, input state and actions
+ */
+export default function usePromoCodes({
+    service,
+    context,
+}: UsePromoCodesOptions): UsePromoCodesReturn {
+    const client = useApiClient()
+    const promoService = useMemo(
+        () => service ?? getDefaultPromoService(client),
+        [service, client]
+    )
+
+    const [promos, setPromos] = useState<PromoRule[]>([])
+    const [code, setCodeState] = useState<string>("")
+    const [status, setStatus] = useState<PromoStatus>("idle")
+    const [error, setError] = useState<string | null>(null)
+    // Drops responses from requests superseded by a later one
+    const latestRequestRef = useRef(0)
+
+    const setCode = useCallback((next: string) => {
+        setCodeState(next)
+        setError(null)
+        setStatus((prev) => (prev === "error" ? "idle" : prev))
+    }, [])
+
+    const apply = useCallback(
+        async (candidate: string = code): Promise<boolean> => {
+            const normalized = normalizePromoCode(candidate)
+            const fail = (message: string) => {
+                setError(message)
+                setStatus("error")
+                return false
+            }
+            if (!normalized) return fail("Enter a code.")
+            if (!context) return fail("Choose your vehicle before applying a code.")
+            if (promos.some((promo) => promo.code === normalized)) {
+                return fail("This code is already applied.")
+            }
+
+            const requestId = ++latestRequestRef.current
+            setStatus("applying")
+            setError(null)
+            try {
+                const result = await promoService.validate(normalized, context)
+                if (requestId !== latestRequestRef.current) return false
+                if (result.status === "rejected") return fail(result.message)
+
+                const stacking = checkPromoStacking(result.rule, promos)
+                if (stacking) return fail(stacking.message)
+
+                setPromos((prev) => [...prev, result.rule])
+                setCodeState("")
+                setStatus("applied")
+                return true
+            } catch (err) {
+                if (requestId !== latestRequestRef.current) return false
+                console.error("Error validating promo code:", err)
+                return fail(getFriendlyErrorMessage(err))
+            }
+        },
+        [code, context, promos, promoService]
+    )
+
+    const remove = useCallback(
+        (removed: string) => {
+            const normalized = normalizePromoCode(removed)
+            const next = promos.filter((promo) => promo.code !== normalized)
+            setPromos(next)
+            setStatus(next.length > 0 ? "applied" : "idle")
+            setError(null)
+        },
+        [promos]
+    )
+
+    const clear = useCallback(() => {
+        latestRequestRef.current++
+        setPromos([])
+        setCodeState("")
+        setError(null)
+        setStatus("idle")
+    }, [])
+
+    return { promos, code, setCode, status, error, apply, remove, clear }
+}
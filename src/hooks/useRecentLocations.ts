@@ -0,0 +1,102 @@
+// src/hooks/useRecentLocations.ts
+import { useCallback, useMemo, useSyncExternalStore } from "react"
+import type { LocationFeature } from "../utils/api"
+import {
+    DEFAULT_MAX_RECENT_LOCATIONS,
+    RECENT_LOCATIONS_KEY,
+    RecentLocation,
+    addRecentLocation as addToList,
+    getRecentLocationId,
+    getRecentLocations,
+    removeRecentLocation as removeFromList,
+    subscribeRecentLocations,
+    updateRecentLocations,
+} from "../utils/recentLocations"
+
+export interface UseRecentLocationsOptions {
+    /** localStorage key (default "recent-locations") */
+    storageKey?: string
+    /** Maximum entries kept (default 5) */
+    max?: number
+}
+
+interface UseRecentLocationsReturn {
+    recentLocations: RecentLocation[]
+    addRecentLocation: (feature: LocationFeature) => void
+    removeRecentLocation: (id: string) => void
+    clearRecentLocations: () => void
+    /**
+     * Pre-seed a location for a returning user (e.g. from their profile).
+     * Does nothing if the location is already in the list.
+     */
+    seedDefaultLocation: (feature: LocationFeature) => void
+}
+
+/**
+ * Custom hook for the persisted list of recently selected locations.
+ * Every instance using the same storage key shares one list.
+ * @param {UseRecentLocationsOptions} [options] - Storage key and list cap.
+ * @returns {UseRecentLocationsReturn} The list and methods to change it.
+ */
+export default function useRecentLocations({
+    storageKey = RECENT_LOCATIONS_KEY,
+    max = DEFAULT_MAX_RECENT_LOCATIONS,
+}: UseRecentLocationsOptions = {}): UseRecentLocationsReturn {
+    const subscribe = useCallback(
+        (listener: () => void) => subscribeRecentLocations(storageKey, listener),
+        [storageKey]
+    )
+    const getSnapshot = useCallback(
+        () => getRecentLocations(storageKey),
+        [storageKey]
+    )
+    const list = useSyncExternalStore(subscribe, getSnapshot)
+    const recentLocations = useMemo(() => list.slice(0, max), [list, max])
+
+    const addRecentLocation = useCallback(
+        (feature: LocationFeature) => {
+            updateRecentLocations(
+                (current) => addToList(current, feature, { max }),
+                storageKey
+            )
+        },
+        [max, storageKey]
+    )
+
+    const removeRecentLocation = useCallback(
+        (id: string) => {
+            updateRecentLocations(
+                (current) => removeFromList(current, id),
+                storageKey
+            )
+        },
+        [storageKey]
+    )
+
+    const clearRecentLocations = useCallback(() => {
+        updateRecentLocations(() => [], storageKey)
+    }, [storageKey])
+
+    const seedDefaultLocation = useCallback(
+        (feature: LocationFeature) => {
+            const id = getRecentLocationId(feature)
+            updateRecentLocations(
+                (current) =>
+                    // Keep an existing entry (and its position) for the same place
+                    current.some((item) => item.id === id)
+                        ? current
+                        : addToList(current, feature, { source: "default", max }),
+                storageKey
+            )
+        },
+        [max, storageKey]
+    )
+
+    return {
+        recentLocations,
+        addRecentLocation,
+        removeRecentLocation,
+        clearRecentLocations,
+        seedDefaultLocation,
+    }
+}
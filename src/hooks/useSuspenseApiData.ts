@@ -0,0 +1,84 @@
+// src/hooks/useSuspenseApiData.ts
+import { use, useCallback, useEffect, useSyncExternalStore } from "react"
+import { VehicleData } from "../utils/api" // Use relative path
+import { Catalogue } from "../utils/catalogue"
+import { ValidationReport } from "../utils/vehicleDataSchema"
+import useApiClient from "./useApiClient"
+import useCatalogue, { UseCatalogueReturn } from "./useCatalogue"
+import useVehicleDataStore from "./useVehicleDataStore"
+import { UseApiDataOptions } from "./useApiData"
+
+interface UseSuspenseApiDataState extends UseCatalogueReturn {
+    data: VehicleData
+    catalogue: Catalogue
+    validationReport: ValidationReport
+    /** True while `data` is a cached copy the server hasn't reconfirmed */
+    isStale: boolean
+    /** Epoch ms the server last confirmed `data` */
+    lastUpdated: number
+    /** Drop the cached catalogue and fetch it again */
+    invalidate: () => void
+}
+
+/**
+ * Suspense variant of useApiData: suspends until the catalogue is loaded
+ * and throws load failures to the nearest error boundary.
+ *
+ * @example
+ * <Suspense fallback={<LoadingIndicator text="Loading vehicles..." />}>
+ *     <BookingPage />
+ * </Suspense>
+ *
+ * @param {string} [apiUrl] - Optional base URL override for this hook's client
+ * @param {UseApiDataOptions} [options] - Cache freshness window
+ * @returns {UseSuspenseApiDataState} Loaded data and utility functions
+ */
+export default function useSuspenseApiData(
+    apiUrl?: string,
+    { maxAgeMs }: UseApiDataOptions = {}
+): UseSuspenseApiDataState {
+    const client = useApiClient(apiUrl)
+    const store = useVehicleDataStore()
+
+    const subscribe = useCallback(
+        (listener: () => void) => store.subscribe(listener),
+        [store]
+    )
+    const getSnapshot = useCallback(
+        () => store.getSnapshot(client),
+        [store, client]
+    )
+    const { entry, isStale, error } = useSyncExternalStore(
+        subscribe,
+        getSnapshot
+    )
+
+    // Revalidate a stale cached copy in the background
+    useEffect(() => {
+        if (entry) store.load(client, { maxAgeMs })
+    }, [store, client, maxAgeMs, entry])
+
+    const invalidate = useCallback(() => {
+        store.invalidate(client)
+    }, [store, client])
+
+    const catalogueHelpers = useCatalogue(entry ? entry.data : null)
+
+    if (error) throw error
+    if (!entry || !catalogueHelpers.catalogue) {
+        // The load is deduplicated, so every render suspends on the same promise
+        use(store.load(client, { maxAgeMs }))
+        // Resolved without data: the failure is now in the snapshot
+        throw store.getSnapshot(client).error ?? new Error("No vehicle data")
+    }
+
+    return {
+        ...catalogueHelpers,
+        data: entry.data,
+        catalogue: catalogueHelpers.catalogue,
+        validationReport: entry.report,
+        isStale,
+        lastUpdated: entry.fetchedAt,
+        invalidate,
+    }
+}
@@ -0,0 +1,12 @@
+// src/hooks/useVehicleDataStore.ts
+import { useContext } from "react"
+import { VehicleDataContext } from "../context/VehicleDataContext" // Use relative path
+import { VehicleDataStore } from "../utils/vehicleDataStore"
+
+/**
+ * Returns the vehicle data store from the nearest VehicleDataProvider.
+ * @returns {VehicleDataStore} Vehicle data store
+ */
+export default function useVehicleDataStore(): VehicleDataStore {
+    return useContext(VehicleDataContext)
+}
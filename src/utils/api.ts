@@ -1,14 +1,45 @@
 // src/utils/api.ts
 
-/**
- * Base API URL - Make this configurable in a real app (e.g., via environment variables)
- */
-const API_BASE_URL = "https://booking-engine.sagarsiwach.workers.dev/"
+import {
+    ApiClient,
+    ApiClientResponse,
+    ApiRequestOptions,
+    defaultApiClient,
+} from "./apiClient"
+import { isAbortError } from "./retry"
+import {
+    BusinessError,
+    HttpError,
+    SchemaMismatchError,
+    ValidationError,
+    isApiError,
+} from "./apiErrors"
+import { createIdempotencyKey } from "./idempotency"
+import {
+    PaymentGateway,
+    PaymentOrderRequest,
+    getDefaultPaymentGateway,
+} from "./payments"
+import {
+    ValidatedVehicleData,
+    summarizeValidationReport,
+    validateVehicleData,
+} from "./vehicleDataSchema"
+import { getCatalogue } from "./catalogue"
+import type { InsuranceSelection } from "./insurance"
+import type { SelectedLocation } from "./location"
+import type { Quote } from "./pricing"
+import {
+    DEFAULT_PLACE_ALIASES,
+    buildAliasLookup,
+    normalizeSearchText,
+    scorePlaceName,
+} from "./fuzzySearch"
 
 // --- Interfaces for API Data Structures (based on api.md) ---
 // These should be refined based on actual API usage and full response details
 
-interface ApiModel {
+export interface ApiModel {
     id: number | string
     model_code?: string
     name: string
@@ -17,7 +48,7 @@ interface ApiModel {
     // Add other fields if needed
 }
 
-interface ApiVariant {
+export interface ApiVariant {
     id: number | string
     model_id: number | string
     code?: string
@@ -26,10 +57,11 @@ interface ApiVariant {
     description?: string
     price_addition?: number
     is_default?: boolean
+    battery_kwh?: number // Battery capacity; per-kWh subsidies need it
     // Add other fields if needed
 }
 
-interface ApiColor {
+export interface ApiColor {
     id: number | string
     model_id: number | string
     name: string
@@ -39,7 +71,7 @@ interface ApiColor {
     // Add other fields if needed
 }
 
-interface ApiComponent {
+export interface ApiComponent {
     id: number | string
     model_id: number | string
     component_type?: string // e.g., ACCESSORY, PACKAGE, WARRANTY, SERVICE
@@ -49,10 +81,14 @@ interface ApiComponent {
     description?: string
     price?: number
     is_required?: boolean
+    requires?: Array<number | string> // Components that must be selected with this one
+    excludes?: Array<number | string> // Components that can't be selected with this one
+    includes?: Array<number | string> // Components bundled in this package, at no extra cost
+    exclusive_group?: string // Only one component per group, e.g. EXTENDED_WARRANTY
     // Add other fields if needed
 }
 
-interface ApiPricing {
+export interface ApiPricing {
     id: number | string
     model_id: number | string
     state?: string
@@ -64,6 +100,72 @@ interface ApiPricing {
     // Add other fields if needed
 }
 
+export interface ApiFinanceProvider {
+    id: number | string
+    name: string
+    logo_url?: string
+    is_active?: boolean
+}
+
+export interface ApiFinanceOption {
+    id: number | string
+    provider_id: number | string
+    model_id?: number | string // Absent when the scheme applies to every model
+    title: string
+    description?: string
+    interest_rate: number // Annual, in percent
+    min_tenure_months?: number
+    max_tenure_months?: number
+    min_down_payment_percent?: number
+    processing_fee?: number // Flat amount
+    processing_fee_percent?: number // Of the loan amount
+    subvention_rate?: number // Percentage points of interest borne by the manufacturer
+    is_active?: boolean
+}
+
+export interface ApiInsuranceProvider {
+    id: number | string
+    name: string
+    logo_url?: string
+    is_active?: boolean
+}
+
+export interface ApiInsurancePlan {
+    id: number | string
+    provider_id: number | string
+    model_id?: number | string // Absent when the plan applies to every model
+    title: string
+    description?: string
+    plan_type?: string // e.g., COMPREHENSIVE, THIRD_PARTY
+    premium_rate?: number // Own-damage premium, in percent of the IDV
+    min_premium?: number // Floor for the own-damage premium
+    third_party_premium?: number // Flat amount
+    zero_dep_rate?: number // Zero-depreciation add-on, in percent of the IDV; absent when not offered
+    roadside_assistance_price?: number // Flat amount; absent when not offered
+    tenure_years?: number
+    is_default?: boolean
+    is_active?: boolean
+}
+
+export interface ApiIncentive {
+    id: number | string
+    name: string
+    scope: string // CENTRAL or STATE
+    incentive_type: string // SUBSIDY, ROAD_TAX_WAIVER or REGISTRATION_WAIVER
+    state?: string // Required for STATE incentives
+    model_id?: number | string // Absent when the incentive applies to every model
+    amount?: number // Flat amount
+    amount_per_kwh?: number
+    percent_of_price?: number // Of the ex-showroom price, e.g. the road tax rate waived
+    max_amount?: number
+    max_percent_of_price?: number // Cap as a percent of the ex-showroom price
+    max_ex_showroom_price?: number // Vehicles priced above this aren't eligible
+    min_battery_kwh?: number
+    valid_from?: string // ISO date, inclusive
+    valid_until?: string // ISO date, inclusive
+    is_active?: boolean
+}
+
 // Interface for the main data structure within the "data" field of the API response
 export interface VehicleData {
     models: ApiModel[]
@@ -71,11 +173,11 @@ export interface VehicleData {
     colors: ApiColor[]
     components: ApiComponent[]
     pricing: ApiPricing[]
-    // Removed insurance/finance based on Framer code simplification
-    // insurance_providers?: any[];
-    // insurance_plans?: any[];
-    // finance_providers?: any[];
-    // finance_options?: any[];
+    finance_providers?: ApiFinanceProvider[]
+    finance_options?: ApiFinanceOption[]
+    insurance_providers?: ApiInsuranceProvider[]
+    insurance_plans?: ApiInsurancePlan[]
+    incentives?: ApiIncentive[]
 }
 
 // Interface for the overall API response structure
@@ -86,7 +188,7 @@ interface ApiResponse {
 }
 
 // Interface for Mapbox-like location features used in search
-interface LocationFeature {
+export interface LocationFeature {
     id: string
     place_name: string
     place_type?: string[]
@@ -95,118 +197,261 @@ interface LocationFeature {
     // Add other potential fields like center, geometry if needed
 }
 
+export interface LocationSearchOptions {
+    /** Maximum number of text results (default 8) */
+    limit?: number
+    /** Alias groups for renamed places (default DEFAULT_PLACE_ALIASES) */
+    aliases?: string[][]
+}
+
+const DEFAULT_LOCATION_RESULT_LIMIT = 8
+const defaultAliasLookup = buildAliasLookup(DEFAULT_PLACE_ALIASES)
+
 // --- API Fetch Functions ---
 
 /**
- * Generic fetch function with error handling and basic typing
- * @param {string} endpoint - API endpoint (relative to API_BASE_URL)
- * @param {RequestInit} [options] - Fetch options (method, headers, body, etc.)
+ * Generic fetch function routed through an ApiClient, with status and headers.
+ * Rejects with an ApiError subclass, or an AbortError when cancelled.
+ * @param {string} endpoint - API endpoint (relative to the client's base URL)
+ * @param {ApiRequestOptions} [options] - Fetch options plus timeout, retry and signal
+ * @param {ApiClient} [client=defaultApiClient] - Client to send the request with
+ * @returns {Promise<ApiClientResponse<T>>} Parsed body (null for 304), status and headers
+ * @template T The expected type of the successful response data
+ */
+async function fetchApiResponse<T>(
+    endpoint: string = "",
+    options: ApiRequestOptions = {},
+    client: ApiClient = defaultApiClient
+): Promise<ApiClientResponse<T>> {
+    try {
+        return await client.send<T>(endpoint, options)
+    } catch (error) {
+        if (!isAbortError(error)) {
+            console.error(
+                `API request to ${endpoint} failed [${isApiError(error) ? error.code : "UNKNOWN"}]:`,
+                error
+            )
+        }
+        // Re-throw the error so the caller can handle it
+        throw error
+    }
+}
+
+/**
+ * Generic fetch function routed through an ApiClient.
+ * Rejects with an ApiError subclass, or an AbortError when cancelled.
+ * @param {string} endpoint - API endpoint (relative to the client's base URL)
+ * @param {ApiRequestOptions} [options] - Fetch options plus timeout, retry and signal
+ * @param {ApiClient} [client=defaultApiClient] - Client to send the request with
  * @returns {Promise<T>} API response data (parsed JSON)
  * @template T The expected type of the successful response data
  */
 async function fetchApi<T>(
     endpoint: string = "",
-    options: RequestInit = {}
+    options: ApiRequestOptions = {},
+    client: ApiClient = defaultApiClient
 ): Promise<T> {
-    const url = `${API_BASE_URL}${endpoint}${endpoint.includes("?") ? "&" : "?"}t=${Date.now()}` // Cache busting
-
-    const defaultOptions: RequestInit = {
-        method: "GET",
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            // Add other headers like Authorization if needed
-        },
-        credentials: "omit", // Adjust as needed based on CORS setup
+    const { data } = await fetchApiResponse<T>(endpoint, options, client)
+    return data as T
+}
+
+/** Endpoint serving the vehicle catalogue (see ApiResponse) */
+export const VEHICLE_DATA_ENDPOINT = "/"
+
+/**
+ * Check a vehicle data response and validate every row against the catalogue schema
+ * @param {ApiResponse} result - Parsed response body
+ * @returns {ValidatedVehicleData} Cleaned vehicle data and validation report
+ */
+function validateVehicleDataResponse(result: ApiResponse): ValidatedVehicleData {
+    const endpoint = VEHICLE_DATA_ENDPOINT
+
+    if (result.status === "error") {
+        throw new BusinessError(result.message, { endpoint })
+    }
+    if (result.status !== "success" || !result.data) {
+        throw new SchemaMismatchError(
+            "Response is missing status 'success' or data",
+            [`status: ${String(result.status)}`],
+            { endpoint }
+        )
     }
 
-    try {
-        const response = await fetch(url, { ...defaultOptions, ...options })
-
-        if (!response.ok) {
-            // Attempt to get error details from response body if possible
-            let errorBody = null
-            try {
-                errorBody = await response.json()
-            } catch (e) {
-                // Ignore if body isn't JSON
-            }
-            console.error("API Error Response:", {
-                status: response.status,
-                statusText: response.statusText,
-                body: errorBody,
-            })
-            throw new Error(
-                `API request failed: ${response.status} ${response.statusText}`
-            )
-        }
+    const missing = (
+        ["models", "variants", "colors", "components", "pricing"] as const
+    ).filter((key) => !Array.isArray(result.data?.[key]))
+    if (missing.length > 0) {
+        throw new SchemaMismatchError(
+            "Incomplete data structure received from API",
+            missing.map((key) => `data.${key}: expected array`),
+            { endpoint }
+        )
+    }
 
-        // Handle potential empty responses
-        const responseText = await response.text()
-        if (!responseText || responseText.trim() === "") {
-            // Decide how to handle empty responses - throw error or return null/empty object?
-            // Returning null might be safer if empty responses are possible but not errors.
-            // Throwing an error is stricter. Let's throw for now.
-            throw new Error("Empty response received from API")
-        }
+    const validated = validateVehicleData(result.data)
+    if (!validated.report.isClean) {
+        console.warn(
+            `Vehicle data validation: ${summarizeValidationReport(validated.report)}`,
+            validated.report.issues
+        )
+    }
+    if (validated.data.models.length === 0) {
+        throw new SchemaMismatchError(
+            "No valid models in vehicle data",
+            validated.report.issues.map((i) => `${i.path}: ${i.message}`),
+            { endpoint }
+        )
+    }
+    return validated
+}
 
-        try {
-            return JSON.parse(responseText) as T // Assume the caller knows the expected type T
-        } catch (parseError) {
-            console.error("API JSON parsing error:", parseError)
-            console.error("Response text was:", responseText)
-            throw new Error(`Failed to parse API response: ${parseError}`)
-        }
-    } catch (error) {
-        console.error(`API request to ${endpoint} failed:`, error)
-        // Re-throw the error so the caller can handle it
-        throw error
+/**
+ * Fetch vehicle data and validate every row against the catalogue schema.
+ * Throws BusinessError for `status: "error"` and SchemaMismatchError for bad shapes.
+ * Invalid rows are dropped and described in the returned report.
+ * @param {ApiClient} [client=defaultApiClient] - Client to send the request with
+ * @param {AbortSignal} [signal] - Cancels the request (and any pending retries)
+ * @returns {Promise<ValidatedVehicleData>} Cleaned vehicle data and validation report
+ */
+export async function fetchValidatedVehicleData(
+    client: ApiClient = defaultApiClient,
+    signal?: AbortSignal
+): Promise<ValidatedVehicleData> {
+    const result = await fetchApi<ApiResponse>(
+        VEHICLE_DATA_ENDPOINT,
+        { signal },
+        client
+    )
+    return validateVehicleDataResponse(result)
+}
+
+export type ConditionalVehicleData =
+    | { notModified: true; etag?: string }
+    | ({ notModified: false; etag?: string } & ValidatedVehicleData)
+
+/**
+ * Fetch vehicle data only if it changed since the copy identified by `etag`
+ * @param {ApiClient} [client=defaultApiClient] - Client to send the request with
+ * @param {AbortSignal} [signal] - Cancels the request (and any pending retries)
+ * @param {string} [etag] - ETag of the copy already held; sent as If-None-Match
+ * @returns {Promise<ConditionalVehicleData>} notModified, or validated data with its ETag
+ */
+export async function fetchVehicleDataIfChanged(
+    client: ApiClient = defaultApiClient,
+    signal?: AbortSignal,
+    etag?: string
+): Promise<ConditionalVehicleData> {
+    const response = await fetchApiResponse<ApiResponse>(
+        VEHICLE_DATA_ENDPOINT,
+        { signal, headers: etag ? { "If-None-Match": etag } : undefined },
+        client
+    )
+    const responseEtag = response.headers.get("ETag") || undefined
+    if (response.notModified || !response.data) {
+        return { notModified: true, etag: responseEtag ?? etag }
+    }
+    return {
+        notModified: false,
+        etag: responseEtag,
+        ...validateVehicleDataResponse(response.data),
     }
 }
 
 /**
  * Fetch vehicle data including models, variants, colors, components, and pricing
- * @returns {Promise<VehicleData>} Vehicle data object
+ * @param {ApiClient} [client=defaultApiClient] - Client to send the request with
+ * @param {AbortSignal} [signal] - Cancels the request (and any pending retries)
+ * @returns {Promise<VehicleData>} Validated vehicle data object
  */
-export async function fetchVehicleData(): Promise<VehicleData> {
-    try {
-        // Assuming the base endpoint returns the structure defined in ApiResponse
-        const result = await fetchApi<ApiResponse>("/") // Adjust endpoint if needed
-
-        if (result.status === "success" && result.data) {
-            // Basic validation of the data structure could be added here
-            if (
-                !result.data.models ||
-                !result.data.variants ||
-                !result.data.colors ||
-                !result.data.components ||
-                !result.data.pricing
-            ) {
-                throw new Error("Incomplete data structure received from API")
-            }
-            return result.data
-        } else {
-            throw new Error(
-                `API returned status '${result.status}' or missing data. Message: ${result.message || "N/A"}`
-            )
-        }
-    } catch (error) {
-        console.error("Error fetching vehicle data:", error)
-        // Propagate the error
-        throw error
+export async function fetchVehicleData(
+    client: ApiClient = defaultApiClient,
+    signal?: AbortSignal
+): Promise<VehicleData> {
+    const { data } = await fetchValidatedVehicleData(client, signal)
+    return data
+}
+
+// --- Local Location Features ---
+
+const LOCAL_PINCODE_ID_PREFIX = "loc-pincode-"
+const LOCAL_PLACE_ID_PREFIX = "loc-text-"
+
+/** Feature for a pincode inside a pricing row's range */
+const pincodeFeature = (pincode: string, p: ApiPricing): LocationFeature => ({
+    id: `${LOCAL_PINCODE_ID_PREFIX}${pincode}`,
+    place_name: `${pincode}, ${p.city || ""}, ${p.state || ""}, India`.replace(
+        / ,/g,
+        ","
+    ), // Basic cleanup
+    place_type: ["postcode"],
+    context: [
+        { id: `postcode.${p.id}`, text: pincode },
+        { id: `place.${p.id}`, text: p.city || "" },
+        { id: `region.${p.id}`, text: p.state || "" },
+    ].filter((ctx) => ctx.text), // Remove context items with empty text
+    text: pincode,
+})
+
+/** Feature for a pricing row's city (or its state, for state-only matches) */
+const placeFeature = (p: ApiPricing, matchedCity: boolean): LocationFeature => ({
+    id: `${LOCAL_PLACE_ID_PREFIX}${p.id}`,
+    place_name: `${p.city || ""}, ${p.state || ""}, India`.replace(/ ,/g, ","),
+    place_type: [matchedCity ? "place" : "region"],
+    context: [
+        { id: `place.${p.id}`, text: p.city || "" },
+        { id: `region.${p.id}`, text: p.state || "" },
+    ].filter((ctx) => ctx.text),
+    text: matchedCity ? p.city : p.state,
+})
+
+/**
+ * Selectable feature for a pricing row's city (or state, for state-wide rows)
+ * @param {ApiPricing} row - Pricing row
+ * @returns {LocationFeature} Feature with the same id search results use
+ */
+export const getPricingPlaceFeature = (row: ApiPricing): LocationFeature =>
+    placeFeature(row, !!row.city)
+
+/**
+ * Rebuild a feature returned by searchLocationFromPricing from its id
+ * @param {string} id - Feature id (`loc-pincode-<pincode>` or `loc-text-<pricing id>`)
+ * @param {VehicleData | null} vehicleData - Vehicle data containing pricing info
+ * @returns {LocationFeature | null} The feature, or null if it no longer resolves
+ */
+export function getLocationFeatureById(
+    id: string,
+    vehicleData: VehicleData | null
+): LocationFeature | null {
+    if (!vehicleData || !vehicleData.pricing) return null
+    const catalogue = getCatalogue(vehicleData)
+
+    if (id.startsWith(LOCAL_PINCODE_ID_PREFIX)) {
+        const pincode = id.slice(LOCAL_PINCODE_ID_PREFIX.length)
+        if (!/^\d{6}$/.test(pincode)) return null
+        const match = catalogue.pincodeIndex.lookup(parseInt(pincode, 10))
+        return match ? pincodeFeature(pincode, match.value) : null
     }
+    if (id.startsWith(LOCAL_PLACE_ID_PREFIX)) {
+        const row = catalogue.pricingById.get(id.slice(LOCAL_PLACE_ID_PREFIX.length))
+        return row && (row.city || row.state) ? getPricingPlaceFeature(row) : null
+    }
+    return null
 }
 
 /**
  * Search location data by query (pincode or city name) using local pricing data.
+ * Text queries are ranked: exact, prefix, word prefix, substring, then typo
+ * matches, with renamed cities found through an alias table.
  * NOTE: This performs a local filter, not a real API call.
  * @param {string} query - Search query (pincode or text)
  * @param {VehicleData | null} vehicleData - The fetched vehicle data containing pricing info
+ * @param {LocationSearchOptions} [options] - Result limit and alias table
  * @returns {LocationFeature[]} An array of location results formatted like Mapbox features
  */
 export function searchLocationFromPricing(
     query: string,
-    vehicleData: VehicleData | null
+    vehicleData: VehicleData | null,
+    options: LocationSearchOptions = {}
 ): LocationFeature[] {
     if (!query || !vehicleData || !vehicleData.pricing) {
         return []
@@ -219,59 +464,39 @@ export function searchLocationFromPricing(
         // Check if it's a 6-digit pincode
         if (/^\d{6}$/.test(cleanedQuery)) {
             const pincodeNum = parseInt(cleanedQuery, 10)
-            vehicleData.pricing.forEach((p) => {
-                if (
-                    p.pincode_start !== undefined &&
-                    p.pincode_end !== undefined &&
-                    p.pincode_start <= pincodeNum &&
-                    p.pincode_end >= pincodeNum
-                ) {
-                    results.push({
-                        id: `loc-pincode-${p.id}`,
-                        place_name: `${cleanedQuery}, ${p.city || ""}, ${p.state || ""}, India`.replace(
-                            / ,/g,
-                            ","
-                        ), // Basic cleanup
-                        place_type: ["postcode"],
-                        context: [
-                            { id: `postcode.${p.id}`, text: cleanedQuery },
-                            { id: `place.${p.id}`, text: p.city || "" },
-                            { id: `region.${p.id}`, text: p.state || "" },
-                        ].filter((ctx) => ctx.text), // Remove context items with empty text
-                        text: cleanedQuery,
-                    })
-                }
-            })
+            // Indexed lookup; overlapping ranges resolve to the most specific one
+            const match = getCatalogue(vehicleData).pincodeIndex.lookup(pincodeNum)
+            if (match) results.push(pincodeFeature(cleanedQuery, match.value))
         } else if (cleanedQuery.length >= 3) {
-            // Search based on city/state (case-insensitive)
-            const lowerCaseQuery = cleanedQuery.toLowerCase()
-            const addedCities = new Set<string>() // Prevent duplicate cities/states
-
-            vehicleData.pricing.forEach((p) => {
-                const cityMatch =
-                    p.city && p.city.toLowerCase().includes(lowerCaseQuery)
-                const stateMatch =
-                    p.state && p.state.toLowerCase().includes(lowerCaseQuery)
-
-                if (cityMatch || stateMatch) {
-                    const placeIdentifier = `${p.city || ""}-${p.state || ""}`.toLowerCase()
-                    if (!addedCities.has(placeIdentifier)) {
-                        results.push({
-                            id: `loc-text-${p.id}`,
-                            place_name: `${p.city || ""}, ${p.state || ""}, India`.replace(
-                                / ,/g,
-                                ","
-                            ),
-                            place_type: ["place"], // Could be 'region' if only state matched
-                            context: [
-                                { id: `place.${p.id}`, text: p.city || "" },
-                                { id: `region.${p.id}`, text: p.state || "" },
-                            ].filter((ctx) => ctx.text),
-                            text: cityMatch ? p.city : p.state, // Prioritize city as text
-                        })
-                        addedCities.add(placeIdentifier)
-                    }
-                }
+            // Ranked, typo-tolerant search over distinct city/state pairs
+            const normalizedQuery = normalizeSearchText(cleanedQuery)
+            const aliases = options.aliases
+                ? buildAliasLookup(options.aliases)
+                : defaultAliasLookup
+
+            const ranked = getCatalogue(vehicleData)
+                .places.map((place) => {
+                    const cityScore = place.city
+                        ? scorePlaceName(normalizedQuery, place.city, aliases)
+                        : 0
+                    // State-only matches rank just below the same tier of city match
+                    const stateScore = place.state
+                        ? scorePlaceName(normalizedQuery, place.state, aliases) - 1
+                        : 0
+                    return { place, cityScore, score: Math.max(cityScore, stateScore) }
+                })
+                .filter((entry) => entry.score > 0)
+                .sort(
+                    (a, b) =>
+                        b.score - a.score ||
+                        (a.place.city || "").length - (b.place.city || "").length ||
+                        (a.place.city || "").localeCompare(b.place.city || "")
+                )
+                .slice(0, options.limit ?? DEFAULT_LOCATION_RESULT_LIMIT)
+
+            ranked.forEach(({ place, cityScore, score }) => {
+                const matchedCity = cityScore > 0 && cityScore >= score
+                results.push(placeFeature(place.pricing, matchedCity))
             })
         }
         return results
@@ -281,12 +506,11 @@ export function searchLocationFromPricing(
     }
 }
 
-// --- Mock/Simulated API Functions ---
-// Replace these with actual API calls when backend is ready
+// --- Booking Submission ---
 
-interface SubmitBookingPayload {
+export interface SubmitBookingPayload {
     // Define the structure based on what your backend expects
-    location: string
+    location: SelectedLocation // Delivery location (the address fields below are the customer's)
     selectedVehicle: string | number
     selectedVariant: string | number
     selectedColor: string | number
@@ -298,134 +522,467 @@ interface SubmitBookingPayload {
     city: string
     state: string
     pincode: string
-    totalPrice: number
+    totalPrice: number // After promo discounts; includes the insurance premium when a plan is chosen
     vehicleName: string
     vehicleCode: string
+    insurance?: InsuranceSelection | null
+    discount?: number // Promo discount already taken off totalPrice
+    promoCodes?: string[]
 }
 
-interface SubmitBookingResponse {
+export type SubmitBookingField = keyof SubmitBookingPayload
+
+export interface SubmitBookingResponse {
     status: "success" | "error"
     bookingId?: string
     estimatedDelivery?: string
     message?: string
 }
 
+/** Booking response as sent by the API */
+interface ApiBookingResponse {
+    status: "success" | "error"
+    booking_id?: string
+    estimated_delivery?: string
+    message?: string
+    /** Field errors keyed by wire field path, e.g. "full_name" or "location.pincode" */
+    errors?:
+        | Record<string, string | string[]>
+        | Array<{ field?: string; message?: string }>
+}
+
 /**
- * Submit booking form data (MOCK IMPLEMENTATION)
- * @param {SubmitBookingPayload} formData - Booking form data
- * @returns {Promise<SubmitBookingResponse>} Submission result
+ * Sends a booking. Swap adapters to submit against the API or the
+ * in-memory mock (demos, tests, Storybook) without changing call sites.
  */
-export async function submitBooking(
-    formData: SubmitBookingPayload
-): Promise<SubmitBookingResponse> {
-    console.log("MOCK: Submitting booking form:", formData)
+export type BookingAdapter = (
+    payload: SubmitBookingPayload,
+    client: ApiClient,
+    options: { idempotencyKey: string; signal?: AbortSignal }
+) => Promise<SubmitBookingResponse>
+
+export interface SubmitBookingOptions {
+    /**
+     * Identifies this submission across retries and offline replays, so
+     * the server books it at most once (generated when omitted; see
+     * utils/idempotency)
+     */
+    idempotencyKey?: string
+    /** Adapter to send with (default: getDefaultBookingAdapter()) */
+    adapter?: BookingAdapter
+    /** Cancels the request */
+    signal?: AbortSignal
+}
+
+export const BOOKINGS_ENDPOINT = "/bookings"
+
+const toSnakeCase = (name: string): string =>
+    name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)
+
+const snakeCaseKeys = (value: object): Record<string, unknown> =>
+    Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [toSnakeCase(key), item])
+    )
+
+// Wire field name -> payload field, e.g. "full_name" -> "fullName"
+const BOOKING_FIELD_BY_WIRE_NAME = new Map<string, SubmitBookingField>(
+    (
+        [
+            "location",
+            "selectedVehicle",
+            "selectedVariant",
+            "selectedColor",
+            "optionalComponents",
+            "fullName",
+            "email",
+            "phone",
+            "address",
+            "city",
+            "state",
+            "pincode",
+            "totalPrice",
+            "vehicleName",
+            "vehicleCode",
+            "insurance",
+            "discount",
+            "promoCodes",
+        ] satisfies SubmitBookingField[]
+    ).map((field) => [toSnakeCase(field), field])
+)
+
+/**
+ * Price fields of a booking payload, taken from the quote so the
+ * discount is carried into totalPrice
+ * @param {Quote} quote - Quote for the configuration being booked
+ * @returns {object} totalPrice, discount and the applied promo codes
+ */
+export const getBookingPriceFields = (
+    quote: Quote
+): Pick<SubmitBookingPayload, "totalPrice" | "discount" | "promoCodes"> => ({
+    totalPrice: quote.total,
+    discount: quote.discount,
+    promoCodes: quote.promos.applied.map((promo) => promo.code),
+})
+
+/**
+ * Serialize a booking payload in the API's snake_case shape
+ * @param {SubmitBookingPayload} payload - Booking form data
+ * @returns {Record<string, unknown>} Request body
+ */
+export const toBookingRequestBody = (
+    payload: SubmitBookingPayload
+): Record<string, unknown> => ({
+    ...snakeCaseKeys(payload),
+    location: snakeCaseKeys(payload.location),
+    insurance: payload.insurance ? snakeCaseKeys(payload.insurance) : null,
+})
+
+/**
+ * Map API field errors back onto SubmitBookingPayload fields.
+ * Nested paths ("location.pincode", "optional_components[1]") map to their
+ * top-level field; errors for unknown fields are returned separately.
+ * @param {ApiBookingResponse["errors"]} errors - Errors from the response body
+ * @returns {object} Field errors and unmatched messages
+ */
+export function mapBookingFieldErrors(errors: ApiBookingResponse["errors"]): {
+    fieldErrors: Partial<Record<SubmitBookingField, string>>
+    formErrors: string[]
+} {
+    const fieldErrors: Partial<Record<SubmitBookingField, string>> = {}
+    const formErrors: string[] = []
+    const entries: Array<[string, string]> = Array.isArray(errors)
+        ? errors.map((item) => [item.field || "", item.message || ""])
+        : Object.entries(errors || {}).map(([path, messages]) => [
+              path,
+              Array.isArray(messages) ? messages[0] || "" : messages,
+          ])
+
+    entries.forEach(([path, message]) => {
+        if (!message) return
+        const wireName = path.split(/[.[]/)[0]
+        const field =
+            BOOKING_FIELD_BY_WIRE_NAME.get(wireName) ||
+            BOOKING_FIELD_BY_WIRE_NAME.get(toSnakeCase(wireName))
+        if (field && !fieldErrors[field]) fieldErrors[field] = message
+        else if (!field) formErrors.push(message)
+    })
+    return { fieldErrors, formErrors }
+}
+
+/**
+ * Build a ValidationError from a response carrying field errors
+ * @returns {ValidationError | null} Error, or null when the body has no field errors
+ */
+const toBookingValidationError = (
+    body: ApiBookingResponse | null | undefined,
+    options: { endpoint: string; cause?: unknown }
+): ValidationError<SubmitBookingField> | null => {
+    const errors = body?.errors
+    const hasErrors = Array.isArray(errors)
+        ? errors.length > 0
+        : !!errors && Object.keys(errors).length > 0
+    if (!body || !hasErrors) return null
+
+    const { fieldErrors, formErrors } = mapBookingFieldErrors(errors)
+    return new ValidationError<SubmitBookingField>(
+        fieldErrors,
+        body.message ? [body.message, ...formErrors] : formErrors,
+        options
+    )
+}
+
+/**
+ * Submit a booking to the API.
+ * Rejected fields throw a ValidationError whose `fieldErrors` use
+ * SubmitBookingPayload names, so forms can show them next to the inputs.
+ * The idempotency key lets the client retry the POST safely.
+ */
+export const httpBookingAdapter: BookingAdapter = async (
+    payload,
+    client,
+    { idempotencyKey, signal }
+) => {
+    const endpoint = BOOKINGS_ENDPOINT
+    let result: ApiBookingResponse
+    try {
+        result = await fetchApi<ApiBookingResponse>(
+            endpoint,
+            {
+                method: "POST",
+                headers: { "Idempotency-Key": idempotencyKey },
+                body: JSON.stringify(toBookingRequestBody(payload)),
+                idempotent: true, // Safe to retry: the key prevents double bookings
+                signal,
+            },
+            client
+        )
+    } catch (error) {
+        // 400/422 with field errors: the server rejected the submission
+        const validationError =
+            error instanceof HttpError &&
+            (error.status === 400 || error.status === 422)
+                ? toBookingValidationError(
+                      error.body as ApiBookingResponse | null,
+                      { endpoint, cause: error }
+                  )
+                : null
+        throw validationError || error
+    }
+
+    if (result.status === "error") {
+        const validationError = toBookingValidationError(result, { endpoint })
+        if (validationError) throw validationError
+    }
+    if (result.status === "success" && !result.booking_id) {
+        throw new SchemaMismatchError(
+            "Booking response is missing booking_id",
+            ["booking_id: expected string"],
+            { endpoint }
+        )
+    }
+    return {
+        status: result.status === "success" ? "success" : "error",
+        bookingId: result.booking_id,
+        estimatedDelivery: result.estimated_delivery,
+        message: result.message,
+    }
+}
+
+// Responses already given per idempotency key, as the server would keep them
+const mockBookingResponses = new Map<string, SubmitBookingResponse>()
+
+/**
+ * Simulated booking endpoint (MOCK IMPLEMENTATION) for demos and tests.
+ * Answers a repeated idempotency key with the original response.
+ */
+export const mockBookingAdapter: BookingAdapter = async (
+    payload,
+    client,
+    { idempotencyKey }
+) => {
+    console.log(
+        `MOCK: Submitting booking form to ${client.buildUrl(BOOKINGS_ENDPOINT)} (Idempotency-Key: ${idempotencyKey}):`,
+        payload
+    )
     await new Promise((resolve) => setTimeout(resolve, 1500)) // Simulate network delay
 
+    // A replayed submission gets the original answer instead of a second booking
+    const previous = mockBookingResponses.get(idempotencyKey)
+    if (previous) return previous
+
     // Simulate success
     const bookingId = `KM-${Math.floor(Math.random() * 9000000) + 1000000}`
-    return {
+    const response: SubmitBookingResponse = {
         status: "success",
         bookingId,
         estimatedDelivery: "15 May, 2025", // Example date
     }
+    mockBookingResponses.set(idempotencyKey, response)
+    return response
     // Simulate failure:
     // return { status: "error", message: "Failed to save booking." };
 }
 
-interface OtpResponse {
-    status: "success" | "error"
-    message?: string
-}
-
 /**
- * Send OTP (MOCK IMPLEMENTATION)
- * @param {string} phone - User's phone number (digits only)
- * @param {string} email - User's email address
- * @param {boolean} [useEmail=false] - Whether to send OTP to email instead of phone
- * @returns {Promise<OtpResponse>} OTP sending result
+ * Adapter used when none is passed: the mock when VITE_BOOKING_ADAPTER
+ * is "mock", otherwise the API
+ * @returns {BookingAdapter} Booking adapter
  */
-export async function sendOTP(
-    phone: string,
-    email: string,
-    useEmail: boolean = false
-): Promise<OtpResponse> {
-    const destination = useEmail ? email : `+91 ${phone}` // Assuming +91 prefix
-    console.log(
-        `MOCK: Sending OTP to ${destination} via ${useEmail ? "email" : "SMS"}`
-    )
-    await new Promise((resolve) => setTimeout(resolve, 1000)) // Simulate network delay
+export const getDefaultBookingAdapter = (): BookingAdapter =>
+    import.meta.env.VITE_BOOKING_ADAPTER === "mock"
+        ? mockBookingAdapter
+        : httpBookingAdapter
 
-    return {
-        status: "success",
-        message: `MOCK: OTP sent to ${destination}`,
-    }
-    // Simulate failure:
-    // return { status: "error", message: "Failed to send OTP." };
+/**
+ * Submit booking form data
+ * @param {SubmitBookingPayload} formData - Booking form data
+ * @param {ApiClient} [client=defaultApiClient] - Client the request is routed through
+ * @param {SubmitBookingOptions} [options] - Idempotency key, adapter and signal
+ * @returns {Promise<SubmitBookingResponse>} Submission result
+ */
+export async function submitBooking(
+    formData: SubmitBookingPayload,
+    client: ApiClient = defaultApiClient,
+    {
+        idempotencyKey = createIdempotencyKey(),
+        adapter = getDefaultBookingAdapter(),
+        signal,
+    }: SubmitBookingOptions = {}
+): Promise<SubmitBookingResponse> {
+    return adapter(formData, client, { idempotencyKey, signal })
 }
 
-interface VerifyOtpResponse {
-    status: "success" | "error"
-    verified: boolean
+// --- Payments ---
+
+export interface PaymentResponse {
+    /** "pending" means the gateway hasn't settled yet; poll it again later */
+    status: "success" | "pending" | "cancelled" | "error"
+    orderId?: string
+    transactionId?: string
     message?: string
 }
 
 /**
- * Verify OTP code (MOCK IMPLEMENTATION)
- * @param {string} otp - OTP code to verify
- * @param {string} phoneOrEmail - Identifier used for OTP request (for logging/context)
- * @returns {Promise<VerifyOtpResponse>} Verification result
+ * Take a payment end to end: create the order, run checkout, verify the
+ * signature and, for payments still processing, poll until they settle
+ * @param {PaymentOrderRequest} paymentDetails - Amount (rupees), receipt and customer
+ * @param {ApiClient} [client=defaultApiClient] - Client the requests are routed through
+ * @param {PaymentGateway} [gateway] - Gateway to use (default: getDefaultPaymentGateway(client))
+ * @returns {Promise<PaymentResponse>} Payment result
  */
-export async function verifyOTP(
-    otp: string,
-    phoneOrEmail: string // Added for context
-): Promise<VerifyOtpResponse> {
-    console.log(`MOCK: Verifying OTP ${otp} for ${phoneOrEmail}`)
-    await new Promise((resolve) => setTimeout(resolve, 1500)) // Simulate network delay
-
-    // Use "123456" as the magic OTP for demo
-    if (otp === "123456") {
-        return {
-            status: "success",
-            verified: true,
+export async function processPayment(
+    paymentDetails: PaymentOrderRequest,
+    client: ApiClient = defaultApiClient,
+    gateway: PaymentGateway = getDefaultPaymentGateway(client)
+): Promise<PaymentResponse> {
+    const order = await gateway.createOrder(paymentDetails)
+    const { orderId } = order
+    const result = await gateway.openCheckout(order)
+
+    switch (result.status) {
+        case "cancelled":
+            return { status: "cancelled", orderId, message: "Payment was cancelled." }
+        case "failed":
+            return { status: "error", orderId, message: result.reason }
+        case "success": {
+            const verified = await gateway.verifySignature(result)
+            return verified
+                ? { status: "success", orderId, transactionId: result.paymentId }
+                : {
+                      status: "error",
+                      orderId,
+                      message: "We couldn't confirm this payment. Please contact support.",
+                  }
         }
-    } else {
-        return {
-            status: "error",
-            verified: false,
-            message: "Invalid OTP code",
+        case "pending": {
+            const settled = await gateway.pollStatus(orderId)
+            if (settled.status === "paid") {
+                return { status: "success", orderId, transactionId: settled.paymentId }
+            }
+            if (settled.status === "pending" || settled.status === "created") {
+                return {
+                    status: "pending",
+                    orderId,
+                    transactionId: settled.paymentId,
+                    message: "Your payment is still processing. We'll confirm it shortly.",
+                }
+            }
+            return {
+                status: "error",
+                orderId,
+                message: settled.failureReason || "Payment failed.",
+            }
         }
     }
 }
 
-interface PaymentResponse {
+// --- Serviceability Notifications ---
+
+export interface AvailabilityRequestPayload {
+    name: string
+    phone: string
+    pincode: string
+    city?: string
+    state?: string
+}
+
+export interface AvailabilityRequestResponse {
     status: "success" | "error"
-    transactionId?: string
+    requestId?: string
+    message?: string
+}
+
+/** Wire format of a notify-me response */
+interface ApiAvailabilityRequestResponse {
+    status: "success" | "error"
+    request_id?: string
     message?: string
 }
 
 /**
- * Process payment (MOCK IMPLEMENTATION)
- * @param {any} paymentDetails - Placeholder for payment details (e.g., amount, method)
- * @returns {Promise<PaymentResponse>} Payment result
+ * Sends a notify-me request. Swap adapters to submit against the API or
+ * the in-memory mock (demos, tests, Storybook) without changing call sites.
  */
-export async function processPayment(
-    paymentDetails: any
-): Promise<PaymentResponse> {
-    console.log("MOCK: Processing payment:", paymentDetails)
-    await new Promise((resolve) => setTimeout(resolve, 2000)) // Simulate network delay
+export type AvailabilityRequestAdapter = (
+    payload: AvailabilityRequestPayload,
+    client: ApiClient
+) => Promise<AvailabilityRequestResponse>
+
+export const AVAILABILITY_REQUEST_ENDPOINT = "/serviceability/notify"
 
-    // Simulate success based on some logic or randomly
-    const success = Math.random() > 0.2 // 80% chance of success for demo
-    if (success) {
+/**
+ * Submit a notify-me request to the API. A 400/422 resolves with the
+ * server's message instead of throwing, so the form can show it.
+ */
+export const httpAvailabilityRequestAdapter: AvailabilityRequestAdapter = async (
+    payload,
+    client
+) => {
+    const endpoint = AVAILABILITY_REQUEST_ENDPOINT
+    try {
+        const result = await fetchApi<ApiAvailabilityRequestResponse>(
+            endpoint,
+            { method: "POST", body: JSON.stringify(payload) },
+            client
+        )
         return {
-            status: "success",
-            transactionId: `TX-${Date.now()}-${Math.round(Math.random() * 1000000)}`,
-            message: "MOCK: Payment processed successfully",
+            status: result.status === "success" ? "success" : "error",
+            requestId: result.request_id,
+            message: result.message,
         }
-    } else {
-        return {
-            status: "error",
-            message: "MOCK: Payment failed.",
+    } catch (error) {
+        if (
+            error instanceof HttpError &&
+            (error.status === 400 || error.status === 422)
+        ) {
+            const body = error.body as ApiAvailabilityRequestResponse | null
+            return { status: "error", message: body?.message }
         }
+        throw error
+    }
+}
+
+/**
+ * Simulated notify-me endpoint (MOCK IMPLEMENTATION) for demos and tests
+ */
+export const mockAvailabilityRequestAdapter: AvailabilityRequestAdapter = async (
+    payload,
+    client
+) => {
+    console.log(
+        `MOCK: Availability request to ${client.buildUrl(AVAILABILITY_REQUEST_ENDPOINT)}:`,
+        payload
+    )
+    await new Promise((resolve) => setTimeout(resolve, 800)) // Simulate network delay
+
+    return {
+        status: "success",
+        requestId: `AR-${Math.floor(Math.random() * 900000) + 100000}`,
+        message: `We'll let you know when we deliver to ${payload.pincode}.`,
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Adapter used when none is passed: the mock when VITE_BOOKING_ADAPTER
+ * is "mock" (the notify-me form is part of booking), otherwise the API
+ * @returns {AvailabilityRequestAdapter} Notify-me adapter
+ */
+export const getDefaultAvailabilityRequestAdapter = (): AvailabilityRequestAdapter =>
+    import.meta.env.VITE_BOOKING_ADAPTER === "mock"
+        ? mockAvailabilityRequestAdapter
+        : httpAvailabilityRequestAdapter
+
+/**
+ * Ask to be notified when an unserviced pincode is covered
+ * @param {AvailabilityRequestPayload} payload - Contact details and pincode
+ * @param {ApiClient} [client=defaultApiClient] - Client the request is routed through
+ * @param {AvailabilityRequestAdapter} [adapter] - Adapter to send with (default: getDefaultAvailabilityRequestAdapter())
+ * @returns {Promise<AvailabilityRequestResponse>} Submission status
+ */
+export async function submitAvailabilityRequest(
+    payload: AvailabilityRequestPayload,
+    client: ApiClient = defaultApiClient,
+    adapter: AvailabilityRequestAdapter = getDefaultAvailabilityRequestAdapter()
+): Promise<AvailabilityRequestResponse> {
+    return adapter(payload, client)
+}
@@ -0,0 +1,341 @@
+// src/utils/apiClient.ts
+import {
+    RetryPolicy,
+    DEFAULT_RETRY_POLICY,
+    computeBackoffDelay,
+    createAbortError,
+    delay,
+} from "./retry"
+import {
+    ApiError,
+    EmptyResponseError,
+    HttpError,
+    NetworkError,
+    ParseError,
+    TimeoutError,
+} from "./apiErrors"
+
+/**
+ * Default API host, used when no VITE_API_BASE_URL is configured
+ */
+export const DEFAULT_API_BASE_URL =
+    "https://booking-engine.sagarsiwach.workers.dev/"
+
+/**
+ * Default request timeout in milliseconds
+ */
+export const DEFAULT_TIMEOUT_MS = 15000
+
+// --- Interfaces ---
+
+/**
+ * Returns a bearer token for the current user, or null when unauthenticated.
+ * May be async so tokens can be refreshed lazily.
+ */
+export type AuthTokenProvider = () => string | null | Promise<string | null>
+
+export interface ApiClientConfig {
+    /** Base URL every endpoint is resolved against */
+    baseUrl: string
+    /** Headers sent with every request (merged under per-request headers) */
+    defaultHeaders?: Record<string, string>
+    /** Optional provider for an Authorization bearer token */
+    getAuthToken?: AuthTokenProvider
+    /** Request timeout in milliseconds (0 disables the timeout) */
+    timeoutMs?: number
+    /** Fetch credentials mode */
+    credentials?: RequestCredentials
+    /** Retry policy for idempotent requests (merged over DEFAULT_RETRY_POLICY) */
+    retry?: Partial<RetryPolicy>
+}
+
+export interface ResolvedApiClientConfig {
+    baseUrl: string
+    defaultHeaders: Record<string, string>
+    getAuthToken?: AuthTokenProvider
+    timeoutMs: number
+    credentials: RequestCredentials
+    retry: RetryPolicy
+}
+
+export interface ApiRequestOptions extends RequestInit {
+    /** Per-request timeout override in milliseconds (0 disables the timeout) */
+    timeoutMs?: number
+    /** Per-request retry override; false disables retrying */
+    retry?: Partial<RetryPolicy> | false
+    /** Allow retrying a non-GET request the server treats as idempotent */
+    idempotent?: boolean
+    /**
+     * Query parameters appended to the URL. Unlike ones written into the
+     * endpoint, they stay out of logs and error metadata (e.g. access tokens).
+     */
+    query?: Record<string, string>
+}
+
+/** A parsed response with the metadata conditional requests need */
+export interface ApiClientResponse<T> {
+    /** Parsed JSON body, or null for 304 Not Modified */
+    data: T | null
+    status: number
+    headers: Headers
+    /** True when the server answered 304 to If-None-Match/If-Modified-Since */
+    notModified: boolean
+}
+
+export interface ApiClient {
+    /** Resolved configuration for this client */
+    readonly config: Readonly<ResolvedApiClientConfig>
+    /**
+     * Perform a request and return the parsed JSON body.
+     * GET/HEAD requests (or ones flagged idempotent) are retried with
+     * jittered exponential backoff on network errors, timeouts and 5xx.
+     * Failures reject with an ApiError subclass (see utils/apiErrors).
+     * @template T The expected type of the response body
+     */
+    request<T>(endpoint?: string, options?: ApiRequestOptions): Promise<T>
+    /**
+     * Like request, but resolves with status and headers too, and with
+     * `notModified` instead of a body for 304 responses
+     * @template T The expected type of the response body
+     */
+    send<T>(
+        endpoint?: string,
+        options?: ApiRequestOptions
+    ): Promise<ApiClientResponse<T>>
+    /** Build the absolute URL for an endpoint */
+    buildUrl(endpoint?: string): string
+}
+
+// --- Helpers ---
+
+/**
+ * Join a base URL and an endpoint without doubling or dropping slashes
+ * @param {string} baseUrl - Base URL (with or without trailing slash)
+ * @param {string} endpoint - Endpoint (with or without leading slash)
+ * @returns {string} Joined URL
+ */
+const joinUrl = (baseUrl: string, endpoint: string): string => {
+    if (!endpoint) return baseUrl
+    if (/^https?:\/\//i.test(endpoint)) return endpoint // Already absolute
+    return `${baseUrl.replace(/\/+$/, "")}/${endpoint.replace(/^\/+/, "")}`
+}
+
+/**
+ * Append query parameters to a URL that may already have some
+ * @param {string} url - URL
+ * @param {Record<string, string>} [query] - Parameters to append
+ * @returns {string} URL with the parameters
+ */
+const appendQuery = (url: string, query?: Record<string, string>): string => {
+    const search = new URLSearchParams(query).toString()
+    if (!search) return url
+    return `${url}${url.includes("?") ? "&" : "?"}${search}`
+}
+
+/**
+ * Read client configuration from Vite environment variables.
+ * Supported: VITE_API_BASE_URL, VITE_API_TIMEOUT_MS, VITE_API_CREDENTIALS
+ * @returns {ApiClientConfig} Configuration for the current environment
+ */
+export const getApiClientConfigFromEnv = (): ApiClientConfig => {
+    const env = import.meta.env
+    // An empty value is unset; only an explicit "0" disables the timeout
+    const rawTimeout = env.VITE_API_TIMEOUT_MS?.trim()
+    const timeout = rawTimeout ? Number(rawTimeout) : NaN
+    return {
+        baseUrl: env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL,
+        timeoutMs:
+            Number.isFinite(timeout) && timeout >= 0 ? timeout : undefined,
+        credentials:
+            (env.VITE_API_CREDENTIALS as RequestCredentials) || undefined,
+    }
+}
+
+// --- Factory ---
+
+/**
+ * Create an API client bound to a base URL and request defaults.
+ * Create one per environment (staging, production, local stand-in server)
+ * and provide it through ApiClientProvider.
+ * @param {ApiClientConfig} config - Client configuration
+ * @returns {ApiClient} API client
+ */
+export function createApiClient(config: ApiClientConfig): ApiClient {
+    const resolved: ResolvedApiClientConfig = {
+        baseUrl: config.baseUrl,
+        defaultHeaders: {
+            Accept: "application/json",
+            "Content-Type": "application/json",
+            ...config.defaultHeaders,
+        },
+        getAuthToken: config.getAuthToken,
+        timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        credentials: config.credentials ?? "omit", // Adjust as needed based on CORS setup
+        retry: { ...DEFAULT_RETRY_POLICY, ...config.retry },
+    }
+
+    const buildUrl = (endpoint: string = ""): string =>
+        joinUrl(resolved.baseUrl, endpoint)
+
+    /** Turn a response into parsed JSON, throwing on HTTP or parse failures */
+    async function parseResponse<T>(
+        endpoint: string,
+        response: Response
+    ): Promise<ApiClientResponse<T>> {
+        const meta = { status: response.status, headers: response.headers }
+        if (response.status === 304) {
+            return { ...meta, data: null, notModified: true }
+        }
+        if (!response.ok) {
+            // Attempt to get error details from response body if possible
+            let errorBody = null
+            try {
+                errorBody = await response.json()
+            } catch {
+                // Ignore if body isn't JSON
+            }
+            throw new HttpError(
+                response.status,
+                response.statusText,
+                errorBody,
+                { endpoint }
+            )
+        }
+
+        // Handle potential empty responses
+        const responseText = await response.text()
+        if (!responseText || responseText.trim() === "") {
+            throw new EmptyResponseError({ endpoint })
+        }
+
+        try {
+            const data = JSON.parse(responseText) as T // Assume the caller knows the expected type T
+            return { ...meta, data, notModified: false }
+        } catch (parseError) {
+            throw new ParseError(responseText, { endpoint, cause: parseError })
+        }
+    }
+
+    /**
+     * Single attempt with its own timeout, linked to the caller's signal.
+     * Both stay armed until the body is read, so a stalled body times out
+     * and can be cancelled too.
+     */
+    async function attemptRequest<T>(
+        endpoint: string,
+        url: string,
+        init: RequestInit,
+        timeoutMs: number,
+        signal?: AbortSignal | null
+    ): Promise<ApiClientResponse<T>> {
+        // An already-aborted signal never fires "abort"
+        if (signal?.aborted) throw createAbortError()
+        const controller = new AbortController()
+        const onAbort = () => controller.abort()
+        signal?.addEventListener("abort", onAbort, { once: true })
+        let timedOut = false
+        const timeoutId =
+            timeoutMs > 0
+                ? setTimeout(() => {
+                      timedOut = true
+                      controller.abort()
+                  }, timeoutMs)
+                : null
+
+        try {
+            const response = await fetch(url, { ...init, signal: controller.signal })
+            return await parseResponse<T>(endpoint, response)
+        } catch (error) {
+            if (signal?.aborted) throw createAbortError() // Cancelled by caller
+            if (timedOut) throw new TimeoutError(timeoutMs, { endpoint })
+            if (error instanceof ApiError) throw error // HTTP or parse failure
+            // Only network failures are left (offline, DNS, CORS, dropped body)
+            throw new NetworkError({ endpoint, cause: error })
+        } finally {
+            if (timeoutId) clearTimeout(timeoutId)
+            signal?.removeEventListener("abort", onAbort)
+        }
+    }
+
+    async function send<T>(
+        endpoint: string = "",
+        options: ApiRequestOptions = {}
+    ): Promise<ApiClientResponse<T>> {
+        const {
+            timeoutMs = resolved.timeoutMs,
+            retry,
+            idempotent,
+            query,
+            signal,
+            ...init
+        } = options
+
+        const headers: Record<string, string> = { ...resolved.defaultHeaders }
+        if (resolved.getAuthToken) {
+            const token = await resolved.getAuthToken()
+            if (token) headers.Authorization = `Bearer ${token}`
+        }
+        new Headers(init.headers).forEach((value, key) => {
+            headers[key] = value
+        })
+
+        const method = (init.method || "GET").toUpperCase()
+        const canRetry =
+            retry !== false &&
+            (idempotent || method === "GET" || method === "HEAD")
+        const policy: RetryPolicy = { ...resolved.retry, ...(retry || {}) }
+        const maxRetries = canRetry ? policy.retries : 0
+
+        const url = appendQuery(buildUrl(endpoint), query)
+        const requestInit: RequestInit = {
+            credentials: resolved.credentials,
+            cache: "no-store", // Freshness is the caller's call (see utils/vehicleDataCache)
+            ...init,
+            method,
+            headers,
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await attemptRequest<T>(
+                    endpoint,
+                    url,
+                    requestInit,
+                    timeoutMs,
+                    signal
+                )
+            } catch (error) {
+                if (
+                    !(error instanceof ApiError) ||
+                    !error.retryable ||
+                    attempt >= maxRetries
+                ) {
+                    throw error
+                }
+                const wait = computeBackoffDelay(attempt, policy)
+                console.warn(
+                    `API request to ${endpoint} failed (${error.message}); retry ${attempt + 1}/${maxRetries} in ${wait}ms`
+                )
+                await delay(wait, signal ?? undefined)
+            }
+        }
+    }
+
+    async function request<T>(
+        endpoint: string = "",
+        options: ApiRequestOptions = {}
+    ): Promise<T> {
+        const { data } = await send<T>(endpoint, options)
+        return data as T // Only null for 304, which requires a conditional header
+    }
+
+    return { config: resolved, request, send, buildUrl }
+}
+
+/**
+ * Client for the environment the app was built for.
+ * Used when no ApiClientProvider is mounted.
+ */
+export const defaultApiClient: ApiClient = createApiClient(
+    getApiClientConfigFromEnv()
+)
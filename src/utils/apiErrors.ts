@@ -0,0 +1,256 @@
+// src/utils/apiErrors.ts
+
+/**
+ * Machine-readable codes carried by every ApiError
+ */
+export type ApiErrorCode =
+    | "NETWORK_ERROR"
+    | "TIMEOUT"
+    | "HTTP_ERROR"
+    | "EMPTY_RESPONSE"
+    | "PARSE_ERROR"
+    | "SCHEMA_MISMATCH"
+    | "BUSINESS_ERROR"
+    | "VALIDATION_ERROR"
+
+interface ApiErrorOptions {
+    /** Endpoint the failing request was sent to */
+    endpoint?: string
+    /** Underlying error, if any */
+    cause?: unknown
+}
+
+// --- Error Classes ---
+
+/**
+ * Base class for every error raised by the API layer.
+ * Callers should branch on `code` / `instanceof`, never on `message`.
+ */
+export class ApiError extends Error {
+    readonly code: ApiErrorCode
+    readonly endpoint?: string
+    readonly cause?: unknown
+
+    constructor(
+        code: ApiErrorCode,
+        message: string,
+        options: ApiErrorOptions = {}
+    ) {
+        super(message)
+        this.name = "ApiError"
+        this.code = code
+        this.endpoint = options.endpoint
+        this.cause = options.cause
+    }
+
+    /** Whether repeating the same request may succeed */
+    get retryable(): boolean {
+        return false
+    }
+}
+
+/** fetch rejected: offline, DNS failure, CORS, connection reset */
+export class NetworkError extends ApiError {
+    constructor(options: ApiErrorOptions = {}) {
+        super(
+            "NETWORK_ERROR",
+            `Network request failed: ${options.cause ?? "unknown"}`,
+            options
+        )
+        this.name = "NetworkError"
+    }
+
+    get retryable(): boolean {
+        return true
+    }
+}
+
+/** The request did not complete within its timeout */
+export class TimeoutError extends ApiError {
+    readonly timeoutMs: number
+
+    constructor(timeoutMs: number, options: ApiErrorOptions = {}) {
+        super("TIMEOUT", `API request timed out after ${timeoutMs}ms`, options)
+        this.name = "TimeoutError"
+        this.timeoutMs = timeoutMs
+    }
+
+    get retryable(): boolean {
+        return true
+    }
+}
+
+/** The server answered with a non-2xx status */
+export class HttpError extends ApiError {
+    readonly status: number
+    readonly statusText: string
+    /** Parsed JSON error body, or null when the body wasn't JSON */
+    readonly body: unknown
+
+    constructor(
+        status: number,
+        statusText: string,
+        body: unknown,
+        options: ApiErrorOptions = {}
+    ) {
+        super(
+            "HTTP_ERROR",
+            `API request failed: ${status} ${statusText}`,
+            options
+        )
+        this.name = "HttpError"
+        this.status = status
+        this.statusText = statusText
+        this.body = body
+    }
+
+    get retryable(): boolean {
+        return this.status >= 500 || this.status === 408 || this.status === 429
+    }
+}
+
+/** The server answered 2xx with an empty body */
+export class EmptyResponseError extends ApiError {
+    constructor(options: ApiErrorOptions = {}) {
+        super("EMPTY_RESPONSE", "Empty response received from API", options)
+        this.name = "EmptyResponseError"
+    }
+}
+
+/** The response body was not valid JSON */
+export class ParseError extends ApiError {
+    readonly responseText: string
+
+    constructor(responseText: string, options: ApiErrorOptions = {}) {
+        super(
+            "PARSE_ERROR",
+            `Failed to parse API response: ${options.cause}`,
+            options
+        )
+        this.name = "ParseError"
+        this.responseText = responseText
+    }
+}
+
+/** The JSON did not have the shape the app expects */
+export class SchemaMismatchError extends ApiError {
+    /** Human-readable descriptions of what was wrong */
+    readonly issues: string[]
+
+    constructor(
+        message: string,
+        issues: string[] = [],
+        options: ApiErrorOptions = {}
+    ) {
+        super("SCHEMA_MISMATCH", message, options)
+        this.name = "SchemaMismatchError"
+        this.issues = issues
+    }
+}
+
+/** The API answered `status: "error"` */
+export class BusinessError extends ApiError {
+    /** Message supplied by the server, if any */
+    readonly serverMessage?: string
+
+    constructor(serverMessage?: string, options: ApiErrorOptions = {}) {
+        super(
+            "BUSINESS_ERROR",
+            `API returned an error: ${serverMessage || "N/A"}`,
+            options
+        )
+        this.name = "BusinessError"
+        this.serverMessage = serverMessage
+    }
+}
+
+/** The server rejected submitted fields; `fieldErrors` uses the client's field names */
+export class ValidationError<F extends string = string> extends ApiError {
+    /** Message per field, keyed by the client-side field name */
+    readonly fieldErrors: Partial<Record<F, string>>
+    /** Messages that couldn't be tied to a field */
+    readonly formErrors: string[]
+
+    constructor(
+        fieldErrors: Partial<Record<F, string>>,
+        formErrors: string[] = [],
+        options: ApiErrorOptions = {}
+    ) {
+        super(
+            "VALIDATION_ERROR",
+            `API rejected the submitted data: ${[
+                ...Object.keys(fieldErrors),
+                ...formErrors,
+            ].join(", ") || "N/A"}`,
+            options
+        )
+        this.name = "ValidationError"
+        this.fieldErrors = fieldErrors
+        this.formErrors = formErrors
+    }
+}
+
+// --- Helpers ---
+
+/**
+ * Type guard for ApiError
+ * @param {unknown} error - Value to check
+ * @returns {boolean} Whether the value is an ApiError
+ */
+export const isApiError = (error: unknown): error is ApiError =>
+    error instanceof ApiError
+
+/**
+ * Whether an error is worth retrying (automatically or via a retry button)
+ * @param {unknown} error - Error to check
+ * @returns {boolean} Whether a retry may succeed
+ */
+export const isRetryableError = (error: unknown): boolean =>
+    isApiError(error) ? error.retryable : true // Unknown failures: let the user try again
+
+/**
+ * Message suitable for showing to a customer
+ * @param {unknown} error - Error to describe
+ * @returns {string} Friendly message
+ */
+export const getFriendlyErrorMessage = (error: unknown): string => {
+    if (!isApiError(error)) {
+        return "Something went wrong. Please try again."
+    }
+
+    switch (error.code) {
+        case "NETWORK_ERROR":
+            return "We couldn't reach our servers. Check your internet connection and try again."
+        case "TIMEOUT":
+            return "The server is taking too long to respond. Please try again."
+        case "HTTP_ERROR": {
+            const status = (error as HttpError).status
+            if (status === 401 || status === 403) {
+                return "You don't have access to this information. Please sign in again."
+            }
+            if (status === 404)
+                return "We couldn't find what you were looking for."
+            if (status === 429)
+                return "Too many requests. Please wait a moment and try again."
+            if (status >= 500)
+                return "Our servers are having trouble. Please try again shortly."
+            return "Your request couldn't be completed."
+        }
+        case "BUSINESS_ERROR":
+            return (
+                (error as BusinessError).serverMessage ||
+                "Your request couldn't be completed."
+            )
+        case "VALIDATION_ERROR":
+            return (
+                (error as ValidationError).formErrors[0] ||
+                "Please check the highlighted details and try again."
+            )
+        case "EMPTY_RESPONSE":
+        case "PARSE_ERROR":
+        case "SCHEMA_MISMATCH":
+            return "We received unexpected data from the server. Please try again later."
+        default:
+            return "Something went wrong. Please try again."
+    }
+}
@@ -0,0 +1,266 @@
+// src/utils/bookingQueue.ts
+import type {
+    SubmitBookingOptions,
+    SubmitBookingPayload,
+    SubmitBookingResponse,
+} from "./api"
+import { getFriendlyErrorMessage, isRetryableError } from "./apiErrors"
+import { isConnectivityError, isOnline } from "./connectivity"
+import { createIdempotencyKey } from "./idempotency"
+import { readJson, writeJson } from "./storage"
+
+/**
+ * Booking submissions made without a connection, persisted until they
+ * can be sent.
+ *
+ * Each entry keeps the idempotency key it was first tried with, so a
+ * submission that timed out after reaching the server is recognised
+ * when replayed rather than booked twice. Replays run oldest first and
+ * stop at the first connectivity or other retryable failure (5xx, 429);
+ * a submission the server rejects is kept as "failed" for the customer
+ * to review or discard.
+ */
+
+// --- Interfaces ---
+
+export type QueuedBookingStatus = "pending" | "failed"
+
+export interface QueuedBooking {
+    /** Same as the idempotency key */
+    id: string
+    idempotencyKey: string
+    payload: SubmitBookingPayload
+    status: QueuedBookingStatus
+    /** Epoch ms the submission was queued */
+    queuedAt: number
+    /** Replay attempts so far */
+    attempts: number
+    /** Customer-facing reason for the last failed attempt */
+    lastError?: string
+}
+
+/** Sends one submission; `submitBooking` bound to a client fits */
+export type BookingSubmitter = (
+    payload: SubmitBookingPayload,
+    options: SubmitBookingOptions
+) => Promise<SubmitBookingResponse>
+
+export type BookingSubmission =
+    | { queued: false; response: SubmitBookingResponse }
+    | { queued: true; booking: QueuedBooking }
+
+export interface BookingReplayResult {
+    /** Submissions the server accepted, now removed from the queue */
+    submitted: Array<{ booking: QueuedBooking; response: SubmitBookingResponse }>
+    /** Submissions the server rejected during this replay */
+    failed: QueuedBooking[]
+    /** Submissions still waiting for a connection */
+    pending: number
+}
+
+export const BOOKING_QUEUE_KEY = "booking-queue"
+
+// --- State ---
+
+let queueCache: QueuedBooking[] | null = null
+let replaying: Promise<BookingReplayResult> | null = null
+const listeners = new Set<() => void>()
+
+const notify = () => listeners.forEach((listener) => listener())
+
+const isQueuedBooking = (value: unknown): value is QueuedBooking => {
+    const entry = value as QueuedBooking
+    return (
+        !!entry &&
+        typeof entry.id === "string" &&
+        typeof entry.idempotencyKey === "string" &&
+        !!entry.payload &&
+        (entry.status === "pending" || entry.status === "failed")
+    )
+}
+
+const saveQueue = (list: QueuedBooking[]) => {
+    queueCache = list
+    writeJson(BOOKING_QUEUE_KEY, list)
+    notify()
+}
+
+const updateBooking = (id: string, patch: Partial<QueuedBooking>) => {
+    saveQueue(
+        getQueuedBookings().map((item) =>
+            item.id === id ? { ...item, ...patch } : item
+        )
+    )
+}
+
+// --- Queue Access ---
+
+/**
+ * Queued submissions, oldest first. The array is stable until the queue
+ * changes, so it can back useSyncExternalStore.
+ * @returns {QueuedBooking[]} Pending and failed submissions
+ */
+export function getQueuedBookings(): QueuedBooking[] {
+    if (!queueCache) {
+        const stored = readJson<unknown>(BOOKING_QUEUE_KEY, [])
+        queueCache = Array.isArray(stored) ? stored.filter(isQueuedBooking) : []
+    }
+    return queueCache
+}
+
+/**
+ * Listen for queue changes (including replays starting and finishing)
+ * @param {() => void} listener - Called on every change
+ * @returns {() => void} Unsubscribe function
+ */
+export function subscribeBookingQueue(listener: () => void): () => void {
+    listeners.add(listener)
+    return () => {
+        listeners.delete(listener)
+    }
+}
+
+/**
+ * Whether a replay is running
+ * @returns {boolean} True while queued submissions are being sent
+ */
+export const isBookingQueueSyncing = (): boolean => replaying !== null
+
+/**
+ * Queue a submission to send once connectivity returns
+ * @param {SubmitBookingPayload} payload - Booking form data
+ * @param {string} [idempotencyKey] - Key already used for this submission, if any
+ * @param {number} [now=Date.now()] - Current time
+ * @returns {QueuedBooking} The queued entry
+ */
+export function enqueueBooking(
+    payload: SubmitBookingPayload,
+    idempotencyKey: string = createIdempotencyKey(),
+    now: number = Date.now()
+): QueuedBooking {
+    const booking: QueuedBooking = {
+        id: idempotencyKey,
+        idempotencyKey,
+        payload,
+        status: "pending",
+        queuedAt: now,
+        attempts: 0,
+    }
+    saveQueue([
+        ...getQueuedBookings().filter((item) => item.id !== booking.id),
+        booking,
+    ])
+    return booking
+}
+
+/**
+ * Remove a queued submission (e.g. a failed one the customer dismissed)
+ * @param {string} id - Entry id
+ */
+export function discardQueuedBooking(id: string): void {
+    saveQueue(getQueuedBookings().filter((item) => item.id !== id))
+}
+
+// --- Submission ---
+
+/**
+ * Submit a booking now, or queue it when there's no connection.
+ * A submission that fails for lack of connectivity is queued with the
+ * same idempotency key, in case it did reach the server.
+ * @param {SubmitBookingPayload} payload - Booking form data
+ * @param {BookingSubmitter} submit - Sends the submission
+ * @param {string} [idempotencyKey] - Key for this submission (generated when omitted)
+ * @returns {Promise<BookingSubmission>} The response, or the queued entry
+ */
+export async function submitOrQueueBooking(
+    payload: SubmitBookingPayload,
+    submit: BookingSubmitter,
+    idempotencyKey: string = createIdempotencyKey()
+): Promise<BookingSubmission> {
+    if (!isOnline()) {
+        return { queued: true, booking: enqueueBooking(payload, idempotencyKey) }
+    }
+    try {
+        return {
+            queued: false,
+            response: await submit(payload, { idempotencyKey }),
+        }
+    } catch (error) {
+        if (!isConnectivityError(error)) throw error
+        return { queued: true, booking: enqueueBooking(payload, idempotencyKey) }
+    }
+}
+
+/**
+ * Send pending submissions, oldest first. Concurrent calls share one replay.
+ * @param {BookingSubmitter} submit - Sends each submission
+ * @returns {Promise<BookingReplayResult>} What was sent, rejected and left
+ */
+export function replayBookingQueue(
+    submit: BookingSubmitter
+): Promise<BookingReplayResult> {
+    if (replaying) return replaying
+
+    const run = async (): Promise<BookingReplayResult> => {
+        const result: BookingReplayResult = {
+            submitted: [],
+            failed: [],
+            pending: 0,
+        }
+        const pending = getQueuedBookings().filter(
+            (item) => item.status === "pending"
+        )
+
+        for (const booking of pending) {
+            const attempts = booking.attempts + 1
+            try {
+                const response = await submit(booking.payload, {
+                    idempotencyKey: booking.idempotencyKey,
+                })
+                if (response.status === "success") {
+                    discardQueuedBooking(booking.id)
+                    result.submitted.push({ booking, response })
+                } else {
+                    const failed: QueuedBooking = {
+                        ...booking,
+                        status: "failed",
+                        attempts,
+                        lastError:
+                            response.message ||
+                            "Your booking couldn't be completed.",
+                    }
+                    updateBooking(booking.id, failed)
+                    result.failed.push(failed)
+                }
+            } catch (error) {
+                const lastError = getFriendlyErrorMessage(error)
+                if (isConnectivityError(error) || isRetryableError(error)) {
+                    // Connection lost again, or a transient 5xx/429; keep this
+                    // and the rest for later
+                    updateBooking(booking.id, { attempts, lastError })
+                    break
+                }
+                const failed: QueuedBooking = {
+                    ...booking,
+                    status: "failed",
+                    attempts,
+                    lastError,
+                }
+                updateBooking(booking.id, failed)
+                result.failed.push(failed)
+            }
+        }
+
+        result.pending = getQueuedBookings().filter(
+            (item) => item.status === "pending"
+        ).length
+        return result
+    }
+
+    replaying = run().finally(() => {
+        replaying = null
+        notify()
+    })
+    notify()
+    return replaying
+}
@@ -0,0 +1,372 @@
+// src/utils/catalogue.ts
+import type {
+    ApiColor,
+    ApiComponent,
+    ApiFinanceOption,
+    ApiFinanceProvider,
+    ApiIncentive,
+    ApiInsurancePlan,
+    ApiInsuranceProvider,
+    ApiModel,
+    ApiPricing,
+    ApiVariant,
+    VehicleData,
+} from "./api"
+import { PincodeIndex, buildPincodeIndex } from "./pincodeIndex"
+
+/**
+ * Normalized, indexed view of a VehicleData payload.
+ * Built once per payload (see getCatalogue) so selectors are map lookups
+ * instead of linear scans with String(id) comparisons.
+ */
+
+// --- Interfaces ---
+
+type Id = number | string
+
+/** A distinct serviceable city/state pair from the pricing rows */
+export interface CataloguePlace {
+    city?: string
+    state?: string
+    /** First pricing row seen for this place */
+    pricing: ApiPricing
+}
+
+export interface Catalogue {
+    /** The payload this catalogue was built from */
+    readonly data: VehicleData
+    readonly modelsById: ReadonlyMap<string, ApiModel>
+    readonly modelsByCode: ReadonlyMap<string, ApiModel>
+    readonly variantsById: ReadonlyMap<string, ApiVariant>
+    readonly colorsById: ReadonlyMap<string, ApiColor>
+    readonly componentsById: ReadonlyMap<string, ApiComponent>
+    readonly pricingById: ReadonlyMap<string, ApiPricing>
+    readonly variantsByModel: ReadonlyMap<string, ReadonlyArray<ApiVariant>>
+    readonly colorsByModel: ReadonlyMap<string, ReadonlyArray<ApiColor>>
+    readonly componentsByModel: ReadonlyMap<string, ReadonlyArray<ApiComponent>>
+    readonly pricingByModel: ReadonlyMap<string, ReadonlyArray<ApiPricing>>
+    readonly financeProvidersById: ReadonlyMap<string, ApiFinanceProvider>
+    /** Model-specific finance options */
+    readonly financeOptionsByModel: ReadonlyMap<
+        string,
+        ReadonlyArray<ApiFinanceOption>
+    >
+    /** Finance options without a model_id, offered on every model */
+    readonly generalFinanceOptions: ReadonlyArray<ApiFinanceOption>
+    readonly insuranceProvidersById: ReadonlyMap<string, ApiInsuranceProvider>
+    /** Model-specific insurance plans */
+    readonly insurancePlansByModel: ReadonlyMap<
+        string,
+        ReadonlyArray<ApiInsurancePlan>
+    >
+    /** Insurance plans without a model_id, offered on every model */
+    readonly generalInsurancePlans: ReadonlyArray<ApiInsurancePlan>
+    /** Model-specific incentives */
+    readonly incentivesByModel: ReadonlyMap<string, ReadonlyArray<ApiIncentive>>
+    /** Incentives without a model_id, applying to every model */
+    readonly generalIncentives: ReadonlyArray<ApiIncentive>
+    /**
+     * Pincode interval index over the distinct serviceable ranges.
+     * Rows repeating a range for another model are collapsed into the first.
+     */
+    readonly pincodeIndex: PincodeIndex<ApiPricing>
+    /** Distinct city/state pairs, in first-seen order */
+    readonly places: ReadonlyArray<CataloguePlace>
+}
+
+// --- Helpers ---
+
+/** Shared empty result; frozen so no caller can add to it */
+const EMPTY: readonly never[] = Object.freeze([])
+
+/**
+ * Normalize an id so numeric and string ids compare equal
+ * @param {Id} id - Raw id
+ * @returns {string} Map key
+ */
+export const toKey = (id: Id): string => String(id).trim()
+
+const indexById = <T extends { id: Id }>(
+    rows: ReadonlyArray<T>
+): Map<string, T> => {
+    const map = new Map<string, T>()
+    rows.forEach((row) => map.set(toKey(row.id), row))
+    return map
+}
+
+const groupByModel = <T extends { model_id: Id }>(
+    rows: T[]
+): Map<string, T[]> => {
+    const map = new Map<string, T[]>()
+    rows.forEach((row) => {
+        const key = toKey(row.model_id)
+        const group = map.get(key)
+        if (group) {
+            group.push(row)
+        } else {
+            map.set(key, [row])
+        }
+    })
+    return map
+}
+
+/** Split rows with an optional model_id into per-model groups and the rest */
+const splitByModel = <T extends { model_id?: Id }>(
+    rows: ReadonlyArray<T>
+): { byModel: Map<string, T[]>; general: T[] } => {
+    const modelRows: Array<T & { model_id: Id }> = []
+    const general: T[] = []
+    rows.forEach((row) => {
+        if (row.model_id === undefined) {
+            general.push(row)
+        } else {
+            modelRows.push(row as T & { model_id: Id })
+        }
+    })
+    return { byModel: groupByModel<T & { model_id: Id }>(modelRows), general }
+}
+
+const buildLocationPincodeIndex = (
+    pricing: ApiPricing[]
+): PincodeIndex<ApiPricing> => {
+    const seenRanges = new Set<string>()
+    const ranges = pricing.flatMap((row) => {
+        if (row.pincode_start === undefined || row.pincode_end === undefined) {
+            return []
+        }
+        const rangeKey = `${row.pincode_start}-${row.pincode_end}`
+        if (seenRanges.has(rangeKey)) return []
+        seenRanges.add(rangeKey)
+        return [{ start: row.pincode_start, end: row.pincode_end, value: row }]
+    })
+    return buildPincodeIndex(ranges)
+}
+
+const collectPlaces = (pricing: ApiPricing[]): CataloguePlace[] => {
+    const places = new Map<string, CataloguePlace>()
+    pricing.forEach((row) => {
+        if (!row.city && !row.state) return
+        const key = `${row.city || ""}|${row.state || ""}`.toLowerCase()
+        if (!places.has(key)) {
+            places.set(key, { city: row.city, state: row.state, pricing: row })
+        }
+    })
+    return Array.from(places.values())
+}
+
+// --- Construction ---
+
+/**
+ * Build indexes for a payload. Prefer getCatalogue, which memoizes per payload.
+ * @param {VehicleData} data - Vehicle data
+ * @returns {Catalogue} Indexed catalogue
+ */
+export function buildCatalogue(data: VehicleData): Catalogue {
+    const modelsByCode = new Map<string, ApiModel>()
+    data.models.forEach((model) => {
+        if (model.model_code) {
+            modelsByCode.set(model.model_code.trim().toUpperCase(), model)
+        }
+    })
+
+    const financeOptions = splitByModel(data.finance_options ?? EMPTY)
+    const insurancePlans = splitByModel(data.insurance_plans ?? EMPTY)
+    const incentives = splitByModel(data.incentives ?? EMPTY)
+
+    return {
+        data,
+        modelsById: indexById(data.models),
+        modelsByCode,
+        variantsById: indexById(data.variants),
+        colorsById: indexById(data.colors),
+        componentsById: indexById(data.components),
+        pricingById: indexById(data.pricing),
+        variantsByModel: groupByModel(data.variants),
+        colorsByModel: groupByModel(data.colors),
+        componentsByModel: groupByModel(data.components),
+        pricingByModel: groupByModel(data.pricing),
+        financeProvidersById: indexById(data.finance_providers ?? EMPTY),
+        financeOptionsByModel: financeOptions.byModel,
+        generalFinanceOptions: financeOptions.general,
+        insuranceProvidersById: indexById(data.insurance_providers ?? EMPTY),
+        insurancePlansByModel: insurancePlans.byModel,
+        generalInsurancePlans: insurancePlans.general,
+        incentivesByModel: incentives.byModel,
+        generalIncentives: incentives.general,
+        pincodeIndex: buildLocationPincodeIndex(data.pricing),
+        places: collectPlaces(data.pricing),
+    }
+}
+
+const catalogueCache = new WeakMap<VehicleData, Catalogue>()
+
+/**
+ * Get the catalogue for a payload, building it on first use.
+ * Every hook passing the same payload shares one catalogue.
+ * @param {VehicleData} data - Vehicle data
+ * @returns {Catalogue} Indexed catalogue
+ */
+export function getCatalogue(data: VehicleData): Catalogue {
+    let catalogue = catalogueCache.get(data)
+    if (!catalogue) {
+        catalogue = buildCatalogue(data)
+        catalogueCache.set(data, catalogue)
+    }
+    return catalogue
+}
+
+// --- Selectors ---
+
+export const selectModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiModel | undefined => catalogue.modelsById.get(toKey(modelId))
+
+/** Case-insensitive lookup by model_code */
+export const selectModelByCode = (
+    catalogue: Catalogue,
+    modelCode: string
+): ApiModel | undefined =>
+    catalogue.modelsByCode.get(modelCode.trim().toUpperCase())
+
+export const selectVariant = (
+    catalogue: Catalogue,
+    variantId: Id
+): ApiVariant | undefined => catalogue.variantsById.get(toKey(variantId))
+
+export const selectColor = (
+    catalogue: Catalogue,
+    colorId: Id
+): ApiColor | undefined => catalogue.colorsById.get(toKey(colorId))
+
+export const selectComponent = (
+    catalogue: Catalogue,
+    componentId: Id
+): ApiComponent | undefined => catalogue.componentsById.get(toKey(componentId))
+
+export const selectVariantsForModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ReadonlyArray<ApiVariant> =>
+    catalogue.variantsByModel.get(toKey(modelId)) ?? EMPTY
+
+export const selectColorsForModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ReadonlyArray<ApiColor> =>
+    catalogue.colorsByModel.get(toKey(modelId)) ?? EMPTY
+
+export const selectComponentsForModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ReadonlyArray<ApiComponent> =>
+    catalogue.componentsByModel.get(toKey(modelId)) ?? EMPTY
+
+export const selectPricingForModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ReadonlyArray<ApiPricing> =>
+    catalogue.pricingByModel.get(toKey(modelId)) ?? EMPTY
+
+/** The variant flagged is_default, else the first variant */
+export const selectDefaultVariant = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiVariant | undefined => {
+    const variants = selectVariantsForModel(catalogue, modelId)
+    return variants.find((v) => v.is_default) ?? variants[0]
+}
+
+/** The color flagged is_default, else the first color */
+export const selectDefaultColor = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiColor | undefined => {
+    const colors = selectColorsForModel(catalogue, modelId)
+    return colors.find((c) => c.is_default) ?? colors[0]
+}
+
+/** Components that must always be included for a model */
+export const selectRequiredComponents = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiComponent[] =>
+    selectComponentsForModel(catalogue, modelId).filter((c) => c.is_required)
+
+/** Base price from the first pricing row for a model (location-agnostic) */
+export const selectBasePrice = (catalogue: Catalogue, modelId: Id): number =>
+    selectPricingForModel(catalogue, modelId)[0]?.base_price || 0
+
+export const selectFinanceProvider = (
+    catalogue: Catalogue,
+    providerId: Id
+): ApiFinanceProvider | undefined =>
+    catalogue.financeProvidersById.get(toKey(providerId))
+
+/**
+ * Active finance options for a model: its own schemes, then the general
+ * ones. Options from unknown or inactive providers are left out.
+ */
+export const selectFinanceOptionsForModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiFinanceOption[] =>
+    [
+        ...(catalogue.financeOptionsByModel.get(toKey(modelId)) ?? EMPTY),
+        ...catalogue.generalFinanceOptions,
+    ].filter((option) => {
+        if (option.is_active === false) return false
+        const provider = selectFinanceProvider(catalogue, option.provider_id)
+        return !!provider && provider.is_active !== false
+    })
+
+export const selectInsuranceProvider = (
+    catalogue: Catalogue,
+    providerId: Id
+): ApiInsuranceProvider | undefined =>
+    catalogue.insuranceProvidersById.get(toKey(providerId))
+
+/**
+ * Active insurance plans for a model: its own plans, then the general
+ * ones. Plans from unknown or inactive providers are left out.
+ */
+export const selectInsurancePlansForModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiInsurancePlan[] =>
+    [
+        ...(catalogue.insurancePlansByModel.get(toKey(modelId)) ?? EMPTY),
+        ...catalogue.generalInsurancePlans,
+    ].filter((plan) => {
+        if (plan.is_active === false) return false
+        const provider = selectInsuranceProvider(catalogue, plan.provider_id)
+        return !!provider && provider.is_active !== false
+    })
+
+/** An active plan offered on a model */
+export const selectInsurancePlan = (
+    catalogue: Catalogue,
+    modelId: Id,
+    planId: Id
+): ApiInsurancePlan | undefined =>
+    selectInsurancePlansForModel(catalogue, modelId).find(
+        (plan) => toKey(plan.id) === toKey(planId)
+    )
+
+/** The plan flagged is_default, else the first plan */
+export const selectDefaultInsurancePlan = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiInsurancePlan | undefined => {
+    const plans = selectInsurancePlansForModel(catalogue, modelId)
+    return plans.find((p) => p.is_default) ?? plans[0]
+}
+
+/** Incentives that can apply to a model, before state and eligibility checks */
+export const selectIncentivesForModel = (
+    catalogue: Catalogue,
+    modelId: Id
+): ApiIncentive[] => [
+    ...(catalogue.incentivesByModel.get(toKey(modelId)) ?? EMPTY),
+    ...catalogue.generalIncentives,
+]
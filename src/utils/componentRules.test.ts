@@ -0,0 +1,123 @@
+// src/utils/componentRules.test.ts
+import { describe, expect, it } from "vitest"
+import type { ApiComponent } from "./api"
+import {
+    buildComponentRules,
+    explainComponentChange,
+    resolveComponentSelection,
+    toggleComponent,
+} from "./componentRules"
+
+const component = (
+    id: number,
+    title: string,
+    rules: Partial<ApiComponent> = {}
+): ApiComponent => ({ id, model_id: 1, title, price: 1000, ...rules })
+
+const rules = buildComponentRules([
+    component(1, "Helmet", { is_required: true }),
+    component(2, "Crash guard"),
+    component(3, "Saddle bags", { requires: [4] }),
+    component(4, "Luggage rack"),
+    component(5, "Touring Pack", { includes: [2, 4] }),
+    component(6, "Warranty 2y", { exclusive_group: "warranty" }),
+    component(7, "Warranty 4y", { exclusive_group: "WARRANTY" }),
+    component(8, "Sport seat", { excludes: [4] }),
+    component(9, "Open face", { excludes: [1] }),
+])
+
+describe("toggleComponent", () => {
+    const initial = resolveComponentSelection(rules).selected
+
+    it("adds a component's requirements with it", () => {
+        const result = toggleComponent(rules, initial, 3)
+
+        expect(result.selected).toEqual([1, 3, 4])
+        expect(result.changes.map(explainComponentChange)).toEqual([
+            "Luggage rack was added because Saddle bags needs it.",
+        ])
+    })
+
+    it("cascades removal to components that needed a removed one", () => {
+        const withBags = toggleComponent(rules, initial, 3).selected
+
+        // The seat excludes the rack, and the bags need the rack
+        const result = toggleComponent(rules, withBags, 8)
+
+        expect(result.selected).toEqual([1, 8])
+        expect(result.changes).toMatchObject([
+            { componentId: 4, action: "removed", reason: "excludes", causeId: 8 },
+            { componentId: 3, action: "removed", reason: "requires", causeId: 4 },
+        ])
+    })
+
+    it("removes a package's contents with it unless still needed", () => {
+        const withBags = toggleComponent(rules, initial, 3).selected
+        const withPack = toggleComponent(rules, withBags, 5).selected
+        expect(withPack).toEqual([1, 3, 4, 5, 2])
+
+        const result = toggleComponent(rules, withPack, 5)
+
+        // The rack stays for the bags; the crash guard goes with the pack
+        expect(result.selected).toEqual([1, 3, 4])
+        expect(result.changes).toMatchObject([
+            { componentId: 2, action: "removed", reason: "bundle", causeId: 5 },
+        ])
+    })
+
+    it("keeps required contents when their package is removed", () => {
+        const safety = buildComponentRules([
+            component(1, "Helmet", { is_required: true }),
+            component(2, "Guard"),
+            component(3, "Safety Pack", { includes: [1, 2] }),
+        ])
+        const withPack = toggleComponent(
+            safety,
+            resolveComponentSelection(safety).selected,
+            3
+        ).selected
+        expect(withPack).toEqual([1, 3, 2])
+
+        const result = toggleComponent(safety, withPack, 3)
+
+        expect(result.blocked).toBeUndefined()
+        expect(result.selected).toEqual([1])
+        expect(result.changes).toMatchObject([
+            { componentId: 2, action: "removed", reason: "bundle", causeId: 3 },
+        ])
+    })
+
+    it("removes a package when one of its contents is excluded", () => {
+        const withPack = toggleComponent(rules, initial, 5).selected
+
+        const result = toggleComponent(rules, withPack, 8)
+
+        expect(result.selected).toEqual([1, 8])
+        expect(result.changes.map((change) => change.componentId)).toEqual([4, 5, 2])
+    })
+
+    it("keeps only one component of an exclusive group", () => {
+        const withWarranty = toggleComponent(rules, initial, 6).selected
+
+        const result = toggleComponent(rules, withWarranty, 7)
+
+        expect(result.selected).toEqual([1, 7])
+        expect(result.changes).toMatchObject([
+            { componentId: 6, action: "removed", reason: "exclusive_group" },
+        ])
+    })
+
+    it("refuses toggles that would remove required or bundled components", () => {
+        const withPack = toggleComponent(rules, initial, 5).selected
+
+        expect(toggleComponent(rules, initial, 1)).toEqual({
+            selected: initial,
+            changes: [],
+            blocked: "Helmet is always included.",
+        })
+        expect(toggleComponent(rules, initial, 9).blocked).toMatch(/always included/)
+        expect(toggleComponent(rules, withPack, 2).blocked).toBe(
+            "Crash guard is included in Touring Pack. Remove Touring Pack to remove it."
+        )
+    })
+})
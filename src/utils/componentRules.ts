@@ -0,0 +1,393 @@
+// src/utils/componentRules.ts
+import type { ApiComponent } from "./api"
+import { toKey } from "./catalogue"
+
+/**
+ * Dependency and exclusivity rules between a model's components.
+ *
+ * A component can require others, exclude others (exclusion works both
+ * ways), bundle others as a package, and belong to an exclusive group of
+ * which only one can be selected (e.g. extended warranties). Toggling a
+ * component resolves the whole selection: requirements and bundle contents
+ * are added, conflicting components are removed, and anything that needed
+ * a removed component goes with it. Each automatic change is reported so
+ * the customer can be told what happened and why. Required components
+ * (is_required) are never removed; a toggle that would need that is refused.
+ */
+
+// --- Interfaces ---
+
+type Id = number | string
+
+export type ComponentChangeReason =
+    | "required" // Always included
+    | "requires" // Needed by, or needed, another component
+    | "excludes" // Can't be combined with another component
+    | "exclusive_group" // Only one of its group can be selected
+    | "bundle" // Part of a package
+
+export interface ComponentChange {
+    componentId: Id
+    title: string
+    action: "added" | "removed"
+    reason: ComponentChangeReason
+    /** Component that caused the change, if any */
+    causeId?: Id
+    causeTitle?: string
+}
+
+export interface ComponentSelectionResult {
+    /** Resolved selection, in the order components were added */
+    selected: Id[]
+    /** Automatic changes, in the order they were made */
+    changes: ComponentChange[]
+    /** Why the toggle was refused; the selection is then unchanged */
+    blocked?: string
+}
+
+export interface ComponentRules {
+    readonly componentsByKey: ReadonlyMap<string, ApiComponent>
+    readonly requires: ReadonlyMap<string, string[]>
+    /** Symmetric: A excludes B implies B excludes A */
+    readonly excludes: ReadonlyMap<string, ReadonlySet<string>>
+    readonly includes: ReadonlyMap<string, string[]>
+    readonly groups: ReadonlyMap<string, string[]>
+    readonly required: ReadonlySet<string>
+}
+
+// --- Construction ---
+
+/**
+ * Index the rules of a model's components. References to components that
+ * aren't in the list are ignored.
+ * @param {ApiComponent[]} components - Components of one model
+ * @returns {ComponentRules} Indexed rules
+ */
+export function buildComponentRules(
+    components: ReadonlyArray<ApiComponent>
+): ComponentRules {
+    const componentsByKey = new Map(components.map((c) => [toKey(c.id), c]))
+    const known = (ids: Id[] | undefined, self: string): string[] =>
+        (ids || [])
+            .map(toKey)
+            .filter((key) => key !== self && componentsByKey.has(key))
+
+    const requires = new Map<string, string[]>()
+    const includes = new Map<string, string[]>()
+    const excludes = new Map<string, Set<string>>()
+    const groups = new Map<string, string[]>()
+    const required = new Set<string>()
+
+    const addExclusion = (a: string, b: string) => {
+        if (!excludes.has(a)) excludes.set(a, new Set())
+        excludes.get(a)!.add(b)
+    }
+
+    componentsByKey.forEach((component, key) => {
+        requires.set(key, known(component.requires, key))
+        includes.set(key, known(component.includes, key))
+        known(component.excludes, key).forEach((other) => {
+            addExclusion(key, other)
+            addExclusion(other, key)
+        })
+        const group = component.exclusive_group?.trim().toUpperCase()
+        if (group) groups.set(group, [...(groups.get(group) || []), key])
+        if (component.is_required) required.add(key)
+    })
+
+    return { componentsByKey, requires, excludes, includes, groups, required }
+}
+
+// --- Helpers ---
+
+const titleOf = (rules: ComponentRules, key: string): string =>
+    rules.componentsByKey.get(key)?.title || key
+
+/** Components that can't be selected together with `key` */
+const conflictsOf = (
+    rules: ComponentRules,
+    key: string
+): Array<{ key: string; reason: ComponentChangeReason }> => {
+    const conflicts: Array<{ key: string; reason: ComponentChangeReason }> = Array.from(
+        rules.excludes.get(key) || []
+    ).map((other) => ({ key: other, reason: "excludes" }))
+    const group = rules.componentsByKey.get(key)?.exclusive_group?.trim().toUpperCase()
+    if (group) {
+        rules.groups.get(group)?.forEach((other) => {
+            if (other !== key && !conflicts.some((c) => c.key === other)) {
+                conflicts.push({ key: other, reason: "exclusive_group" })
+            }
+        })
+    }
+    return conflicts
+}
+
+/** Selected packages that include `key` */
+const bundlesIncluding = (
+    rules: ComponentRules,
+    selected: string[],
+    key: string
+): string[] =>
+    selected.filter((other) => rules.includes.get(other)?.includes(key))
+
+const makeChange = (
+    rules: ComponentRules,
+    key: string,
+    action: ComponentChange["action"],
+    reason: ComponentChangeReason,
+    causeKey?: string
+): ComponentChange => ({
+    componentId: rules.componentsByKey.get(key)?.id ?? key,
+    title: titleOf(rules, key),
+    action,
+    reason,
+    causeId:
+        causeKey !== undefined
+            ? (rules.componentsByKey.get(causeKey)?.id ?? causeKey)
+            : undefined,
+    causeTitle: causeKey !== undefined ? titleOf(rules, causeKey) : undefined,
+})
+
+const toIds = (rules: ComponentRules, keys: string[]): Id[] =>
+    keys.map((key) => rules.componentsByKey.get(key)?.id ?? key)
+
+type Removal = { key: string; reason?: ComponentChangeReason; cause?: string }
+
+/**
+ * Remove components and everything that depended on them
+ * @returns {object} Remaining keys and changes, or the reason it's impossible
+ */
+const removeWithDependents = (
+    rules: ComponentRules,
+    selected: string[],
+    initial: Removal[]
+): { selected: string[]; changes: ComponentChange[]; blocked?: string } => {
+    const removed = new Set<string>()
+    const changes: ComponentChange[] = []
+    const queue = [...initial]
+    const isKept = (key: string) => selected.includes(key) && !removed.has(key)
+
+    while (queue.length > 0) {
+        const { key, reason, cause } = queue.shift()!
+        if (!isKept(key)) continue
+        if (rules.required.has(key)) {
+            return {
+                selected,
+                changes: [],
+                blocked:
+                    cause !== undefined
+                        ? `${titleOf(rules, cause)} can't be selected because it conflicts with ${titleOf(rules, key)}, which is always included.`
+                        : `${titleOf(rules, key)} is always included.`,
+            }
+        }
+        removed.add(key)
+        if (reason) changes.push(makeChange(rules, key, "removed", reason, cause))
+
+        selected.forEach((other) => {
+            if (!isKept(other)) return
+            // Anything that needed it goes too
+            if (rules.requires.get(other)?.includes(key)) {
+                queue.push({ key: other, reason: "requires", cause: key })
+            }
+            // A package is broken without one of its contents
+            if (rules.includes.get(other)?.includes(key)) {
+                queue.push({ key: other, reason: "bundle", cause: key })
+            }
+        })
+        // Contents of a removed package go with it unless still needed;
+        // required ones stay on their own account
+        rules.includes.get(key)?.forEach((content) => {
+            if (rules.required.has(content)) return
+            const stillNeeded = selected.some(
+                (other) =>
+                    isKept(other) &&
+                    (rules.includes.get(other)?.includes(content) ||
+                        rules.requires.get(other)?.includes(content))
+            )
+            if (!stillNeeded) {
+                queue.push({ key: content, reason: "bundle", cause: key })
+            }
+        })
+    }
+
+    return { selected: selected.filter((key) => !removed.has(key)), changes }
+}
+
+/**
+ * Add a component with its requirements and package contents, removing
+ * whatever conflicts with them
+ */
+const addWithDependencies = (
+    rules: ComponentRules,
+    selected: string[],
+    key: string
+): { selected: string[]; changes: ComponentChange[]; blocked?: string } => {
+    // Everything that comes with it, in the order it was reached
+    const additions: Array<{ key: string; reason?: ComponentChangeReason; cause?: string }> = []
+    const queue: typeof additions = [{ key }]
+    while (queue.length > 0) {
+        const next = queue.shift()!
+        if (selected.includes(next.key) || additions.some((a) => a.key === next.key)) {
+            continue
+        }
+        additions.push(next)
+        rules.requires.get(next.key)?.forEach((other) =>
+            queue.push({ key: other, reason: "requires", cause: next.key })
+        )
+        rules.includes.get(next.key)?.forEach((other) =>
+            queue.push({ key: other, reason: "bundle", cause: next.key })
+        )
+    }
+
+    const addedKeys = additions.map((a) => a.key)
+    const removals: Removal[] = []
+    for (const addition of additions) {
+        for (const conflict of conflictsOf(rules, addition.key)) {
+            if (addedKeys.includes(conflict.key)) {
+                return {
+                    selected,
+                    changes: [],
+                    blocked: `${titleOf(rules, key)} can't be selected: ${titleOf(rules, addition.key)} and ${titleOf(rules, conflict.key)} can't be combined.`,
+                }
+            }
+            if (selected.includes(conflict.key)) {
+                removals.push({ key: conflict.key, reason: conflict.reason, cause: addition.key })
+            }
+        }
+    }
+
+    const afterRemoval = removeWithDependents(rules, selected, removals)
+    if (afterRemoval.blocked) return afterRemoval
+
+    return {
+        selected: [...afterRemoval.selected, ...addedKeys],
+        changes: [
+            ...additions
+                .filter((a) => a.reason)
+                .map((a) => makeChange(rules, a.key, "added", a.reason!, a.cause)),
+            ...afterRemoval.changes,
+        ],
+    }
+}
+
+// --- Public API ---
+
+/**
+ * Select or deselect a component and resolve the rest of the selection
+ * @param {ComponentRules} rules - Indexed rules (see buildComponentRules)
+ * @param {Id[]} selected - Current, resolved selection
+ * @param {Id} componentId - Component the customer toggled
+ * @param {boolean} [select] - Force selecting or deselecting; toggles by default
+ * @returns {ComponentSelectionResult} New selection and the automatic changes
+ */
+export function toggleComponent(
+    rules: ComponentRules,
+    selected: Id[],
+    componentId: Id,
+    select?: boolean
+): ComponentSelectionResult {
+    const current = selected.map(toKey).filter((key) => rules.componentsByKey.has(key))
+    const key = toKey(componentId)
+    const unchanged = (blocked?: string): ComponentSelectionResult => ({
+        selected,
+        changes: [],
+        blocked,
+    })
+    if (!rules.componentsByKey.has(key)) return unchanged()
+
+    const isSelected = current.includes(key)
+    const shouldSelect = select ?? !isSelected
+    if (shouldSelect === isSelected) return unchanged()
+
+    if (!shouldSelect) {
+        const bundles = bundlesIncluding(rules, current, key)
+        if (bundles.length > 0) {
+            return unchanged(
+                `${titleOf(rules, key)} is included in ${titleOf(rules, bundles[0])}. Remove ${titleOf(rules, bundles[0])} to remove it.`
+            )
+        }
+    }
+
+    const result = shouldSelect
+        ? addWithDependencies(rules, current, key)
+        : removeWithDependents(rules, current, [{ key }])
+    if (result.blocked) return unchanged(result.blocked)
+    return { selected: toIds(rules, result.selected), changes: result.changes }
+}
+
+/**
+ * Resolve an arbitrary selection (e.g. restored from a draft): required
+ * components first, then each id in order as if the customer selected it.
+ * Ids that can't be selected are dropped.
+ * @param {ComponentRules} rules - Indexed rules
+ * @param {Id[]} [ids=[]] - Selection to resolve
+ * @returns {ComponentSelectionResult} Resolved selection and the automatic changes
+ */
+export function resolveComponentSelection(
+    rules: ComponentRules,
+    ids: Id[] = []
+): ComponentSelectionResult {
+    let selected: Id[] = []
+    const changes: ComponentChange[] = []
+    const apply = (id: Id, change?: (key: string) => ComponentChange) => {
+        const result = toggleComponent(rules, selected, id, true)
+        if (result.blocked || result.selected === selected) return
+        selected = result.selected
+        if (change) changes.push(change(toKey(id)))
+        changes.push(...result.changes)
+    }
+    rules.required.forEach((key) =>
+        apply(key, () => makeChange(rules, key, "added", "required"))
+    )
+    ids.forEach((id) => apply(id))
+    return { selected, changes }
+}
+
+/**
+ * Why a component can't be toggled by the customer right now
+ * @param {ComponentRules} rules - Indexed rules
+ * @param {Id[]} selected - Current selection
+ * @param {Id} componentId - Component to check
+ * @returns {string | null} E.g. "Included with Touring Pack", or null when it can be toggled
+ */
+export function getComponentLockReason(
+    rules: ComponentRules,
+    selected: Id[],
+    componentId: Id
+): string | null {
+    const key = toKey(componentId)
+    if (rules.required.has(key)) return "Always included"
+    const bundles = bundlesIncluding(rules, selected.map(toKey), key)
+    return bundles.length > 0 ? `Included with ${titleOf(rules, bundles[0])}` : null
+}
+
+/**
+ * Sentence explaining an automatic change to the customer
+ * @param {ComponentChange} change - Change made while resolving a selection
+ * @returns {string} Explanation
+ */
+export function explainComponentChange(change: ComponentChange): string {
+    const cause = change.causeTitle
+    if (change.action === "added") {
+        switch (change.reason) {
+            case "required":
+                return `${change.title} is always included.`
+            case "bundle":
+                return `${change.title} was added as part of ${cause}.`
+            default:
+                return `${change.title} was added because ${cause} needs it.`
+        }
+    }
+    switch (change.reason) {
+        case "excludes":
+            return `${change.title} was removed because it can't be combined with ${cause}.`
+        case "exclusive_group":
+            return `${change.title} was removed because only one can be selected and you chose ${cause}.`
+        case "bundle":
+            return cause && change.causeId !== undefined
+                ? `${change.title} was removed along with ${cause}.`
+                : `${change.title} was removed.`
+        default:
+            return `${change.title} was removed because it needs ${cause}.`
+    }
+}
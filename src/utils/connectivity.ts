@@ -0,0 +1,40 @@
+// src/utils/connectivity.ts
+import { isApiError } from "./apiErrors"
+
+/**
+ * Browser connectivity as reported by `navigator.onLine` and the
+ * online/offline events. "Online" only means a network is attached, so
+ * callers should still expect requests to fail.
+ */
+
+/**
+ * Whether the browser reports a network connection
+ * @returns {boolean} False only when the browser is known to be offline
+ */
+export const isOnline = (): boolean =>
+    typeof navigator === "undefined" || navigator.onLine !== false
+
+/**
+ * Listen for connectivity changes
+ * @param {() => void} listener - Called on every online/offline event
+ * @returns {() => void} Unsubscribe function
+ */
+export function subscribeConnectivity(listener: () => void): () => void {
+    if (typeof window === "undefined") return () => {}
+    window.addEventListener("online", listener)
+    window.addEventListener("offline", listener)
+    return () => {
+        window.removeEventListener("online", listener)
+        window.removeEventListener("offline", listener)
+    }
+}
+
+/**
+ * Whether an error means the request may not have reached the server
+ * (no connection or no answer in time), as opposed to being rejected
+ * @param {unknown} error - Error to check
+ * @returns {boolean} True for network errors and timeouts
+ */
+export const isConnectivityError = (error: unknown): boolean =>
+    isApiError(error) &&
+    (error.code === "NETWORK_ERROR" || error.code === "TIMEOUT")
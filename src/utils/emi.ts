@@ -0,0 +1,214 @@
+// src/utils/emi.ts
+import type { ApiFinanceOption, ApiFinanceProvider } from "./api"
+import {
+    Catalogue,
+    selectFinanceOptionsForModel,
+    selectFinanceProvider,
+} from "./catalogue"
+
+/**
+ * EMI plans for financing a vehicle.
+ *
+ * Instalments use the reducing-balance formula on the loan left after the
+ * down payment. A subvention lowers the rate the customer pays (the
+ * manufacturer covers the difference), and the processing fee is a flat
+ * amount plus a percentage of the loan, paid upfront. Amounts are in
+ * rupees; the EMI is rounded to the nearest rupee.
+ */
+
+// --- Interfaces ---
+
+type Id = number | string
+
+export interface EmiPlanRequest {
+    /** Price being financed, usually the quote total */
+    vehiclePrice: number
+    /** Down payment in rupees; raised to the option's minimum if lower */
+    downPayment: number
+    /** Loan tenure; clamped to the option's tenure range */
+    tenureMonths: number
+}
+
+export interface EmiPlan {
+    optionId: Id
+    providerId: Id
+    providerName: string
+    title: string
+    vehiclePrice: number
+    downPayment: number
+    loanAmount: number
+    tenureMonths: number
+    /** Advertised annual rate, in percent */
+    interestRate: number
+    /** Annual rate the customer pays after subvention, in percent */
+    effectiveRate: number
+    /** Monthly instalment */
+    emi: number
+    totalInterest: number
+    processingFee: number
+    /** Interest the customer doesn't pay thanks to the subvention */
+    subventionSaving: number
+    /** Down payment, every instalment and the processing fee */
+    totalPayable: number
+}
+
+export const DEFAULT_TENURE_OPTIONS = [12, 18, 24, 36, 48, 60]
+export const DEFAULT_MIN_TENURE_MONTHS = 6
+export const DEFAULT_MAX_TENURE_MONTHS = 60
+
+// --- Formula ---
+
+/**
+ * Monthly instalment on a reducing-balance loan
+ * @param {number} principal - Loan amount
+ * @param {number} annualRatePercent - Annual interest rate in percent
+ * @param {number} tenureMonths - Number of monthly instalments
+ * @returns {number} Unrounded instalment; 0 for an empty loan or tenure
+ */
+export function calculateEmi(
+    principal: number,
+    annualRatePercent: number,
+    tenureMonths: number
+): number {
+    if (!(principal > 0) || !(tenureMonths > 0)) return 0
+    const monthlyRate = Math.max(0, annualRatePercent) / 12 / 100
+    if (monthlyRate === 0) return principal / tenureMonths
+    const growth = Math.pow(1 + monthlyRate, tenureMonths)
+    return (principal * monthlyRate * growth) / (growth - 1)
+}
+
+// --- Option Limits ---
+
+/**
+ * Smallest down payment an option accepts for a price
+ * @param {ApiFinanceOption} option - Finance option
+ * @param {number} vehiclePrice - Price being financed
+ * @returns {number} Minimum down payment in rupees
+ */
+export const getMinDownPayment = (
+    option: ApiFinanceOption,
+    vehiclePrice: number
+): number =>
+    Math.ceil(
+        (Math.max(0, vehiclePrice) * (option.min_down_payment_percent || 0)) /
+            100
+    )
+
+/**
+ * Tenure range an option allows
+ * @param {ApiFinanceOption} option - Finance option
+ * @returns {{ min: number; max: number }} Range in months
+ */
+export const getTenureRange = (
+    option: ApiFinanceOption
+): { min: number; max: number } => {
+    const min = option.min_tenure_months || DEFAULT_MIN_TENURE_MONTHS
+    const max = Math.max(min, option.max_tenure_months || DEFAULT_MAX_TENURE_MONTHS)
+    return { min, max }
+}
+
+/**
+ * Standard tenures that fall within one or more options' ranges
+ * @param {ApiFinanceOption[]} options - Finance options
+ * @param {number[]} [tenures=DEFAULT_TENURE_OPTIONS] - Candidate tenures
+ * @returns {number[]} Tenures at least one option allows, ascending
+ */
+export const getTenureOptions = (
+    options: ApiFinanceOption[],
+    tenures: number[] = DEFAULT_TENURE_OPTIONS
+): number[] =>
+    [...tenures]
+        .sort((a, b) => a - b)
+        .filter((tenure) =>
+            options.some((option) => {
+                const { min, max } = getTenureRange(option)
+                return tenure >= min && tenure <= max
+            })
+        )
+
+// --- Plans ---
+
+/**
+ * Work out the plan an option gives for a price, down payment and tenure
+ * @param {ApiFinanceOption} option - Finance option
+ * @param {ApiFinanceProvider | undefined} provider - The option's provider
+ * @param {EmiPlanRequest} request - Price, down payment and tenure
+ * @returns {EmiPlan} Plan, with the down payment and tenure adjusted to the option's limits
+ */
+export function buildEmiPlan(
+    option: ApiFinanceOption,
+    provider: ApiFinanceProvider | undefined,
+    request: EmiPlanRequest
+): EmiPlan {
+    const vehiclePrice = Math.max(0, request.vehiclePrice || 0)
+    const downPayment = Math.min(
+        vehiclePrice,
+        Math.max(request.downPayment || 0, getMinDownPayment(option, vehiclePrice))
+    )
+    const { min, max } = getTenureRange(option)
+    const tenureMonths = Math.min(
+        max,
+        Math.max(min, Math.round(request.tenureMonths || 0))
+    )
+    const loanAmount = vehiclePrice - downPayment
+
+    const interestRate = Math.max(0, option.interest_rate)
+    const effectiveRate = Math.max(0, interestRate - (option.subvention_rate || 0))
+    const emi = Math.round(calculateEmi(loanAmount, effectiveRate, tenureMonths))
+    const totalInterest = Math.max(0, emi * tenureMonths - loanAmount)
+    const undiscountedInterest = Math.max(
+        0,
+        Math.round(calculateEmi(loanAmount, interestRate, tenureMonths)) *
+            tenureMonths -
+            loanAmount
+    )
+
+    const processingFee =
+        loanAmount > 0
+            ? Math.round(
+                  (option.processing_fee || 0) +
+                      (loanAmount * (option.processing_fee_percent || 0)) / 100
+              )
+            : 0
+
+    return {
+        optionId: option.id,
+        providerId: option.provider_id,
+        providerName: provider?.name || "",
+        title: option.title,
+        vehiclePrice,
+        downPayment,
+        loanAmount,
+        tenureMonths,
+        interestRate,
+        effectiveRate,
+        emi,
+        totalInterest,
+        processingFee,
+        subventionSaving: undiscountedInterest - totalInterest,
+        totalPayable: downPayment + emi * tenureMonths + processingFee,
+    }
+}
+
+/**
+ * Plans from every active finance option for a model, cheapest overall first
+ * @param {Catalogue} catalogue - Indexed catalogue
+ * @param {Id} modelId - Model being financed
+ * @param {EmiPlanRequest} request - Price, down payment and tenure
+ * @returns {EmiPlan[]} Plans sorted by total payable, then by EMI
+ */
+export function buildEmiPlans(
+    catalogue: Catalogue,
+    modelId: Id,
+    request: EmiPlanRequest
+): EmiPlan[] {
+    return selectFinanceOptionsForModel(catalogue, modelId)
+        .map((option) =>
+            buildEmiPlan(
+                option,
+                selectFinanceProvider(catalogue, option.provider_id),
+                request
+            )
+        )
+        .sort((a, b) => a.totalPayable - b.totalPayable || a.emi - b.emi)
+}
@@ -0,0 +1,66 @@
+// src/utils/formDraft.ts
+import { readJson, removeItem, writeJson } from "./storage"
+
+/**
+ * Unsent form values persisted locally, so a reload or a dropped
+ * connection doesn't lose what the customer typed. Drafts expire so a
+ * shared dealership tablet doesn't offer last week's customer details.
+ */
+
+export interface FormDraft<T> {
+    values: T
+    /** Epoch ms of the last save */
+    savedAt: number
+}
+
+export const BOOKING_DRAFT_KEY = "booking-draft"
+export const DEFAULT_DRAFT_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Load a draft that hasn't expired
+ * @param {string} key - Storage key
+ * @param {number} [maxAgeMs=DEFAULT_DRAFT_MAX_AGE_MS] - Discard drafts older than this
+ * @param {number} [now=Date.now()] - Current time
+ * @returns {FormDraft<T> | null} Draft, or null if missing or expired
+ * @template T The form values type
+ */
+export function loadFormDraft<T>(
+    key: string,
+    maxAgeMs: number = DEFAULT_DRAFT_MAX_AGE_MS,
+    now: number = Date.now()
+): FormDraft<T> | null {
+    const draft = readJson<FormDraft<T> | null>(key, null)
+    if (
+        !draft ||
+        typeof draft.savedAt !== "number" ||
+        !draft.values ||
+        typeof draft.values !== "object"
+    ) {
+        return null
+    }
+    if (now - draft.savedAt > maxAgeMs) {
+        removeItem(key)
+        return null
+    }
+    return draft
+}
+
+/**
+ * Save a draft
+ * @param {string} key - Storage key
+ * @param {T} values - Form values (JSON-serializable)
+ * @param {number} [now=Date.now()] - Current time
+ * @returns {boolean} Whether the draft was stored
+ * @template T The form values type
+ */
+export const saveFormDraft = <T>(
+    key: string,
+    values: T,
+    now: number = Date.now()
+): boolean => writeJson(key, { values, savedAt: now } satisfies FormDraft<T>)
+
+/**
+ * Remove a draft (after a successful submit or an explicit reset)
+ * @param {string} key - Storage key
+ */
+export const clearFormDraft = (key: string): void => removeItem(key)
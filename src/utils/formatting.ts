@@ -1,4 +1,11 @@
 // src/utils/formatting.ts
+import type { LocationFeature } from "./api"
+import {
+    DEFAULT_COUNTRY,
+    SelectedLocation,
+    isSelectedLocation,
+    parseLocationFeature,
+} from "./location"
 
 /**
  * Format price for display
@@ -102,79 +109,57 @@ export const formatDate = (
 }
 
 /**
- * Helper Function to Format Location String (copied from useLocationSearch hook)
- * @param {any} feature - Location feature object (Mapbox-like structure assumed)
- * @returns {string} Formatted location string
+ * Local calendar date in ISO form, comparable with ISO date strings
+ * @param {Date} date - Date to convert
+ * @returns {string} Date as YYYY-MM-DD
  */
-export const formatLocationString = (feature: any): string => {
-    if (!feature) return ""
-
-    let pincode = ""
-    let city = ""
-    let state = ""
-    const country = "India"
-
-    // Attempt to parse context if it exists
-    if (feature.context && Array.isArray(feature.context)) {
-        feature.context.forEach((item: { id: string; text: string }) => {
-            if (!item || typeof item.id !== "string") return
-            const type = item.id.split(".")[0]
-            switch (type) {
-                case "postcode":
-                    pincode = item.text
-                    break
-                case "locality": // Often used for neighborhoods, fallback for city
-                    if (!city) city = item.text
-                    break
-                case "place": // Often used for city
-                    city = item.text
-                    break
-                case "region": // Often used for state/province
-                    state = item.text
-                    break
-                default:
-                    break
-            }
-        })
-    }
-
-    // If city wasn't found in context, check the main feature's text/place_type
-    if (!city && feature.place_type?.includes("place") && feature.text) {
-        city = feature.text
-    }
+export const toIsoDateString = (date: Date): string =>
+    [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, "0"),
+        String(date.getDate()).padStart(2, "0"),
+    ].join("-")
 
-    // Check if the main feature text itself is the pincode if not found in context
-    if (!pincode && feature.text && /^\d{6}$/.test(feature.text)) {
-        pincode = feature.text
-    }
+/**
+ * Format a location for display. Pure: the result is for showing to the
+ * customer, never for parsing back (carry a SelectedLocation instead).
+ * @param {SelectedLocation | LocationFeature | null} location - Selected location or Mapbox-like feature
+ * @returns {string} Formatted location string, e.g. "560001, Bengaluru, Karnataka, India"
+ */
+export const formatLocationString = (
+    location: SelectedLocation | LocationFeature | null | undefined
+): string => {
+    if (!location) return ""
+
+    const { pincode, city, state } = isSelectedLocation(location)
+        ? location
+        : parseLocationFeature(location)
+    const country = isSelectedLocation(location)
+        ? location.country
+        : DEFAULT_COUNTRY
+    const placeName = isSelectedLocation(location)
+        ? location.placeName
+        : location.place_name
 
     // Build the string from parts found
     const parts = [pincode, city, state].filter(Boolean) // Filter out empty strings
-    let formatted = parts.join(", ")
-
-    // Ensure pincode from main text is prioritized if context didn't provide one and parts are empty
-    if (pincode && !parts.includes(pincode)) {
-        // If pincode was found in feature.text but not context
-        formatted = `${pincode}${parts.length > 0 ? ", " + parts.join(", ") : ""}`
-    }
+    let formatted: string
 
     // Add country if we have some parts, otherwise use place_name or just country
-    if (formatted) {
-        formatted += `, ${country}`
-    } else if (feature.place_name) {
-        // Fallback to place_name if formatting failed
-        formatted = feature.place_name.toLowerCase().includes("india")
-            ? feature.place_name
-            : `${feature.place_name}, ${country}`
+    if (parts.length > 0) {
+        formatted = `${parts.join(", ")}, ${country}`
+    } else if (placeName) {
+        // Fallback to place_name if there are no parts
+        formatted = placeName.toLowerCase().includes(country.toLowerCase())
+            ? placeName
+            : `${placeName}, ${country}`
     } else {
         formatted = country // Absolute fallback
     }
 
     // Simple cleanup for potential formatting artifacts
-    formatted = formatted
+    return formatted
         .replace(/, ,/g, ",") // Remove double commas
         .replace(/^, |, $/g, "") // Remove leading/trailing commas and spaces
         .trim()
-
-    return formatted
 }
\ No newline at end of file
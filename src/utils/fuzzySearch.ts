@@ -0,0 +1,197 @@
+// src/utils/fuzzySearch.ts
+
+/**
+ * Ranked, typo-tolerant text matching for place names.
+ *
+ * Tiers, best first: exact, prefix, word prefix, substring, fuzzy (edit
+ * distance). Names are compared after stripping diacritics, punctuation
+ * and extra whitespace, so "Navi-Mumbai", "navi mumbai" and "Návi Mumbai"
+ * are the same string. Renamed cities are matched through an alias table.
+ */
+
+// --- Alias Table ---
+
+/**
+ * Groups of names that refer to the same Indian city or state.
+ * The first entry is the current official name.
+ */
+export const DEFAULT_PLACE_ALIASES: string[][] = [
+    ["Bengaluru", "Bangalore"],
+    ["Mumbai", "Bombay"],
+    ["Chennai", "Madras"],
+    ["Kolkata", "Calcutta"],
+    ["Gurugram", "Gurgaon"],
+    ["Pune", "Poona"],
+    ["Mysuru", "Mysore"],
+    ["Mangaluru", "Mangalore"],
+    ["Belagavi", "Belgaum"],
+    ["Hubballi", "Hubli"],
+    ["Kalaburagi", "Gulbarga"],
+    ["Thiruvananthapuram", "Trivandrum"],
+    ["Kochi", "Cochin"],
+    ["Kozhikode", "Calicut"],
+    ["Vadodara", "Baroda"],
+    ["Varanasi", "Benares", "Banaras"],
+    ["Prayagraj", "Allahabad"],
+    ["Puducherry", "Pondicherry"],
+    ["Visakhapatnam", "Vizag", "Vishakhapatnam"],
+    ["Shimla", "Simla"],
+    ["Kanpur", "Cawnpore"],
+    ["Odisha", "Orissa"],
+    ["Uttarakhand", "Uttaranchal"],
+    ["Delhi", "New Delhi", "NCT of Delhi"],
+]
+
+// --- Normalisation ---
+
+/**
+ * Normalise text for comparison: strip diacritics, lowercase, turn
+ * punctuation into spaces and collapse whitespace
+ * @param {string} text - Raw text
+ * @returns {string} Normalised text
+ */
+export const normalizeSearchText = (text: string): string =>
+    text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "") // Combining diacritical marks
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim()
+
+const compact = (normalized: string): string => normalized.replace(/ /g, "")
+
+/**
+ * Build a lookup from normalised name to every equivalent normalised name
+ * @param {string[][]} groups - Alias groups
+ * @returns {Map<string, string[]>} Name to equivalents (excluding itself)
+ */
+export const buildAliasLookup = (groups: string[][]): Map<string, string[]> => {
+    const lookup = new Map<string, string[]>()
+    groups.forEach((group) => {
+        const names = group.map(normalizeSearchText)
+        names.forEach((name) => {
+            const others = names.filter((other) => other !== name)
+            lookup.set(name, [...(lookup.get(name) || []), ...others])
+        })
+    })
+    return lookup
+}
+
+// --- Edit Distance ---
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions), abandoning early once `max` is exceeded
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @param {number} max - Largest distance of interest
+ * @returns {number} Distance, or max + 1 if it is larger than max
+ */
+export const boundedEditDistance = (
+    a: string,
+    b: string,
+    max: number
+): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1
+    if (a === b) return 0
+
+    let prevPrev: number[] = []
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        let rowMin = i
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1
+            let value = Math.min(
+                prev[j] + 1, // Deletion
+                current[j - 1] + 1, // Insertion
+                prev[j - 1] + cost // Substitution
+            )
+            if (
+                i > 1 &&
+                j > 1 &&
+                a[i - 1] === b[j - 2] &&
+                a[i - 2] === b[j - 1]
+            ) {
+                value = Math.min(value, prevPrev[j - 2] + 1) // Transposition
+            }
+            current[j] = value
+            rowMin = Math.min(rowMin, value)
+        }
+        if (rowMin > max) return max + 1
+        prevPrev = prev
+        prev = current
+    }
+    return Math.min(prev[b.length], max + 1)
+}
+
+/**
+ * Typos tolerated for a query of a given length
+ * @param {number} length - Query length (normalised, without spaces)
+ * @returns {number} Allowed edits
+ */
+export const allowedEdits = (length: number): number =>
+    length < 4 ? 0 : length < 8 ? 1 : 2
+
+// --- Scoring ---
+
+export const MATCH_SCORES = {
+    exact: 100,
+    prefix: 80,
+    wordPrefix: 70,
+    substring: 50,
+    fuzzy: 40, // Minus 10 per edit
+    aliasPenalty: 5,
+} as const
+
+/**
+ * Score a normalised query against a normalised candidate, without aliases
+ * @param {string} query - Normalised query
+ * @param {string} candidate - Normalised candidate
+ * @returns {number} Score, or 0 for no match
+ */
+const scoreDirect = (query: string, candidate: string): number => {
+    const q = compact(query)
+    const c = compact(candidate)
+    if (!q || !c) return 0
+    if (c === q) return MATCH_SCORES.exact
+    if (c.startsWith(q)) return MATCH_SCORES.prefix
+    if (candidate.split(" ").some((word) => word.startsWith(query))) {
+        return MATCH_SCORES.wordPrefix
+    }
+    if (c.includes(q)) return MATCH_SCORES.substring
+
+    const max = allowedEdits(q.length)
+    if (max === 0) return 0
+    // Compare against the whole name and against a same-length prefix,
+    // so partially typed names ("bengalru") still match
+    const distance = Math.min(
+        boundedEditDistance(q, c, max),
+        boundedEditDistance(q, c.slice(0, q.length), max)
+    )
+    return distance <= max ? MATCH_SCORES.fuzzy - 10 * distance : 0
+}
+
+/**
+ * Score a query against a candidate name, also trying the candidate's aliases
+ * @param {string} query - Normalised query
+ * @param {string} candidate - Raw candidate name
+ * @param {Map<string, string[]>} aliases - Lookup from buildAliasLookup
+ * @returns {number} Score, or 0 for no match
+ */
+export const scorePlaceName = (
+    query: string,
+    candidate: string,
+    aliases: Map<string, string[]>
+): number => {
+    const normalized = normalizeSearchText(candidate)
+    let best = scoreDirect(query, normalized)
+    if (best === MATCH_SCORES.exact) return best
+    for (const alias of aliases.get(normalized) || []) {
+        const aliasScore = scoreDirect(query, alias)
+        if (aliasScore > 0) {
+            best = Math.max(best, aliasScore - MATCH_SCORES.aliasPenalty)
+        }
+    }
+    return best
+}
@@ -0,0 +1,208 @@
+// src/utils/geolocation.ts
+
+/**
+ * Browser geolocation and reverse geocoding.
+ *
+ * getBrowserPosition wraps navigator.geolocation in a promise with typed
+ * failures. ReverseGeocoder turns coordinates into a pincode; the bundled
+ * centroid provider works offline from a table of city centres.
+ */
+
+// --- Interfaces ---
+
+export interface Coordinates {
+    latitude: number
+    longitude: number
+    /** Accuracy radius in metres, when reported by the browser */
+    accuracy?: number
+}
+
+export type GeolocationErrorCode =
+    | "UNSUPPORTED"
+    | "PERMISSION_DENIED"
+    | "POSITION_UNAVAILABLE"
+    | "TIMEOUT"
+
+export class GeolocationError extends Error {
+    readonly code: GeolocationErrorCode
+
+    constructor(code: GeolocationErrorCode, message: string) {
+        super(message)
+        this.name = "GeolocationError"
+        this.code = code
+    }
+}
+
+export interface ReverseGeocodeResult {
+    pincode: string
+    city?: string
+    state?: string
+    /** Distance from the coordinates to the matched point, in km */
+    distanceKm?: number
+}
+
+/**
+ * Resolves coordinates to a pincode. Implementations may be offline
+ * tables or HTTP services; return null when nothing is close enough.
+ */
+export interface ReverseGeocoder {
+    reverse(
+        coordinates: Coordinates,
+        signal?: AbortSignal
+    ): Promise<ReverseGeocodeResult | null>
+}
+
+export interface PincodeCentroid {
+    pincode: string
+    city: string
+    state: string
+    latitude: number
+    longitude: number
+}
+
+// --- Browser Geolocation ---
+
+export const DEFAULT_POSITION_OPTIONS: PositionOptions = {
+    enableHighAccuracy: false, // City-level accuracy is enough for a pincode
+    timeout: 10000,
+    maximumAge: 5 * 60 * 1000,
+}
+
+/**
+ * Get the device position through navigator.geolocation
+ * @param {PositionOptions} [options] - Geolocation options
+ * @returns {Promise<Coordinates>} Coordinates
+ * @throws {GeolocationError} With a code for each failure mode
+ */
+export const getBrowserPosition = (
+    options: PositionOptions = DEFAULT_POSITION_OPTIONS
+): Promise<Coordinates> =>
+    new Promise((resolve, reject) => {
+        if (typeof navigator === "undefined" || !navigator.geolocation) {
+            reject(
+                new GeolocationError(
+                    "UNSUPPORTED",
+                    "Geolocation is not supported by this browser"
+                )
+            )
+            return
+        }
+
+        navigator.geolocation.getCurrentPosition(
+            (position) =>
+                resolve({
+                    latitude: position.coords.latitude,
+                    longitude: position.coords.longitude,
+                    accuracy: position.coords.accuracy,
+                }),
+            (error) => {
+                switch (error.code) {
+                    case error.PERMISSION_DENIED:
+                        reject(
+                            new GeolocationError("PERMISSION_DENIED", error.message)
+                        )
+                        break
+                    case error.TIMEOUT:
+                        reject(new GeolocationError("TIMEOUT", error.message))
+                        break
+                    default:
+                        reject(
+                            new GeolocationError(
+                                "POSITION_UNAVAILABLE",
+                                error.message
+                            )
+                        )
+                }
+            },
+            options
+        )
+    })
+
+// --- Offline Reverse Geocoder ---
+
+/**
+ * Great-circle distance between two points
+ * @returns {number} Distance in km
+ */
+export const haversineKm = (a: Coordinates, b: Coordinates): number => {
+    const toRad = (deg: number) => (deg * Math.PI) / 180
+    const dLat = toRad(b.latitude - a.latitude)
+    const dLon = toRad(b.longitude - a.longitude)
+    const h =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(a.latitude)) *
+            Math.cos(toRad(b.latitude)) *
+            Math.sin(dLon / 2) ** 2
+    return 6371 * 2 * Math.asin(Math.sqrt(h))
+}
+
+/**
+ * Head post office pincodes and city-centre coordinates for major cities
+ */
+export const DEFAULT_PINCODE_CENTROIDS: PincodeCentroid[] = [
+    { pincode: "110001", city: "Delhi", state: "Delhi", latitude: 28.6139, longitude: 77.209 },
+    { pincode: "122001", city: "Gurugram", state: "Haryana", latitude: 28.4595, longitude: 77.0266 },
+    { pincode: "201301", city: "Noida", state: "Uttar Pradesh", latitude: 28.5355, longitude: 77.391 },
+    { pincode: "400001", city: "Mumbai", state: "Maharashtra", latitude: 18.9388, longitude: 72.8354 },
+    { pincode: "411001", city: "Pune", state: "Maharashtra", latitude: 18.5204, longitude: 73.8567 },
+    { pincode: "440001", city: "Nagpur", state: "Maharashtra", latitude: 21.1458, longitude: 79.0882 },
+    { pincode: "560001", city: "Bengaluru", state: "Karnataka", latitude: 12.9716, longitude: 77.5946 },
+    { pincode: "570001", city: "Mysuru", state: "Karnataka", latitude: 12.2958, longitude: 76.6394 },
+    { pincode: "575001", city: "Mangaluru", state: "Karnataka", latitude: 12.9141, longitude: 74.856 },
+    { pincode: "580020", city: "Hubballi", state: "Karnataka", latitude: 15.3647, longitude: 75.124 },
+    { pincode: "590001", city: "Belagavi", state: "Karnataka", latitude: 15.8497, longitude: 74.4977 },
+    { pincode: "600001", city: "Chennai", state: "Tamil Nadu", latitude: 13.0827, longitude: 80.2707 },
+    { pincode: "641001", city: "Coimbatore", state: "Tamil Nadu", latitude: 11.0168, longitude: 76.9558 },
+    { pincode: "625001", city: "Madurai", state: "Tamil Nadu", latitude: 9.9252, longitude: 78.1198 },
+    { pincode: "500001", city: "Hyderabad", state: "Telangana", latitude: 17.385, longitude: 78.4867 },
+    { pincode: "520001", city: "Vijayawada", state: "Andhra Pradesh", latitude: 16.5062, longitude: 80.648 },
+    { pincode: "530001", city: "Visakhapatnam", state: "Andhra Pradesh", latitude: 17.6868, longitude: 83.2185 },
+    { pincode: "682001", city: "Kochi", state: "Kerala", latitude: 9.9312, longitude: 76.2673 },
+    { pincode: "695001", city: "Thiruvananthapuram", state: "Kerala", latitude: 8.5241, longitude: 76.9366 },
+    { pincode: "403001", city: "Panaji", state: "Goa", latitude: 15.4909, longitude: 73.8278 },
+    { pincode: "700001", city: "Kolkata", state: "West Bengal", latitude: 22.5726, longitude: 88.3639 },
+    { pincode: "751001", city: "Bhubaneswar", state: "Odisha", latitude: 20.2961, longitude: 85.8245 },
+    { pincode: "781001", city: "Guwahati", state: "Assam", latitude: 26.1445, longitude: 91.7362 },
+    { pincode: "800001", city: "Patna", state: "Bihar", latitude: 25.5941, longitude: 85.1376 },
+    { pincode: "834001", city: "Ranchi", state: "Jharkhand", latitude: 23.3441, longitude: 85.3096 },
+    { pincode: "380001", city: "Ahmedabad", state: "Gujarat", latitude: 23.0225, longitude: 72.5714 },
+    { pincode: "395003", city: "Surat", state: "Gujarat", latitude: 21.1702, longitude: 72.8311 },
+    { pincode: "390001", city: "Vadodara", state: "Gujarat", latitude: 22.3072, longitude: 73.1812 },
+    { pincode: "302001", city: "Jaipur", state: "Rajasthan", latitude: 26.9124, longitude: 75.7873 },
+    { pincode: "452001", city: "Indore", state: "Madhya Pradesh", latitude: 22.7196, longitude: 75.8577 },
+    { pincode: "462001", city: "Bhopal", state: "Madhya Pradesh", latitude: 23.2599, longitude: 77.4126 },
+    { pincode: "492001", city: "Raipur", state: "Chhattisgarh", latitude: 21.2514, longitude: 81.6296 },
+    { pincode: "226001", city: "Lucknow", state: "Uttar Pradesh", latitude: 26.8467, longitude: 80.9462 },
+    { pincode: "208001", city: "Kanpur", state: "Uttar Pradesh", latitude: 26.4499, longitude: 80.3319 },
+    { pincode: "160017", city: "Chandigarh", state: "Chandigarh", latitude: 30.7333, longitude: 76.7794 },
+    { pincode: "141001", city: "Ludhiana", state: "Punjab", latitude: 30.901, longitude: 75.8573 },
+    { pincode: "248001", city: "Dehradun", state: "Uttarakhand", latitude: 30.3165, longitude: 78.0322 },
+]
+
+/**
+ * Create an offline reverse geocoder that picks the nearest centroid
+ * @param {PincodeCentroid[]} [centroids=DEFAULT_PINCODE_CENTROIDS] - Centroid table
+ * @param {number} [maxDistanceKm=40] - Ignore centroids further than this
+ * @returns {ReverseGeocoder} Reverse geocoder
+ */
+export function createCentroidReverseGeocoder(
+    centroids: PincodeCentroid[] = DEFAULT_PINCODE_CENTROIDS,
+    maxDistanceKm: number = 40
+): ReverseGeocoder {
+    return {
+        async reverse(coordinates) {
+            let nearest: PincodeCentroid | null = null
+            let nearestDistance = Infinity
+            centroids.forEach((centroid) => {
+                const distance = haversineKm(coordinates, centroid)
+                if (distance < nearestDistance) {
+                    nearest = centroid
+                    nearestDistance = distance
+                }
+            })
+            if (!nearest || nearestDistance > maxDistanceKm) return null
+            const { pincode, city, state } = nearest as PincodeCentroid
+            return { pincode, city, state, distanceKm: nearestDistance }
+        },
+    }
+}
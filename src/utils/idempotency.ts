@@ -0,0 +1,18 @@
+// src/utils/idempotency.ts
+
+/**
+ * Create a key that lets the server recognise a repeated request (a
+ * retry, or a queued submission replayed after reconnecting) and answer
+ * it without acting twice.
+ * @param {string} [prefix="bk"] - Readable prefix for logs
+ * @returns {string} Unique key, e.g. `bk-3f2c...`
+ */
+export function createIdempotencyKey(prefix: string = "bk"): string {
+    const cryptoApi = typeof crypto !== "undefined" ? crypto : undefined
+    if (cryptoApi && typeof cryptoApi.randomUUID === "function") {
+        return `${prefix}-${cryptoApi.randomUUID()}`
+    }
+    // Older browsers: time plus randomness is unique enough per device
+    const random = Math.random().toString(36).slice(2, 12)
+    return `${prefix}-${Date.now().toString(36)}-${random}`
+}
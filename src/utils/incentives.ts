@@ -0,0 +1,214 @@
+// src/utils/incentives.ts
+import type { ApiIncentive } from "./api"
+import { toIsoDateString } from "./formatting"
+import { normalizeSearchText } from "./fuzzySearch"
+
+/**
+ * EV incentives: central and state subsidies, road-tax and registration
+ * waivers.
+ *
+ * The rules come from the `incentives` collection, so policy changes are
+ * data changes. State incentives are matched against the state of the
+ * customer's resolved pricing row. Each rule is checked for eligibility
+ * (validity dates, price ceiling, battery size), then its amount (flat,
+ * per kWh and/or a percent of the ex-showroom price) is capped. Rules that
+ * don't apply are reported with the reason, so the UI can explain them.
+ */
+
+// --- Interfaces ---
+
+type Id = number | string
+
+export type IncentiveScope = "central" | "state"
+
+export type IncentiveKind =
+    | "subsidy"
+    | "road_tax_waiver"
+    | "registration_waiver"
+
+export interface IncentiveContext {
+    /** State of the resolved pricing row */
+    state?: string | null
+    exShowroomPrice: number
+    /** Battery capacity of the chosen variant */
+    batteryKwh?: number
+    /** Date the incentives are evaluated for (default now) */
+    asOf?: Date
+}
+
+export interface AppliedIncentive {
+    id: Id
+    name: string
+    scope: IncentiveScope
+    kind: IncentiveKind
+    amount: number
+    /** Whether a cap reduced the amount */
+    capped: boolean
+}
+
+export interface SkippedIncentive {
+    id: Id
+    name: string
+    reason: string
+}
+
+export interface IncentiveSummary {
+    state?: string
+    /** Central incentives first, then state ones */
+    applied: AppliedIncentive[]
+    /** Rules for this state (or central) that didn't apply, with the reason */
+    skipped: SkippedIncentive[]
+    subsidyTotal: number
+    waiverTotal: number
+    total: number
+}
+
+export const INCENTIVE_KIND_LABELS: Record<IncentiveKind, string> = {
+    subsidy: "Subsidy",
+    road_tax_waiver: "Road tax waiver",
+    registration_waiver: "Registration waiver",
+}
+
+const INCENTIVE_KINDS: IncentiveKind[] = [
+    "subsidy",
+    "road_tax_waiver",
+    "registration_waiver",
+]
+
+// --- Helpers ---
+
+const toScope = (value: string): IncentiveScope | null => {
+    const scope = value.trim().toLowerCase()
+    return scope === "central" || scope === "state" ? scope : null
+}
+
+const toKind = (value: string): IncentiveKind | null => {
+    const kind = value.trim().toLowerCase() as IncentiveKind
+    return INCENTIVE_KINDS.includes(kind) ? kind : null
+}
+
+/**
+ * Why a rule doesn't apply, or null when it's eligible
+ */
+const getIneligibility = (
+    rule: ApiIncentive,
+    context: IncentiveContext,
+    today: string
+): string | null => {
+    if (rule.valid_from && today < rule.valid_from.slice(0, 10)) {
+        return `Starts on ${rule.valid_from.slice(0, 10)}`
+    }
+    if (rule.valid_until && today > rule.valid_until.slice(0, 10)) {
+        return `Ended on ${rule.valid_until.slice(0, 10)}`
+    }
+    if (
+        rule.max_ex_showroom_price !== undefined &&
+        context.exShowroomPrice > rule.max_ex_showroom_price
+    ) {
+        return "Vehicle is priced above the eligibility limit"
+    }
+    if (rule.min_battery_kwh !== undefined || rule.amount_per_kwh !== undefined) {
+        if (context.batteryKwh === undefined) {
+            return "Battery capacity of the variant is unknown"
+        }
+        if (
+            rule.min_battery_kwh !== undefined &&
+            context.batteryKwh < rule.min_battery_kwh
+        ) {
+            return `Needs a battery of at least ${rule.min_battery_kwh} kWh`
+        }
+    }
+    return null
+}
+
+// --- Calculation ---
+
+/**
+ * Amount a rule is worth for a vehicle, after caps
+ * @param {ApiIncentive} rule - Incentive rule
+ * @param {IncentiveContext} context - Price and battery capacity
+ * @returns {{ amount: number; capped: boolean }} Rounded amount and whether a cap applied
+ */
+export function calculateIncentiveAmount(
+    rule: ApiIncentive,
+    context: IncentiveContext
+): { amount: number; capped: boolean } {
+    const price = Math.max(0, context.exShowroomPrice || 0)
+    const uncapped =
+        (rule.amount || 0) +
+        (rule.amount_per_kwh || 0) * (context.batteryKwh || 0) +
+        (price * (rule.percent_of_price || 0)) / 100
+
+    const caps = [
+        rule.max_amount,
+        rule.max_percent_of_price !== undefined
+            ? (price * rule.max_percent_of_price) / 100
+            : undefined,
+    ].filter((cap): cap is number => cap !== undefined)
+    const limit = caps.length > 0 ? Math.min(...caps) : Infinity
+
+    return {
+        amount: Math.round(Math.max(0, Math.min(uncapped, limit))),
+        capped: uncapped > limit,
+    }
+}
+
+/**
+ * Apply every central incentive and those of the customer's state
+ * @param {ApiIncentive[]} rules - Incentives for the model (see selectIncentivesForModel)
+ * @param {IncentiveContext} context - State, price, battery capacity and date
+ * @returns {IncentiveSummary} Applied and skipped incentives with totals
+ */
+export function calculateIncentives(
+    rules: ApiIncentive[],
+    context: IncentiveContext
+): IncentiveSummary {
+    const state = context.state ? normalizeSearchText(context.state) : ""
+    const today = toIsoDateString(context.asOf ?? new Date())
+    const applied: AppliedIncentive[] = []
+    const skipped: SkippedIncentive[] = []
+
+    rules.forEach((rule) => {
+        const scope = toScope(rule.scope)
+        const kind = toKind(rule.incentive_type)
+        if (!scope || !kind || rule.is_active === false) return
+        // Other states' rules are irrelevant, not skipped
+        if (
+            scope === "state" &&
+            (!state || !rule.state || normalizeSearchText(rule.state) !== state)
+        ) {
+            return
+        }
+
+        const reason = getIneligibility(rule, context, today)
+        if (reason) {
+            skipped.push({ id: rule.id, name: rule.name, reason })
+            return
+        }
+
+        const { amount, capped } = calculateIncentiveAmount(rule, context)
+        if (amount <= 0) {
+            skipped.push({ id: rule.id, name: rule.name, reason: "Nothing to apply" })
+            return
+        }
+        applied.push({ id: rule.id, name: rule.name, scope, kind, amount, capped })
+    })
+
+    applied.sort((a, b) => (a.scope === b.scope ? 0 : a.scope === "central" ? -1 : 1))
+
+    const subsidyTotal = applied
+        .filter((item) => item.kind === "subsidy")
+        .reduce((sum, item) => sum + item.amount, 0)
+    const waiverTotal = applied
+        .filter((item) => item.kind !== "subsidy")
+        .reduce((sum, item) => sum + item.amount, 0)
+
+    return {
+        state: context.state || undefined,
+        applied,
+        skipped,
+        subsidyTotal,
+        waiverTotal,
+        total: subsidyTotal + waiverTotal,
+    }
+}
@@ -0,0 +1,115 @@
+// src/utils/indexedDb.ts
+
+/**
+ * Minimal promise-based key-value access to IndexedDB, for payloads too
+ * large for localStorage (e.g. the vehicle catalogue). Like utils/storage,
+ * every call tolerates a missing or failing database and falls back
+ * (undefined/false) instead of throwing.
+ */
+
+const DB_NAME = "km-booking"
+const DB_VERSION = 1
+const STORE_NAME = "kv"
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+// --- Helpers ---
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+/**
+ * Open (and create on first use) the database
+ * @returns {Promise<IDBDatabase | null>} Database, or null when unavailable
+ */
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+        try {
+            if (typeof indexedDB === "undefined") {
+                resolve(null)
+                return
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION)
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME)
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => {
+                console.warn("IndexedDB unavailable:", request.error)
+                resolve(null)
+            }
+            request.onblocked = () => resolve(null)
+        } catch (error) {
+            console.warn("IndexedDB unavailable:", error)
+            resolve(null)
+        }
+    })
+    return dbPromise
+}
+
+/**
+ * Run a request against the key-value store
+ * @returns {Promise<T | undefined>} Result, or undefined when the database is unusable
+ */
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+    const db = await openDb()
+    if (!db) return undefined
+    try {
+        return await promisifyRequest(
+            run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+        )
+    } catch (error) {
+        console.warn("IndexedDB request failed:", error)
+        return undefined
+    }
+}
+
+// --- Key-Value Access ---
+
+/**
+ * Read a value
+ * @param {string} key - Key
+ * @returns {Promise<T | undefined>} Stored value, or undefined if missing or unreadable
+ * @template T The stored value type
+ */
+export const idbGet = <T>(key: string): Promise<T | undefined> =>
+    withStore<T>("readonly", (store) => store.get(key))
+
+/**
+ * Store a value (structured clone, so no JSON round-trip)
+ * @param {string} key - Key
+ * @param {unknown} value - Cloneable value
+ * @returns {Promise<boolean>} Whether the value was stored
+ */
+export const idbSet = async (key: string, value: unknown): Promise<boolean> =>
+    (await withStore("readwrite", (store) => store.put(value, key))) !==
+    undefined
+
+/**
+ * Remove a value
+ * @param {string} key - Key
+ */
+export const idbDelete = async (key: string): Promise<void> => {
+    await withStore("readwrite", (store) => store.delete(key))
+}
+
+/**
+ * List keys that start with a prefix
+ * @param {string} [prefix=""] - Key prefix
+ * @returns {Promise<string[]>} Matching keys
+ */
+export const idbKeys = async (prefix: string = ""): Promise<string[]> => {
+    const keys = await withStore("readonly", (store) => store.getAllKeys())
+    return (keys || [])
+        .map(String)
+        .filter((key) => key.startsWith(prefix))
+}
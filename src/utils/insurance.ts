@@ -0,0 +1,143 @@
+// src/utils/insurance.ts
+import type { ApiInsurancePlan, ApiInsuranceProvider } from "./api"
+
+/**
+ * Insurance premiums for a new vehicle.
+ *
+ * The insured declared value (IDV) is the ex-showroom price less the
+ * depreciation for a new vehicle. A plan's own-damage premium is a rate on
+ * the IDV (with an optional floor), third-party cover is a flat amount,
+ * and add-ons are priced per plan: zero-depreciation as a rate on the IDV,
+ * roadside assistance as a flat amount. GST is charged on the total.
+ */
+
+// --- Interfaces ---
+
+type Id = number | string
+
+export type InsuranceAddOn = "zero_dep" | "roadside_assistance"
+
+/** The customer's insurance choice, as carried in a quote request */
+export interface InsuranceSelection {
+    planId: Id
+    addOns?: InsuranceAddOn[]
+}
+
+export interface InsuranceAddOnPremium {
+    addOn: InsuranceAddOn
+    label: string
+    amount: number
+}
+
+export interface InsurancePremium {
+    planId: Id
+    providerId: Id
+    providerName: string
+    title: string
+    /** Insured declared value */
+    idv: number
+    ownDamage: number
+    thirdParty: number
+    /** Selected add-ons the plan offers; others are ignored */
+    addOns: InsuranceAddOnPremium[]
+    /** Premium before GST */
+    netPremium: number
+    gst: number
+    total: number
+}
+
+export const NEW_VEHICLE_DEPRECIATION_PERCENT = 5
+export const INSURANCE_GST_PERCENT = 18
+
+export const INSURANCE_ADD_ON_LABELS: Record<InsuranceAddOn, string> = {
+    zero_dep: "Zero depreciation",
+    roadside_assistance: "Roadside assistance",
+}
+
+// --- Calculation ---
+
+/**
+ * Insured declared value of a new vehicle
+ * @param {number} exShowroomPrice - Ex-showroom price
+ * @param {number} [depreciationPercent=NEW_VEHICLE_DEPRECIATION_PERCENT] - Depreciation applied
+ * @returns {number} IDV, rounded to the rupee
+ */
+export const calculateIdv = (
+    exShowroomPrice: number,
+    depreciationPercent: number = NEW_VEHICLE_DEPRECIATION_PERCENT
+): number =>
+    Math.round(
+        (Math.max(0, exShowroomPrice || 0) * (100 - depreciationPercent)) / 100
+    )
+
+/**
+ * Add-ons a plan offers
+ * @param {ApiInsurancePlan} plan - Insurance plan
+ * @returns {InsuranceAddOn[]} Offered add-ons
+ */
+export const getAvailableAddOns = (plan: ApiInsurancePlan): InsuranceAddOn[] => {
+    const addOns: InsuranceAddOn[] = []
+    if (plan.zero_dep_rate !== undefined) addOns.push("zero_dep")
+    if (plan.roadside_assistance_price !== undefined) {
+        addOns.push("roadside_assistance")
+    }
+    return addOns
+}
+
+/**
+ * Premium for a plan on a vehicle
+ * @param {ApiInsurancePlan} plan - Insurance plan
+ * @param {ApiInsuranceProvider | undefined} provider - The plan's provider
+ * @param {number} exShowroomPrice - Ex-showroom price of the configured vehicle
+ * @param {InsuranceAddOn[]} [addOns=[]] - Add-ons the customer picked
+ * @returns {InsurancePremium} Premium breakdown
+ */
+export function calculateInsurancePremium(
+    plan: ApiInsurancePlan,
+    provider: ApiInsuranceProvider | undefined,
+    exShowroomPrice: number,
+    addOns: InsuranceAddOn[] = []
+): InsurancePremium {
+    const idv = calculateIdv(exShowroomPrice)
+
+    const ownDamage =
+        plan.premium_rate !== undefined
+            ? Math.max(
+                  Math.round((idv * plan.premium_rate) / 100),
+                  plan.min_premium || 0
+              )
+            : 0
+    const thirdParty = Math.round(plan.third_party_premium || 0)
+
+    const offered = getAvailableAddOns(plan)
+    const addOnPremiums = offered
+        .filter((addOn) => addOns.includes(addOn))
+        .map((addOn) => ({
+            addOn,
+            label: INSURANCE_ADD_ON_LABELS[addOn],
+            amount:
+                addOn === "zero_dep"
+                    ? Math.round((idv * (plan.zero_dep_rate || 0)) / 100)
+                    : Math.round(plan.roadside_assistance_price || 0),
+        }))
+
+    const netPremium =
+        ownDamage +
+        thirdParty +
+        addOnPremiums.reduce((sum, item) => sum + item.amount, 0)
+    const gst = Math.round((netPremium * INSURANCE_GST_PERCENT) / 100)
+
+    return {
+        planId: plan.id,
+        providerId: plan.provider_id,
+        providerName: provider?.name || "",
+        title: plan.title,
+        idv,
+        ownDamage,
+        thirdParty,
+        addOns: addOnPremiums,
+        netPremium,
+        gst,
+        total: netPremium + gst,
+    }
+}
@@ -0,0 +1,143 @@
+// src/utils/location.ts
+import type { LocationFeature, VehicleData } from "./api"
+import { getCatalogue } from "./catalogue"
+import { normalizeSearchText } from "./fuzzySearch"
+
+/**
+ * The customer's chosen delivery location as structured data.
+ *
+ * Selection, geolocation and pre-seeded defaults all produce a
+ * SelectedLocation; forms and the booking payload carry it as-is, and
+ * formatLocationString turns it into display text. Nothing downstream
+ * should need to parse a formatted "560001, Bengaluru, ..." string.
+ */
+
+// --- Interfaces ---
+
+export type LocationSource =
+    | "search" // Picked from search results
+    | "recent" // Picked from the recent locations list
+    | "geolocation" // Resolved from the device position
+    | "default" // Pre-seeded for a returning user
+
+export interface LocationParts {
+    pincode?: string
+    city?: string
+    state?: string
+}
+
+export interface SelectedLocation extends LocationParts {
+    country: string
+    /** Pricing row that covers the location, when it's serviceable */
+    pricingId?: number | string
+    serviceable: boolean
+    source: LocationSource
+    /** Provider feature id, for re-resolving the location later */
+    featureId?: string
+    /** Provider's full display name, used when parts are missing */
+    placeName?: string
+}
+
+export const DEFAULT_COUNTRY = "India"
+
+// --- Parsing ---
+
+/**
+ * Extract pincode, city and state from a Mapbox-like feature
+ * @param {LocationFeature} feature - Location feature
+ * @returns {LocationParts} Parts found in the feature's context and text
+ */
+export function parseLocationFeature(feature: LocationFeature): LocationParts {
+    let pincode: string | undefined
+    let city: string | undefined
+    let state: string | undefined
+
+    feature.context?.forEach((item) => {
+        if (!item || typeof item.id !== "string" || !item.text) return
+        switch (item.id.split(".")[0]) {
+            case "postcode":
+                pincode = item.text
+                break
+            case "locality": // Often used for neighborhoods, fallback for city
+                if (!city) city = item.text
+                break
+            case "place": // Often used for city
+                city = item.text
+                break
+            case "region": // Often used for state/province
+                state = item.text
+                break
+            default:
+                break
+        }
+    })
+
+    // The feature itself may be the city or the pincode
+    if (!city && feature.place_type?.includes("place") && feature.text) {
+        city = feature.text
+    }
+    if (!pincode && feature.text && /^\d{6}$/.test(feature.text.trim())) {
+        pincode = feature.text.trim()
+    }
+
+    return { pincode, city, state }
+}
+
+/**
+ * Find the pricing row covering a location: by pincode range, else by city
+ * @param {LocationParts} parts - Location parts
+ * @param {VehicleData | null} vehicleData - Vehicle data containing pricing info
+ * @returns {number | string | undefined} Pricing row id
+ */
+export function findLocationPricingId(
+    parts: LocationParts,
+    vehicleData: VehicleData | null
+): number | string | undefined {
+    if (!vehicleData || !vehicleData.pricing) return undefined
+    const catalogue = getCatalogue(vehicleData)
+
+    if (parts.pincode && /^\d{6}$/.test(parts.pincode)) {
+        return catalogue.pincodeIndex.lookup(parseInt(parts.pincode, 10))?.value
+            .id
+    }
+    if (parts.city) {
+        const city = normalizeSearchText(parts.city)
+        return catalogue.places.find(
+            (place) => !!place.city && normalizeSearchText(place.city) === city
+        )?.pricing.id
+    }
+    return undefined
+}
+
+/**
+ * Build a SelectedLocation from a chosen feature
+ * @param {LocationFeature} feature - Selected feature (optionally tagged `serviceable`)
+ * @param {LocationSource} source - How the customer chose it
+ * @param {VehicleData | null} [vehicleData] - Used to find the covering pricing row
+ * @returns {SelectedLocation} Structured location
+ */
+export function toSelectedLocation(
+    feature: LocationFeature & { serviceable?: boolean },
+    source: LocationSource,
+    vehicleData: VehicleData | null = null
+): SelectedLocation {
+    const parts = parseLocationFeature(feature)
+    const pricingId = findLocationPricingId(parts, vehicleData)
+    return {
+        ...parts,
+        country: DEFAULT_COUNTRY,
+        pricingId,
+        // Trust the provider's tag; otherwise serviceable means priced
+        serviceable: feature.serviceable ?? pricingId !== undefined,
+        source,
+        featureId: feature.id,
+        placeName: feature.place_name,
+    }
+}
+
+/**
+ * Whether a value is a SelectedLocation rather than a raw feature
+ */
+export const isSelectedLocation = (
+    value: LocationFeature | SelectedLocation
+): value is SelectedLocation => "source" in value && "country" in value
@@ -0,0 +1,318 @@
+// src/utils/locationProviders.ts
+import {
+    LocationFeature,
+    VehicleData,
+    getLocationFeatureById,
+    searchLocationFromPricing,
+} from "./api"
+import { ApiClient, createApiClient } from "./apiClient"
+import { getCatalogue } from "./catalogue"
+import { normalizeSearchText } from "./fuzzySearch"
+import { LruCache } from "./lruCache"
+import {
+    Coordinates,
+    ReverseGeocoder,
+    createCentroidReverseGeocoder,
+} from "./geolocation"
+import { parsePincode } from "./pricing"
+import { isAbortError } from "./retry"
+
+/**
+ * Location providers behind LocationSearch and useLocationSearch.
+ *
+ * A provider searches by text, reverse-geocodes coordinates and resolves
+ * a result id back to a feature. Results are Mapbox-style features tagged
+ * with whether the vehicle can be delivered there. Providers compose, so
+ * the local pricing data can be asked first with a remote geocoder as the
+ * fallback.
+ */
+
+// --- Interfaces ---
+
+export interface LocationProviderResult extends LocationFeature {
+    /** Whether the location is covered by a pricing row */
+    serviceable: boolean
+    /** Name of the provider that produced the result */
+    provider: string
+}
+
+export interface LocationSearchRequest {
+    signal?: AbortSignal
+    /** Maximum number of results */
+    limit?: number
+}
+
+export interface LocationProvider {
+    readonly name: string
+    search(
+        query: string,
+        request?: LocationSearchRequest
+    ): Promise<LocationProviderResult[]>
+    reverse(
+        coordinates: Coordinates,
+        signal?: AbortSignal
+    ): Promise<LocationProviderResult | null>
+    /** Resolve an id from an earlier result, or null if it's unknown */
+    getById(
+        id: string,
+        signal?: AbortSignal
+    ): Promise<LocationProviderResult | null>
+}
+
+/** Decides whether a feature from any source is serviceable */
+export type ServiceabilityCheck = (feature: LocationFeature) => boolean
+
+// --- Helpers ---
+
+const contextText = (
+    feature: LocationFeature,
+    type: string
+): string | undefined =>
+    feature.context?.find((item) => item.id.split(".")[0] === type)?.text
+
+const tag = (
+    feature: LocationFeature,
+    provider: string,
+    serviceable: boolean
+): LocationProviderResult => ({ ...feature, serviceable, provider })
+
+/**
+ * Build a serviceability check against the pricing data: a feature is
+ * serviceable when its pincode falls in a pricing range or, without a
+ * pincode, when its city is priced
+ * @param {() => VehicleData | null} getVehicleData - Current vehicle data
+ * @returns {ServiceabilityCheck} Check for features from any provider
+ */
+export function createPricingServiceabilityCheck(
+    getVehicleData: () => VehicleData | null
+): ServiceabilityCheck {
+    return (feature) => {
+        const vehicleData = getVehicleData()
+        if (!vehicleData || !vehicleData.pricing) return false
+        const catalogue = getCatalogue(vehicleData)
+
+        const pincode = parsePincode(contextText(feature, "postcode"))
+        if (pincode !== null) return !!catalogue.pincodeIndex.lookup(pincode)
+
+        const city = contextText(feature, "place")
+        if (!city) return false
+        const normalizedCity = normalizeSearchText(city)
+        return catalogue.places.some(
+            (place) =>
+                !!place.city && normalizeSearchText(place.city) === normalizedCity
+        )
+    }
+}
+
+// --- Local Pricing Provider ---
+
+export interface LocalPricingProviderOptions {
+    /** Resolves coordinates to a pincode (default: offline centroid table) */
+    reverseGeocoder?: ReverseGeocoder
+}
+
+/**
+ * Provider over the pricing rows in VehicleData. Every result it returns
+ * is serviceable by construction.
+ * @param {() => VehicleData | null} getVehicleData - Current vehicle data
+ * @param {LocalPricingProviderOptions} [options] - Reverse geocoder
+ * @returns {LocationProvider} Local provider
+ */
+export function createLocalPricingProvider(
+    getVehicleData: () => VehicleData | null,
+    {
+        reverseGeocoder = createCentroidReverseGeocoder(),
+    }: LocalPricingProviderOptions = {}
+): LocationProvider {
+    const name = "local"
+
+    const search = async (
+        query: string,
+        { limit }: LocationSearchRequest = {}
+    ): Promise<LocationProviderResult[]> =>
+        searchLocationFromPricing(query, getVehicleData(), { limit }).map(
+            (feature) => tag(feature, name, true)
+        )
+
+    return {
+        name,
+        search,
+        async reverse(coordinates, signal) {
+            const match = await reverseGeocoder.reverse(coordinates, signal)
+            if (!match) return null
+
+            // Prefer the pincode's own range, then an exact city match
+            const [byPincode] = await search(match.pincode)
+            if (byPincode) return byPincode
+            if (!match.city) return null
+            const [byCity] = await search(match.city, { limit: 1 })
+            const sameCity =
+                byCity?.text &&
+                normalizeSearchText(byCity.text) ===
+                    normalizeSearchText(match.city)
+            return sameCity ? byCity : null
+        },
+        async getById(id) {
+            const feature = getLocationFeatureById(id, getVehicleData())
+            return feature ? tag(feature, name, true) : null
+        },
+    }
+}
+
+// --- Mapbox-compatible HTTP Provider ---
+
+export const DEFAULT_MAPBOX_GEOCODING_URL =
+    "https://api.mapbox.com/geocoding/v5/mapbox.places/"
+
+/** The subset of a Mapbox geocoding response this provider reads */
+interface MapboxFeatureCollection {
+    features?: LocationFeature[]
+}
+
+export interface MapboxLocationProviderOptions {
+    /** Access token sent as `access_token` (kept out of logged endpoints) */
+    accessToken: string
+    /** Geocoding endpoint (default: Mapbox places v5) */
+    baseUrl?: string
+    /** ISO country filter (default "in") */
+    country?: string
+    /** Feature types to request (default postcode, place, region) */
+    types?: string[]
+    /** Default maximum number of results (default 5) */
+    limit?: number
+    /** Tags results; without one every remote result is unserviceable */
+    isServiceable?: ServiceabilityCheck
+    /** Client to send requests with (default: one built for baseUrl) */
+    client?: ApiClient
+}
+
+/**
+ * Provider for a Mapbox-compatible forward/reverse geocoding HTTP API.
+ * Geocoding APIs have no lookup by id, so getById only resolves results
+ * this provider has already returned.
+ * @param {MapboxLocationProviderOptions} options - Token, endpoint and filters
+ * @returns {LocationProvider} Remote provider
+ */
+export function createMapboxLocationProvider({
+    accessToken,
+    baseUrl = DEFAULT_MAPBOX_GEOCODING_URL,
+    country = "in",
+    types = ["postcode", "place", "region"],
+    limit: defaultLimit = 5,
+    isServiceable = () => false,
+    client = createApiClient({ baseUrl, retry: { retries: 1 } }),
+}: MapboxLocationProviderOptions): LocationProvider {
+    const name = "mapbox"
+    const remembered = new LruCache<string, LocationProviderResult>(100)
+
+    const remember = (results: LocationProviderResult[]) => {
+        results.forEach((result) => remembered.set(result.id, result))
+        return results
+    }
+
+    const geocode = async (
+        path: string,
+        params: Record<string, string>,
+        signal?: AbortSignal
+    ): Promise<LocationProviderResult[]> => {
+        const search = new URLSearchParams({
+            country,
+            types: types.join(","),
+            ...params,
+        })
+        const response = await client.request<MapboxFeatureCollection>(
+            `${encodeURIComponent(path)}.json?${search.toString()}`,
+            { method: "GET", signal, query: { access_token: accessToken } }
+        )
+        return remember(
+            (response.features || []).map((feature) =>
+                tag(feature, name, isServiceable(feature))
+            )
+        )
+    }
+
+    return {
+        name,
+        async search(query, { signal, limit = defaultLimit } = {}) {
+            const trimmed = query.trim()
+            if (!trimmed) return []
+            return geocode(
+                trimmed,
+                { limit: String(limit), autocomplete: "true" },
+                signal
+            )
+        },
+        async reverse({ latitude, longitude }, signal) {
+            // Mapbox rejects `limit` on reverse lookups with several types;
+            // without it there is one feature per type, most specific first
+            const [nearest] = await geocode(
+                `${longitude},${latitude}`,
+                {},
+                signal
+            )
+            return nearest ?? null
+        },
+        async getById(id) {
+            return remembered.get(id) ?? null
+        },
+    }
+}
+
+// --- Composite Provider ---
+
+/**
+ * Ask providers in order and use the first that has an answer. A failing
+ * provider is logged and skipped; if every provider fails, the first
+ * error is rethrown. Cancellation is never swallowed.
+ * @param {LocationProvider[]} providers - Providers, most preferred first
+ * @returns {LocationProvider} Composite provider
+ */
+export function createCompositeLocationProvider(
+    providers: LocationProvider[]
+): LocationProvider {
+    const firstAnswer = async <T>(
+        ask: (provider: LocationProvider) => Promise<T>,
+        hasAnswer: (answer: T) => boolean,
+        empty: T
+    ): Promise<T> => {
+        let firstError: unknown = null
+        let failures = 0
+        for (const provider of providers) {
+            try {
+                const answer = await ask(provider)
+                if (hasAnswer(answer)) return answer
+            } catch (error) {
+                if (isAbortError(error)) throw error
+                console.error(`Location provider "${provider.name}" failed:`, error)
+                if (failures === 0) firstError = error
+                failures += 1
+            }
+        }
+        if (providers.length > 0 && failures === providers.length) {
+            throw firstError
+        }
+        return empty
+    }
+
+    return {
+        name: providers.map((provider) => provider.name).join("+"),
+        search: (query, request) =>
+            firstAnswer(
+                (provider) => provider.search(query, request),
+                (results) => results.length > 0,
+                [] as LocationProviderResult[]
+            ),
+        reverse: (coordinates, signal) =>
+            firstAnswer<LocationProviderResult | null>(
+                (provider) => provider.reverse(coordinates, signal),
+                (result) => result !== null,
+                null
+            ),
+        getById: (id, signal) =>
+            firstAnswer<LocationProviderResult | null>(
+                (provider) => provider.getById(id, signal),
+                (result) => result !== null,
+                null
+            ),
+    }
+}
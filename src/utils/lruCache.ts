@@ -0,0 +1,54 @@
+// src/utils/lruCache.ts
+
+/**
+ * Small in-memory least-recently-used cache.
+ * Backed by a Map, whose iteration order is insertion order, so the
+ * first key is always the least recently used one.
+ */
+export class LruCache<K, V> {
+    private readonly entries = new Map<K, V>()
+    readonly capacity: number
+
+    /**
+     * @param {number} capacity - Maximum number of entries (at least 1)
+     */
+    constructor(capacity: number) {
+        this.capacity = Math.max(1, Math.floor(capacity))
+    }
+
+    get size(): number {
+        return this.entries.size
+    }
+
+    /** Get a value and mark it as most recently used */
+    get(key: K): V | undefined {
+        if (!this.entries.has(key)) return undefined
+        const value = this.entries.get(key) as V
+        this.entries.delete(key)
+        this.entries.set(key, value)
+        return value
+    }
+
+    has(key: K): boolean {
+        return this.entries.has(key)
+    }
+
+    /** Store a value, evicting the least recently used entry when full */
+    set(key: K, value: V): this {
+        this.entries.delete(key)
+        this.entries.set(key, value)
+        while (this.entries.size > this.capacity) {
+            const oldest = this.entries.keys().next().value as K
+            this.entries.delete(oldest)
+        }
+        return this
+    }
+
+    delete(key: K): boolean {
+        return this.entries.delete(key)
+    }
+
+    clear(): void {
+        this.entries.clear()
+    }
+}
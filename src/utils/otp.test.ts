@@ -0,0 +1,84 @@
+// src/utils/otp.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { OtpService, createLocalOtpService } from "./otp"
+
+describe("createLocalOtpService", () => {
+    let clock: number
+    let service: OtpService
+    const request = { channel: "sms" as const, phone: "9876543210" }
+
+    const sendSession = async () => {
+        const result = await service.send(request)
+        if (result.status !== "sent") throw new Error(`unexpected ${result.status}`)
+        return result.session
+    }
+
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => {}) // Codes are logged
+        clock = 1_000_000
+        service = createLocalOtpService({
+            code: "111111",
+            resendCooldownMs: 30_000,
+            maxAttempts: 3,
+            lockoutMs: 60_000,
+            now: () => clock,
+        })
+    })
+
+    it("refuses a resend on the same channel until the cooldown passes", async () => {
+        const session = await sendSession()
+
+        expect(await service.resend(session.requestId)).toEqual({
+            status: "cooldown",
+            retryAt: clock + 30_000,
+        })
+
+        clock += 30_000
+        const resent = await service.resend(session.requestId)
+        expect(resent.status).toBe("sent")
+    })
+
+    it("lets the customer switch channel during the cooldown", async () => {
+        const session = await service.send({ ...request, email: "a@example.com" })
+        if (session.status !== "sent") throw new Error("not sent")
+
+        const switched = await service.resend(session.session.requestId, "email")
+        expect(switched.status).toBe("sent")
+    })
+
+    it("locks the destination out after too many wrong codes", async () => {
+        const session = await sendSession()
+
+        expect(await service.verify(session.requestId, "000000")).toEqual({
+            status: "invalid",
+            attemptsRemaining: 2,
+        })
+        await service.verify(session.requestId, "000000")
+        expect(await service.verify(session.requestId, "000000")).toEqual({
+            status: "locked",
+            lockedUntil: clock + 60_000,
+        })
+
+        // A new session for the same phone is refused while locked
+        expect(await service.send(request)).toEqual({
+            status: "locked",
+            lockedUntil: clock + 60_000,
+        })
+
+        clock += 60_000
+        const again = await sendSession()
+        expect(await service.verify(again.requestId, "111111")).toEqual({
+            status: "verified",
+        })
+    })
+
+    it("doesn't restore attempts on resend", async () => {
+        const session = await sendSession()
+        await service.verify(session.requestId, "000000")
+
+        clock += 30_000
+        const resent = await service.resend(session.requestId)
+        if (resent.status !== "sent") throw new Error("not sent")
+        expect(resent.session.attemptsRemaining).toBe(2)
+    })
+})
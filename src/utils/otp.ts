@@ -0,0 +1,347 @@
+// src/utils/otp.ts
+import { ApiClient, defaultApiClient } from "./apiClient"
+import { HttpError } from "./apiErrors"
+
+/**
+ * One-time password sessions for verifying the customer's phone or email.
+ *
+ * Sending returns a session (request id, expiry, resend cooldown and
+ * remaining verify attempts); resending and verifying refer to it by id.
+ * Too many wrong codes lock the destination out for a while. The API
+ * service talks to the booking engine; the local service is a
+ * deterministic stand-in with an injectable clock for demos and tests.
+ */
+
+// --- Interfaces ---
+
+export type OtpChannel = "sms" | "email"
+
+export interface OtpRequest {
+    channel: OtpChannel
+    /** Digits only, without country code; required for "sms" */
+    phone?: string
+    /** Required for "email" */
+    email?: string
+}
+
+export interface OtpSession {
+    requestId: string
+    channel: OtpChannel
+    /** Masked destination for display, e.g. "+91 ••••••3210" */
+    destination: string
+    codeLength: number
+    /** Epoch ms the code stops working */
+    expiresAt: number
+    /** Epoch ms a resend on the same channel is allowed */
+    resendAvailableAt: number
+    attemptsRemaining: number
+}
+
+export type OtpSendResult =
+    | { status: "sent"; session: OtpSession }
+    | { status: "cooldown"; retryAt: number }
+    | { status: "locked"; lockedUntil: number }
+
+export type OtpVerifyResult =
+    | { status: "verified" }
+    | { status: "invalid"; attemptsRemaining: number }
+    | { status: "expired" }
+    | { status: "locked"; lockedUntil: number }
+
+export interface OtpService {
+    send(request: OtpRequest): Promise<OtpSendResult>
+    /**
+     * Send the code for an existing session again, optionally switching
+     * channel. Switching isn't subject to the cooldown of the old channel.
+     */
+    resend(requestId: string, channel?: OtpChannel): Promise<OtpSendResult>
+    verify(requestId: string, code: string): Promise<OtpVerifyResult>
+}
+
+export const DEFAULT_OTP_LENGTH = 6
+export const DEFAULT_OTP_TTL_MS = 5 * 60 * 1000
+export const DEFAULT_OTP_RESEND_COOLDOWN_MS = 30 * 1000
+export const DEFAULT_OTP_MAX_ATTEMPTS = 5
+export const DEFAULT_OTP_LOCKOUT_MS = 15 * 60 * 1000
+
+// --- Helpers ---
+
+/**
+ * Mask a destination for display
+ * @param {OtpRequest} request - Channel and destinations
+ * @returns {string} e.g. "+91 ••••••3210" or "s•••@example.com"
+ */
+export function maskOtpDestination({ channel, phone, email }: OtpRequest): string {
+    if (channel === "email") {
+        const [user = "", domain = ""] = (email || "").split("@")
+        return `${user.slice(0, 1)}•••@${domain}`
+    }
+    const digits = (phone || "").replace(/\D/g, "")
+    return `+91 ${"•".repeat(Math.max(0, digits.length - 4))}${digits.slice(-4)}`
+}
+
+const getDestination = (request: OtpRequest): string => {
+    const destination =
+        request.channel === "email" ? request.email : request.phone
+    if (!destination) {
+        throw new Error(
+            `An OTP over ${request.channel} needs ${request.channel === "email" ? "an email address" : "a phone number"}`
+        )
+    }
+    return destination
+}
+
+// --- API Service ---
+
+/** OTP session as sent by the API (times in seconds) */
+interface ApiOtpSendResponse {
+    status: "success" | "error"
+    request_id?: string
+    channel?: OtpChannel
+    destination?: string
+    code_length?: number
+    expires_in?: number
+    resend_after?: number
+    attempts_remaining?: number
+    /** Seconds until a rate limit or lockout ends */
+    retry_after?: number
+    reason?: "cooldown" | "locked"
+    message?: string
+}
+
+interface ApiOtpVerifyResponse {
+    status: "success" | "error"
+    verified: boolean
+    reason?: "invalid" | "expired" | "locked"
+    attempts_remaining?: number
+    retry_after?: number
+    message?: string
+}
+
+/**
+ * Create an OTP service backed by the booking engine API
+ * (POST /otp/send, /otp/resend and /otp/verify)
+ * @param {ApiClient} [client=defaultApiClient] - Client the requests are routed through
+ * @param {() => number} [now=Date.now] - Clock used to turn relative times into timestamps
+ * @returns {OtpService} OTP service
+ */
+export function createApiOtpService(
+    client: ApiClient = defaultApiClient,
+    now: () => number = Date.now
+): OtpService {
+    const post = async <T>(endpoint: string, body: object): Promise<T> => {
+        try {
+            return await client.request<T>(endpoint, {
+                method: "POST",
+                body: JSON.stringify(body),
+            })
+        } catch (error) {
+            // Rate limits and lockouts come back as 429/423 with a JSON body
+            if (
+                error instanceof HttpError &&
+                (error.status === 429 || error.status === 423) &&
+                error.body
+            ) {
+                return error.body as T
+            }
+            throw error
+        }
+    }
+
+    const toSendResult = (
+        response: ApiOtpSendResponse,
+        request: Partial<OtpRequest>
+    ): OtpSendResult => {
+        const at = now()
+        const retryAt = at + (response.retry_after ?? 0) * 1000
+        if (response.status === "error" || !response.request_id) {
+            if (response.reason === "locked") {
+                return { status: "locked", lockedUntil: retryAt }
+            }
+            if (response.reason === "cooldown") {
+                return { status: "cooldown", retryAt }
+            }
+            throw new Error(response.message || "Couldn't send the OTP")
+        }
+        const channel = response.channel || request.channel || "sms"
+        return {
+            status: "sent",
+            session: {
+                requestId: response.request_id,
+                channel,
+                destination:
+                    response.destination ||
+                    maskOtpDestination({ ...request, channel }),
+                codeLength: response.code_length ?? DEFAULT_OTP_LENGTH,
+                expiresAt:
+                    at + (response.expires_in ?? DEFAULT_OTP_TTL_MS / 1000) * 1000,
+                resendAvailableAt: at + (response.resend_after ?? 0) * 1000,
+                attemptsRemaining:
+                    response.attempts_remaining ?? DEFAULT_OTP_MAX_ATTEMPTS,
+            },
+        }
+    }
+
+    return {
+        async send(request) {
+            getDestination(request) // Fail fast without a destination
+            const response = await post<ApiOtpSendResponse>("/otp/send", request)
+            return toSendResult(response, request)
+        },
+        async resend(requestId, channel) {
+            const response = await post<ApiOtpSendResponse>("/otp/resend", {
+                request_id: requestId,
+                channel,
+            })
+            return toSendResult(response, { channel })
+        },
+        async verify(requestId, code) {
+            const response = await post<ApiOtpVerifyResponse>("/otp/verify", {
+                request_id: requestId,
+                code,
+            })
+            if (response.verified) return { status: "verified" }
+            switch (response.reason) {
+                case "expired":
+                    return { status: "expired" }
+                case "locked":
+                    return {
+                        status: "locked",
+                        lockedUntil: now() + (response.retry_after ?? 0) * 1000,
+                    }
+                default:
+                    return {
+                        status: "invalid",
+                        attemptsRemaining: response.attempts_remaining ?? 0,
+                    }
+            }
+        },
+    }
+}
+
+// --- Local Stand-in ---
+
+export interface LocalOtpServiceOptions {
+    /** Code every session accepts (default "123456") */
+    code?: string
+    ttlMs?: number
+    resendCooldownMs?: number
+    maxAttempts?: number
+    lockoutMs?: number
+    /** Clock, so tests can move time forward */
+    now?: () => number
+    /** Simulated network delay in ms (default 0) */
+    latencyMs?: number
+}
+
+/**
+ * Create an in-memory OTP service with the same rules as the API.
+ * Deterministic: request ids count up from "otp-local-1" and the code is fixed.
+ * @param {LocalOtpServiceOptions} [options] - Code, timings, limits and clock
+ * @returns {OtpService} OTP service
+ */
+export function createLocalOtpService({
+    code = "123456",
+    ttlMs = DEFAULT_OTP_TTL_MS,
+    resendCooldownMs = DEFAULT_OTP_RESEND_COOLDOWN_MS,
+    maxAttempts = DEFAULT_OTP_MAX_ATTEMPTS,
+    lockoutMs = DEFAULT_OTP_LOCKOUT_MS,
+    now = Date.now,
+    latencyMs = 0,
+}: LocalOtpServiceOptions = {}): OtpService {
+    const sessions = new Map<
+        string,
+        { session: OtpSession; request: OtpRequest }
+    >()
+    // Lockout expiry per destination
+    const lockouts = new Map<string, number>()
+    let nextId = 1
+
+    const settle = () =>
+        latencyMs > 0
+            ? new Promise((resolve) => setTimeout(resolve, latencyMs))
+            : Promise.resolve()
+
+    const lockedUntil = (request: OtpRequest): number | null => {
+        const until = lockouts.get(getDestination(request))
+        return until !== undefined && until > now() ? until : null
+    }
+
+    const issue = (
+        requestId: string,
+        request: OtpRequest,
+        attemptsRemaining: number
+    ): OtpSendResult => {
+        const at = now()
+        const session: OtpSession = {
+            requestId,
+            channel: request.channel,
+            destination: maskOtpDestination(request),
+            codeLength: code.length,
+            expiresAt: at + ttlMs,
+            resendAvailableAt: at + resendCooldownMs,
+            attemptsRemaining,
+        }
+        sessions.set(requestId, { session, request })
+        console.log(
+            `LOCAL OTP: ${code} for ${session.destination} via ${request.channel} (${requestId})`
+        )
+        return { status: "sent", session }
+    }
+
+    return {
+        async send(request) {
+            await settle()
+            const locked = lockedUntil(request)
+            if (locked) return { status: "locked", lockedUntil: locked }
+            return issue(`otp-local-${nextId++}`, request, maxAttempts)
+        },
+        async resend(requestId, channel) {
+            await settle()
+            const current = sessions.get(requestId)
+            if (!current) throw new Error(`Unknown OTP request ${requestId}`)
+            const request = {
+                ...current.request,
+                channel: channel ?? current.session.channel,
+            }
+            const locked = lockedUntil(request)
+            if (locked) return { status: "locked", lockedUntil: locked }
+            if (
+                request.channel === current.session.channel &&
+                now() < current.session.resendAvailableAt
+            ) {
+                return {
+                    status: "cooldown",
+                    retryAt: current.session.resendAvailableAt,
+                }
+            }
+            // Resending doesn't restore attempts, or it would defeat the limit
+            return issue(requestId, request, current.session.attemptsRemaining)
+        },
+        async verify(requestId, candidate) {
+            await settle()
+            const current = sessions.get(requestId)
+            if (!current) return { status: "expired" }
+            const locked = lockedUntil(current.request)
+            if (locked) return { status: "locked", lockedUntil: locked }
+            if (now() >= current.session.expiresAt) {
+                sessions.delete(requestId)
+                return { status: "expired" }
+            }
+            if (candidate === code) {
+                sessions.delete(requestId)
+                return { status: "verified" }
+            }
+
+            const attemptsRemaining = current.session.attemptsRemaining - 1
+            if (attemptsRemaining <= 0) {
+                const until = now() + lockoutMs
+                lockouts.set(getDestination(current.request), until)
+                sessions.delete(requestId)
+                return { status: "locked", lockedUntil: until }
+            }
+            current.session = { ...current.session, attemptsRemaining }
+            return { status: "invalid", attemptsRemaining }
+        },
+    }
+}
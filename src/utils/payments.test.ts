@@ -0,0 +1,65 @@
+// src/utils/payments.test.ts
+import { describe, expect, it } from "vitest"
+import { createSimulatedGateway } from "./payments"
+import { processPayment } from "./api"
+import { createApiClient } from "./apiClient"
+
+// The simulator never sends requests; the client only satisfies the signature
+const client = createApiClient({ baseUrl: "https://api.test/" })
+const details = { amount: 2499, receipt: "booking-1" }
+
+describe("createSimulatedGateway", () => {
+    it("settles a pending payment as paid after the configured polls", async () => {
+        const gateway = createSimulatedGateway({ scenario: "pending", pendingPolls: 2 })
+
+        const result = await processPayment(details, client, gateway)
+
+        expect(result).toEqual({
+            status: "success",
+            orderId: "sim_order_1",
+            transactionId: "sim_pay_1",
+        })
+    })
+
+    it("reports a pending payment that settles as failed", async () => {
+        const gateway = createSimulatedGateway({
+            scenario: "pending",
+            pendingSettlesAs: "failed",
+        })
+
+        const result = await processPayment(details, client, gateway)
+
+        expect(result.status).toBe("error")
+        expect(result.message).toBe("Payment was declined by the bank")
+    })
+
+    it("refunds in parts until the order is fully refunded", async () => {
+        const gateway = createSimulatedGateway()
+        const order = await gateway.createOrder(details)
+        const checkout = await gateway.openCheckout(order)
+        if (checkout.status !== "success") throw new Error("checkout failed")
+        expect(await gateway.verifySignature(checkout)).toBe(true)
+
+        const partial = await gateway.refund(checkout.paymentId, 1000)
+        expect(partial.amount).toBe(1000)
+        expect((await gateway.pollStatus(order.orderId)).status).toBe("paid")
+
+        // Without an amount, the rest is refunded
+        const rest = await gateway.refund(checkout.paymentId)
+        expect(rest.amount).toBe(1499)
+        expect((await gateway.pollStatus(order.orderId)).status).toBe("refunded")
+
+        await expect(gateway.refund(checkout.paymentId)).rejects.toThrow(
+            "can't be refunded"
+        )
+    })
+
+    it("doesn't refund a failed payment", async () => {
+        const gateway = createSimulatedGateway({ scenario: "failure" })
+        const order = await gateway.createOrder(details)
+        const checkout = await gateway.openCheckout(order)
+
+        expect(checkout.status).toBe("failed")
+        await expect(gateway.refund("sim_pay_1")).rejects.toThrow()
+    })
+})
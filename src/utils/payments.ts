@@ -0,0 +1,549 @@
+// src/utils/payments.ts
+import { ApiClient, defaultApiClient } from "./apiClient"
+import { NetworkError } from "./apiErrors"
+import { delay } from "./retry"
+
+/**
+ * Payment gateways for the booking amount.
+ *
+ * A gateway creates an order for an amount, runs the customer through
+ * checkout, verifies the result's signature, polls the order until it
+ * settles and refunds payments. Amounts are in rupees throughout; the
+ * Razorpay adapter converts to paise at its edges. The simulator runs
+ * entirely in memory with a chosen outcome, for demos and tests.
+ */
+
+// --- Interfaces ---
+
+export type PaymentStatus =
+    | "created" // Order exists, no payment attempted
+    | "pending" // Authorised or processing; not yet captured
+    | "paid"
+    | "failed"
+    | "cancelled" // Customer closed checkout
+    | "refunded"
+
+export interface PaymentCustomer {
+    name?: string
+    email?: string
+    phone?: string
+}
+
+export interface PaymentOrderRequest {
+    /** Amount in rupees */
+    amount: number
+    currency?: string
+    /** Our reference for the order, e.g. the booking id */
+    receipt: string
+    customer?: PaymentCustomer
+    /** Shown in checkout */
+    description?: string
+    notes?: Record<string, string>
+}
+
+export interface PaymentOrder {
+    orderId: string
+    /** Amount in rupees */
+    amount: number
+    currency: string
+    receipt: string
+    status: PaymentStatus
+    /** Gateway that created the order */
+    gateway: string
+    customer?: PaymentCustomer
+    description?: string
+}
+
+export type CheckoutResult =
+    | { status: "success"; orderId: string; paymentId: string; signature: string }
+    | { status: "pending"; orderId: string; paymentId?: string }
+    | { status: "failed"; orderId: string; paymentId?: string; reason: string }
+    | { status: "cancelled"; orderId: string }
+
+export interface PaymentSignature {
+    orderId: string
+    paymentId: string
+    signature: string
+}
+
+export interface PaymentStatusResult {
+    orderId: string
+    status: PaymentStatus
+    paymentId?: string
+    failureReason?: string
+}
+
+export interface RefundResult {
+    refundId: string
+    paymentId: string
+    /** Amount in rupees */
+    amount: number
+    status: "pending" | "processed" | "failed"
+}
+
+export interface PollStatusOptions {
+    /** Delay between status checks (default 2 s) */
+    intervalMs?: number
+    /** Give up and return the last status after this long (default 60 s) */
+    timeoutMs?: number
+    signal?: AbortSignal
+}
+
+export interface PaymentGateway {
+    readonly name: string
+    createOrder(request: PaymentOrderRequest): Promise<PaymentOrder>
+    /** Run the customer through checkout; resolves when they finish or leave */
+    openCheckout(order: PaymentOrder): Promise<CheckoutResult>
+    /** Whether a successful checkout's signature is genuine */
+    verifySignature(signature: PaymentSignature): Promise<boolean>
+    /** Check the order until it leaves "created"/"pending" or time runs out */
+    pollStatus(
+        orderId: string,
+        options?: PollStatusOptions
+    ): Promise<PaymentStatusResult>
+    /** Refund a payment in full, or `amount` rupees of it */
+    refund(paymentId: string, amount?: number): Promise<RefundResult>
+}
+
+export const DEFAULT_CURRENCY = "INR"
+export const DEFAULT_POLL_INTERVAL_MS = 2000
+export const DEFAULT_POLL_TIMEOUT_MS = 60 * 1000
+
+// --- Helpers ---
+
+const isSettled = (status: PaymentStatus): boolean =>
+    status !== "created" && status !== "pending"
+
+/**
+ * Poll a status source until the order settles or time runs out
+ * @param {() => Promise<PaymentStatusResult>} getStatus - Fetches the current status
+ * @param {PollStatusOptions} [options] - Interval, timeout and signal
+ * @returns {Promise<PaymentStatusResult>} Settled status, or the last one seen
+ */
+export async function pollUntilSettled(
+    getStatus: () => Promise<PaymentStatusResult>,
+    {
+        intervalMs = DEFAULT_POLL_INTERVAL_MS,
+        timeoutMs = DEFAULT_POLL_TIMEOUT_MS,
+        signal,
+    }: PollStatusOptions = {}
+): Promise<PaymentStatusResult> {
+    const deadline = Date.now() + timeoutMs
+    for (;;) {
+        const result = await getStatus()
+        if (isSettled(result.status) || Date.now() + intervalMs > deadline) {
+            return result
+        }
+        await delay(intervalMs, signal)
+    }
+}
+
+const toPaise = (rupees: number): number => Math.round(rupees * 100)
+const toRupees = (paise: number): number => paise / 100
+
+// --- Razorpay Adapter ---
+
+export const RAZORPAY_CHECKOUT_URL = "https://checkout.razorpay.com/v1/checkout.js"
+
+/** The parts of Razorpay's checkout.js the adapter uses */
+interface RazorpayCheckout {
+    open(): void
+    on(event: "payment.failed", handler: (response: RazorpayFailure) => void): void
+}
+
+type RazorpayConstructor = new (options: Record<string, unknown>) => RazorpayCheckout
+
+interface RazorpaySuccess {
+    razorpay_payment_id: string
+    razorpay_order_id: string
+    razorpay_signature: string
+}
+
+interface RazorpayFailure {
+    error?: {
+        code?: string
+        description?: string
+        metadata?: { payment_id?: string; order_id?: string }
+    }
+}
+
+/** Order as sent by our API (which holds the Razorpay secret) */
+interface ApiPaymentOrder {
+    order_id: string
+    amount_paise: number
+    currency: string
+    receipt: string
+    status: PaymentStatus
+}
+
+interface ApiPaymentStatus {
+    order_id: string
+    status: PaymentStatus
+    payment_id?: string
+    failure_reason?: string
+}
+
+interface ApiRefund {
+    refund_id: string
+    payment_id: string
+    amount_paise: number
+    status: RefundResult["status"]
+}
+
+export interface RazorpayGatewayOptions {
+    /** Public key id (rzp_live_... / rzp_test_...) */
+    keyId: string
+    /** Client for our payment endpoints */
+    client?: ApiClient
+    /** Merchant name shown in checkout */
+    merchantName?: string
+    /** Brand colour for checkout */
+    themeColor?: string
+    /** Loads checkout.js; replace in tests */
+    loadCheckout?: () => Promise<RazorpayConstructor>
+}
+
+let checkoutScript: Promise<RazorpayConstructor> | null = null
+
+/**
+ * Load Razorpay's checkout.js once
+ * @returns {Promise<RazorpayConstructor>} The Razorpay constructor
+ */
+const loadRazorpayCheckout = (): Promise<RazorpayConstructor> => {
+    const existing = (window as unknown as { Razorpay?: RazorpayConstructor })
+        .Razorpay
+    if (existing) return Promise.resolve(existing)
+    if (checkoutScript) return checkoutScript
+
+    checkoutScript = new Promise<RazorpayConstructor>((resolve, reject) => {
+        const script = document.createElement("script")
+        script.src = RAZORPAY_CHECKOUT_URL
+        script.async = true
+        script.onload = () => {
+            const loaded = (window as unknown as { Razorpay?: RazorpayConstructor })
+                .Razorpay
+            if (loaded) resolve(loaded)
+            else reject(new NetworkError({ endpoint: RAZORPAY_CHECKOUT_URL }))
+        }
+        script.onerror = (event) => {
+            checkoutScript = null // Allow another attempt
+            reject(new NetworkError({ endpoint: RAZORPAY_CHECKOUT_URL, cause: event }))
+        }
+        document.head.appendChild(script)
+    })
+    return checkoutScript
+}
+
+/**
+ * Create a Razorpay-style gateway. Orders, signature checks, status and
+ * refunds go through our API, which holds the key secret; checkout runs
+ * in Razorpay's hosted modal.
+ * @param {RazorpayGatewayOptions} options - Key, client and checkout branding
+ * @returns {PaymentGateway} Payment gateway
+ */
+export function createRazorpayGateway({
+    keyId,
+    client = defaultApiClient,
+    merchantName = "Kabira Mobility",
+    themeColor,
+    loadCheckout = loadRazorpayCheckout,
+}: RazorpayGatewayOptions): PaymentGateway {
+    const name = "razorpay"
+
+    const post = <T>(endpoint: string, body: object) =>
+        client.request<T>(endpoint, {
+            method: "POST",
+            body: JSON.stringify(body),
+        })
+
+    const getStatus = async (orderId: string): Promise<PaymentStatusResult> => {
+        const response = await client.request<ApiPaymentStatus>(
+            `/payments/orders/${encodeURIComponent(orderId)}`
+        )
+        return {
+            orderId: response.order_id,
+            status: response.status,
+            paymentId: response.payment_id,
+            failureReason: response.failure_reason,
+        }
+    }
+
+    return {
+        name,
+        async createOrder(request) {
+            const response = await post<ApiPaymentOrder>("/payments/orders", {
+                amount_paise: toPaise(request.amount),
+                currency: request.currency || DEFAULT_CURRENCY,
+                receipt: request.receipt,
+                notes: request.notes,
+            })
+            return {
+                orderId: response.order_id,
+                amount: toRupees(response.amount_paise),
+                currency: response.currency,
+                receipt: response.receipt,
+                status: response.status,
+                gateway: name,
+                customer: request.customer,
+                description: request.description,
+            }
+        },
+        async openCheckout(order) {
+            const Razorpay = await loadCheckout()
+            return new Promise<CheckoutResult>((resolve) => {
+                // Razorpay keeps the modal open after a failed attempt so the
+                // customer can retry; only a success or closing the modal ends it
+                let lastFailure: CheckoutResult | null = null
+                const checkout = new Razorpay({
+                    key: keyId,
+                    order_id: order.orderId,
+                    amount: toPaise(order.amount),
+                    currency: order.currency,
+                    name: merchantName,
+                    description: order.description,
+                    prefill: {
+                        name: order.customer?.name,
+                        email: order.customer?.email,
+                        contact: order.customer?.phone,
+                    },
+                    theme: themeColor ? { color: themeColor } : undefined,
+                    handler: (response: RazorpaySuccess) =>
+                        resolve({
+                            status: "success",
+                            orderId: response.razorpay_order_id,
+                            paymentId: response.razorpay_payment_id,
+                            signature: response.razorpay_signature,
+                        }),
+                    modal: {
+                        ondismiss: () =>
+                            resolve(
+                                lastFailure ?? {
+                                    status: "cancelled",
+                                    orderId: order.orderId,
+                                }
+                            ),
+                    },
+                })
+                checkout.on("payment.failed", (response) => {
+                    lastFailure = {
+                        status: "failed",
+                        orderId: order.orderId,
+                        paymentId: response.error?.metadata?.payment_id,
+                        reason:
+                            response.error?.description || "Payment failed",
+                    }
+                })
+                checkout.open()
+            })
+        },
+        async verifySignature({ orderId, paymentId, signature }) {
+            const response = await post<{ verified: boolean }>(
+                "/payments/verify",
+                { order_id: orderId, payment_id: paymentId, signature }
+            )
+            return response.verified === true
+        },
+        pollStatus(orderId, options) {
+            return pollUntilSettled(() => getStatus(orderId), options)
+        },
+        async refund(paymentId, amount) {
+            const response = await post<ApiRefund>(
+                `/payments/${encodeURIComponent(paymentId)}/refunds`,
+                { amount_paise: amount === undefined ? undefined : toPaise(amount) }
+            )
+            return {
+                refundId: response.refund_id,
+                paymentId: response.payment_id,
+                amount: toRupees(response.amount_paise),
+                status: response.status,
+            }
+        },
+    }
+}
+
+// --- Simulator ---
+
+export type PaymentScenario = "success" | "failure" | "pending" | "cancelled"
+
+export interface SimulatedGatewayOptions {
+    /** Outcome of every checkout, or a function choosing one per order */
+    scenario?: PaymentScenario | ((order: PaymentOrder) => PaymentScenario)
+    /** How a "pending" payment eventually settles (default "paid") */
+    pendingSettlesAs?: "paid" | "failed"
+    /** Status checks a pending payment stays pending for (default 2) */
+    pendingPolls?: number
+    /** Simulated network delay in ms (default 0) */
+    latencyMs?: number
+}
+
+/**
+ * Create an in-memory gateway with a chosen outcome. Ids count up
+ * ("sim_order_1", "sim_pay_1") and signatures are derived from them, so
+ * runs are deterministic.
+ * @param {SimulatedGatewayOptions} [options] - Scenario and timings
+ * @returns {PaymentGateway} Payment gateway
+ */
+export function createSimulatedGateway({
+    scenario = "success",
+    pendingSettlesAs = "paid",
+    pendingPolls = 2,
+    latencyMs = 0,
+}: SimulatedGatewayOptions = {}): PaymentGateway {
+    const name = "simulator"
+    const orders = new Map<
+        string,
+        {
+            order: PaymentOrder
+            paymentId?: string
+            failureReason?: string
+            pollsLeft: number
+            refunded: number
+        }
+    >()
+    const orderIdByPayment = new Map<string, string>()
+    let nextOrder = 1
+    let nextPayment = 1
+    let nextRefund = 1
+
+    const settle = () =>
+        latencyMs > 0 ? delay(latencyMs) : Promise.resolve()
+    const sign = (orderId: string, paymentId: string) =>
+        `sim_sig_${orderId}_${paymentId}`
+
+    const getRecord = (orderId: string) => {
+        const record = orders.get(orderId)
+        if (!record) throw new Error(`Unknown order ${orderId}`)
+        return record
+    }
+
+    const getStatus = async (orderId: string): Promise<PaymentStatusResult> => {
+        await settle()
+        const record = getRecord(orderId)
+        if (record.order.status === "pending") {
+            if (record.pollsLeft > 0) {
+                record.pollsLeft--
+            } else {
+                record.order = { ...record.order, status: pendingSettlesAs }
+                if (pendingSettlesAs === "failed") {
+                    record.failureReason = "Payment was declined by the bank"
+                }
+            }
+        }
+        return {
+            orderId,
+            status: record.order.status,
+            paymentId: record.paymentId,
+            failureReason: record.failureReason,
+        }
+    }
+
+    return {
+        name,
+        async createOrder(request) {
+            await settle()
+            const order: PaymentOrder = {
+                orderId: `sim_order_${nextOrder++}`,
+                amount: request.amount,
+                currency: request.currency || DEFAULT_CURRENCY,
+                receipt: request.receipt,
+                status: "created",
+                gateway: name,
+                customer: request.customer,
+                description: request.description,
+            }
+            orders.set(order.orderId, { order, pollsLeft: pendingPolls, refunded: 0 })
+            return order
+        },
+        async openCheckout(order) {
+            await settle()
+            const record = getRecord(order.orderId)
+            const outcome =
+                typeof scenario === "function" ? scenario(record.order) : scenario
+            const { orderId } = order
+            if (outcome === "cancelled") {
+                record.order = { ...record.order, status: "cancelled" }
+                return { status: "cancelled", orderId }
+            }
+
+            const paymentId = `sim_pay_${nextPayment++}`
+            record.paymentId = paymentId
+            orderIdByPayment.set(paymentId, orderId)
+            switch (outcome) {
+                case "failure":
+                    record.failureReason = "Payment was declined by the bank"
+                    record.order = { ...record.order, status: "failed" }
+                    return {
+                        status: "failed",
+                        orderId,
+                        paymentId,
+                        reason: record.failureReason,
+                    }
+                case "pending":
+                    record.order = { ...record.order, status: "pending" }
+                    return { status: "pending", orderId, paymentId }
+                default:
+                    record.order = { ...record.order, status: "paid" }
+                    return {
+                        status: "success",
+                        orderId,
+                        paymentId,
+                        signature: sign(orderId, paymentId),
+                    }
+            }
+        },
+        async verifySignature({ orderId, paymentId, signature }) {
+            await settle()
+            return signature === sign(orderId, paymentId)
+        },
+        pollStatus(orderId, options) {
+            return pollUntilSettled(() => getStatus(orderId), {
+                intervalMs: latencyMs,
+                ...options,
+            })
+        },
+        async refund(paymentId, amount) {
+            await settle()
+            const orderId = orderIdByPayment.get(paymentId)
+            const record = orderId ? orders.get(orderId) : undefined
+            if (!record || record.order.status !== "paid") {
+                throw new Error(`Payment ${paymentId} can't be refunded`)
+            }
+            const refundable = record.order.amount - record.refunded
+            const refundAmount = Math.min(amount ?? refundable, refundable)
+            record.refunded += refundAmount
+            if (record.refunded >= record.order.amount) {
+                record.order = { ...record.order, status: "refunded" }
+            }
+            return {
+                refundId: `sim_rfnd_${nextRefund++}`,
+                paymentId,
+                amount: refundAmount,
+                status: "processed",
+            }
+        },
+    }
+}
+
+// --- Default Gateway ---
+
+/**
+ * Gateway used when none is passed: the simulator when VITE_PAYMENT_GATEWAY
+ * is "simulator", otherwise Razorpay with VITE_RAZORPAY_KEY_ID
+ * @param {ApiClient} [client=defaultApiClient] - Client for payment endpoints
+ * @returns {PaymentGateway} Payment gateway
+ * @throws {Error} When Razorpay is selected but VITE_RAZORPAY_KEY_ID is not set
+ */
+export const getDefaultPaymentGateway = (
+    client: ApiClient = defaultApiClient
+): PaymentGateway => {
+    if (import.meta.env.VITE_PAYMENT_GATEWAY === "simulator") {
+        return createSimulatedGateway()
+    }
+    const keyId = import.meta.env.VITE_RAZORPAY_KEY_ID?.trim()
+    if (!keyId) {
+        throw new Error(
+            "getDefaultPaymentGateway: VITE_RAZORPAY_KEY_ID is not configured"
+        )
+    }
+    return createRazorpayGateway({ keyId, client })
+}
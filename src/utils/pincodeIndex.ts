@@ -0,0 +1,231 @@
+// src/utils/pincodeIndex.ts
+
+/**
+ * Sorted interval index over pincode ranges.
+ *
+ * Overlapping ranges are flattened into non-overlapping segments at build
+ * time, each owned by the most specific (narrowest) covering range, so a
+ * lookup is a single binary search and always returns at most one entry.
+ * Ties between equally wide ranges go to the one listed first.
+ */
+
+// --- Interfaces ---
+
+export interface PincodeRange<T> {
+    start: number
+    end: number
+    value: T
+}
+
+export interface PincodeRangeOverlap<T> {
+    first: PincodeRange<T>
+    second: PincodeRange<T>
+    /** Inclusive pincode span shared by both ranges */
+    overlapStart: number
+    overlapEnd: number
+}
+
+export interface PincodeRangeGap {
+    /** First uncovered pincode */
+    start: number
+    /** Last uncovered pincode */
+    end: number
+}
+
+export interface PincodeIndexReport<T> {
+    /** Number of valid ranges indexed */
+    rangeCount: number
+    /** Ranges that share pincodes with an earlier-starting range */
+    overlaps: PincodeRangeOverlap<T>[]
+    /** Uncovered spans between the lowest and highest covered pincode */
+    gaps: PincodeRangeGap[]
+}
+
+export interface PincodeIndex<T> {
+    /**
+     * Segment covering a pincode, or null. O(log n).
+     * `value` belongs to the most specific range covering it.
+     */
+    lookup(pincode: number): PincodeRange<T> | null
+    /** Data-quality findings from build time */
+    readonly report: PincodeIndexReport<T>
+    /** Flattened, sorted, non-overlapping segments */
+    readonly segments: ReadonlyArray<PincodeRange<T>>
+}
+
+// --- Min-heap (width, then input order) ---
+
+interface HeapItem<T> {
+    range: PincodeRange<T>
+    order: number
+}
+
+const isMoreSpecific = <T>(a: HeapItem<T>, b: HeapItem<T>): boolean => {
+    const widthA = a.range.end - a.range.start
+    const widthB = b.range.end - b.range.start
+    return widthA !== widthB ? widthA < widthB : a.order < b.order
+}
+
+class SpecificityHeap<T> {
+    private items: HeapItem<T>[] = []
+
+    get size(): number {
+        return this.items.length
+    }
+
+    peek(): HeapItem<T> | undefined {
+        return this.items[0]
+    }
+
+    push(item: HeapItem<T>): void {
+        const items = this.items
+        items.push(item)
+        let i = items.length - 1
+        while (i > 0) {
+            const parent = (i - 1) >> 1
+            if (!isMoreSpecific(items[i], items[parent])) break
+            ;[items[i], items[parent]] = [items[parent], items[i]]
+            i = parent
+        }
+    }
+
+    pop(): HeapItem<T> | undefined {
+        const items = this.items
+        const top = items[0]
+        const last = items.pop()
+        if (items.length > 0 && last) {
+            items[0] = last
+            let i = 0
+            for (;;) {
+                const left = 2 * i + 1
+                const right = left + 1
+                let best = i
+                if (
+                    left < items.length &&
+                    isMoreSpecific(items[left], items[best])
+                ) {
+                    best = left
+                }
+                if (
+                    right < items.length &&
+                    isMoreSpecific(items[right], items[best])
+                ) {
+                    best = right
+                }
+                if (best === i) break
+                ;[items[i], items[best]] = [items[best], items[i]]
+                i = best
+            }
+        }
+        return top
+    }
+}
+
+// --- Build ---
+
+const isValidRange = <T>(range: PincodeRange<T>): boolean =>
+    Number.isInteger(range.start) &&
+    Number.isInteger(range.end) &&
+    range.start <= range.end
+
+/**
+ * Build an interval index. O(n log n).
+ * @param {PincodeRange<T>[]} ranges - Ranges in priority order for ties
+ * @returns {PincodeIndex<T>} Index with lookup and a build report
+ * @template T Value carried by each range (e.g. an ApiPricing row)
+ */
+export function buildPincodeIndex<T>(
+    ranges: PincodeRange<T>[]
+): PincodeIndex<T> {
+    const items: HeapItem<T>[] = ranges
+        .filter(isValidRange)
+        .map((range, order) => ({ range, order }))
+        .sort((a, b) => a.range.start - b.range.start || a.order - b.order)
+
+    // Overlaps: compare each range with the furthest-reaching earlier one
+    const overlaps: PincodeRangeOverlap<T>[] = []
+    let reach: HeapItem<T> | null = null
+    items.forEach((item) => {
+        if (reach && item.range.start <= reach.range.end) {
+            overlaps.push({
+                first: reach.range,
+                second: item.range,
+                overlapStart: item.range.start,
+                overlapEnd: Math.min(reach.range.end, item.range.end),
+            })
+        }
+        if (!reach || item.range.end > reach.range.end) reach = item
+    })
+
+    // Sweep every boundary, keeping the most specific active range on top
+    const boundaries = Array.from(
+        new Set(items.flatMap((item) => [item.range.start, item.range.end + 1]))
+    ).sort((a, b) => a - b)
+
+    const segments: PincodeRange<T>[] = []
+    const heap = new SpecificityHeap<T>()
+    let next = 0
+    for (let i = 0; i < boundaries.length - 1; i++) {
+        const segmentStart = boundaries[i]
+        const segmentEnd = boundaries[i + 1] - 1
+        while (
+            next < items.length &&
+            items[next].range.start === segmentStart
+        ) {
+            heap.push(items[next++])
+        }
+        while (heap.size > 0 && heap.peek()!.range.end < segmentStart) {
+            heap.pop() // Lazily drop ranges that ended before this segment
+        }
+        const owner = heap.peek()
+        if (!owner) continue
+
+        const previous = segments[segments.length - 1]
+        if (
+            previous &&
+            previous.value === owner.range.value &&
+            previous.end + 1 === segmentStart
+        ) {
+            previous.end = segmentEnd // Extend rather than split
+        } else {
+            segments.push({
+                start: segmentStart,
+                end: segmentEnd,
+                value: owner.range.value,
+            })
+        }
+    }
+
+    const gaps: PincodeRangeGap[] = []
+    for (let i = 1; i < segments.length; i++) {
+        if (segments[i].start > segments[i - 1].end + 1) {
+            gaps.push({
+                start: segments[i - 1].end + 1,
+                end: segments[i].start - 1,
+            })
+        }
+    }
+
+    const lookup = (pincode: number): PincodeRange<T> | null => {
+        let low = 0
+        let high = segments.length - 1
+        while (low <= high) {
+            const mid = (low + high) >> 1
+            const segment = segments[mid]
+            if (pincode < segment.start) {
+                high = mid - 1
+            } else if (pincode > segment.end) {
+                low = mid + 1
+            } else {
+                return segment
+            }
+        }
+        return null
+    }
+
+    return {
+        lookup,
+        segments,
+        report: { rangeCount: items.length, overlaps, gaps },
+    }
+}
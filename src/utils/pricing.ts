@@ -0,0 +1,375 @@
+// src/utils/pricing.ts
+import type { ApiComponent, ApiPricing } from "./api"
+import {
+    Catalogue,
+    selectComponent,
+    selectIncentivesForModel,
+    selectInsurancePlan,
+    selectInsuranceProvider,
+    selectModel,
+    selectPricingForModel,
+    selectRequiredComponents,
+    selectVariant,
+    toKey,
+} from "./catalogue"
+import {
+    AppliedIncentive,
+    IncentiveSummary,
+    calculateIncentives,
+} from "./incentives"
+import { PromoApplication, PromoRule, applyPromos } from "./promo"
+import {
+    InsurancePremium,
+    InsuranceSelection,
+    calculateInsurancePremium,
+} from "./insurance"
+
+/**
+ * Location-aware pricing.
+ *
+ * A model can have many ApiPricing rows. The row used for a customer is
+ * resolved from their location in order of specificity: pincode range,
+ * then city, then state. The resolved row feeds a quote with a
+ * line-item breakdown, including insurance when a plan is chosen and
+ * promo discounts on the vehicle (never on the insurance premium). EV
+ * incentives for the row's state are kept apart from the total; subsidies
+ * give the effective on-road price. Road-tax and registration waivers are
+ * listed on their own: the quote doesn't charge those, so there's nothing
+ * here for them to offset.
+ */
+
+// --- Interfaces ---
+
+type Id = number | string
+
+export interface PricingLocation {
+    pincode?: string | number | null
+    city?: string | null
+    state?: string | null
+}
+
+export type PricingMatch = "pincode" | "city" | "state"
+
+export interface ResolvedPricing {
+    row: ApiPricing
+    matchedBy: PricingMatch
+}
+
+export type QuoteLineItemKind =
+    | "base"
+    | "variant"
+    | "component"
+    | "fulfillment"
+    | "insurance"
+    | "discount"
+    | "incentive"
+
+export interface QuoteLineItem {
+    /** Stable key, e.g. `component:12` */
+    id: string
+    kind: QuoteLineItemKind
+    label: string
+    amount: number
+    /** Set for components that can't be removed */
+    required?: boolean
+    /** Title of the package a component comes with at no extra cost */
+    includedIn?: string
+}
+
+export interface QuoteRequest {
+    modelId: Id
+    variantId?: Id | null
+    /** Optional components picked by the customer; required ones are added automatically */
+    componentIds?: Id[]
+    location: PricingLocation
+    /** Chosen insurance plan and add-ons; omitted or null for none */
+    insurance?: InsuranceSelection | null
+    /** Validated promo codes, in the order entered; re-checked against this configuration */
+    promos?: PromoRule[]
+}
+
+export interface Quote {
+    modelId: Id
+    pricing: ResolvedPricing
+    lineItems: QuoteLineItem[]
+    basePrice: number
+    variantAddition: number
+    componentsTotal: number
+    fulfillmentFee: number
+    /** Base price plus the variant addition; what insurance is priced on */
+    exShowroomPrice: number
+    /** Premium breakdown, when a plan offered on the model was chosen */
+    insurance: InsurancePremium | null
+    /** Promo codes that apply and those that no longer do */
+    promos: PromoApplication
+    discount: number
+    /** Total before the promo discount, for showing the original price */
+    totalBeforeDiscount: number
+    /** Amount payable after discounts; incentives are not deducted */
+    total: number
+    /** Incentives for the pricing row's state */
+    incentives: IncentiveSummary
+    /** One negative line per applied subsidy, separate from lineItems */
+    incentiveItems: QuoteLineItem[]
+    /** One negative line per road-tax or registration waiver; informational, never deducted */
+    waiverItems: QuoteLineItem[]
+    /** Total less subsidies: what the vehicle costs the customer in the end */
+    effectiveOnRoadPrice: number
+}
+
+// --- Helpers ---
+
+const normalizeText = (value?: string | null): string =>
+    (value || "").trim().toLowerCase()
+
+/**
+ * Parse a pincode from user input
+ * @param {string | number | null} [pincode] - Raw pincode
+ * @returns {number | null} 6-digit pincode or null
+ */
+export const parsePincode = (
+    pincode?: string | number | null
+): number | null => {
+    if (pincode === null || pincode === undefined) return null
+    const cleaned = String(pincode).replace(/\D/g, "")
+    return /^\d{6}$/.test(cleaned) ? parseInt(cleaned, 10) : null
+}
+
+/**
+ * Whether a pricing row's range covers a pincode
+ */
+export const rowCoversPincode = (row: ApiPricing, pincode: number): boolean =>
+    row.pincode_start !== undefined &&
+    row.pincode_end !== undefined &&
+    row.pincode_start <= pincode &&
+    row.pincode_end >= pincode
+
+const rangeWidth = (row: ApiPricing): number =>
+    (row.pincode_end ?? 0) - (row.pincode_start ?? 0)
+
+// --- Resolution ---
+
+/**
+ * Resolve the pricing row for a model at a location.
+ * Pincode ranges win (narrowest range first), then an exact city match,
+ * then a state-wide row.
+ * @param {Catalogue} catalogue - Indexed catalogue
+ * @param {Id} modelId - Model id
+ * @param {PricingLocation} location - Customer location
+ * @returns {ResolvedPricing | null} Matched row, or null if the location isn't priced
+ */
+export function resolvePricing(
+    catalogue: Catalogue,
+    modelId: Id,
+    location: PricingLocation
+): ResolvedPricing | null {
+    const rows = selectPricingForModel(catalogue, modelId)
+    if (rows.length === 0) return null
+
+    const pincode = parsePincode(location.pincode)
+    if (pincode !== null) {
+        const byRange = rows
+            .filter((row) => rowCoversPincode(row, pincode))
+            .sort((a, b) => rangeWidth(a) - rangeWidth(b))
+        if (byRange.length > 0) return { row: byRange[0], matchedBy: "pincode" }
+    }
+
+    const city = normalizeText(location.city)
+    const state = normalizeText(location.state)
+
+    if (city) {
+        const byCity = rows.find(
+            (row) =>
+                normalizeText(row.city) === city &&
+                (!state || !row.state || normalizeText(row.state) === state)
+        )
+        if (byCity) return { row: byCity, matchedBy: "city" }
+    }
+
+    if (state) {
+        // Prefer a state-wide row (no city) over an arbitrary city in the state
+        const inState = rows.filter((row) => normalizeText(row.state) === state)
+        const stateWide = inState.find((row) => !row.city) ?? inState[0]
+        if (stateWide) return { row: stateWide, matchedBy: "state" }
+    }
+
+    return null
+}
+
+// --- Quote ---
+
+/**
+ * Build a full quote for a configuration at a location
+ * @param {Catalogue} catalogue - Indexed catalogue
+ * @param {QuoteRequest} request - Model, variant, components and location
+ * @returns {Quote | null} Quote, or null if the model or location can't be priced
+ */
+export function buildQuote(
+    catalogue: Catalogue,
+    request: QuoteRequest
+): Quote | null {
+    const model = selectModel(catalogue, request.modelId)
+    if (!model) return null
+
+    const pricing = resolvePricing(catalogue, request.modelId, request.location)
+    if (!pricing) return null
+
+    const modelKey = toKey(model.id)
+    const lineItems: QuoteLineItem[] = []
+
+    const basePrice = pricing.row.base_price || 0
+    lineItems.push({
+        id: `base:${model.id}`,
+        kind: "base",
+        label: model.name,
+        amount: basePrice,
+    })
+
+    let variantAddition = 0
+    let batteryKwh: number | undefined
+    if (request.variantId !== undefined && request.variantId !== null) {
+        const variant = selectVariant(catalogue, request.variantId)
+        if (variant && toKey(variant.model_id) === modelKey) {
+            variantAddition = variant.price_addition || 0
+            batteryKwh = variant.battery_kwh
+            lineItems.push({
+                id: `variant:${variant.id}`,
+                kind: "variant",
+                label: variant.title,
+                amount: variantAddition,
+            })
+        }
+    }
+
+    // Required components first, then the customer's picks, without duplicates
+    const picked = (request.componentIds || [])
+        .map((id) => selectComponent(catalogue, id))
+        .filter((c): c is ApiComponent => !!c && toKey(c.model_id) === modelKey)
+    const componentKeys = new Set<string>()
+    const components = [
+        ...selectRequiredComponents(catalogue, model.id),
+        ...picked,
+    ].filter((c) => {
+        if (componentKeys.has(toKey(c.id))) return false
+        componentKeys.add(toKey(c.id))
+        return true
+    })
+
+    // Contents of a selected package are priced into the package
+    const packageByContent = new Map<string, ApiComponent>()
+    components.forEach((component) =>
+        (component.includes || []).forEach((id) => {
+            if (toKey(id) !== toKey(component.id) && !packageByContent.has(toKey(id))) {
+                packageByContent.set(toKey(id), component)
+            }
+        })
+    )
+
+    let componentsTotal = 0
+    components.forEach((component) => {
+        const bundle = packageByContent.get(toKey(component.id))
+        const amount = bundle ? 0 : component.price || 0
+        componentsTotal += amount
+        lineItems.push({
+            id: `component:${component.id}`,
+            kind: "component",
+            label: component.title,
+            amount,
+            required: !!component.is_required,
+            includedIn: bundle?.title,
+        })
+    })
+
+    const fulfillmentFee = pricing.row.fulfillment_fee || 0
+    if (fulfillmentFee) {
+        lineItems.push({
+            id: `fulfillment:${pricing.row.id}`,
+            kind: "fulfillment",
+            label: "Fulfillment fee",
+            amount: fulfillmentFee,
+        })
+    }
+
+    const exShowroomPrice = basePrice + variantAddition
+    const vehicleTotal =
+        basePrice + variantAddition + componentsTotal + fulfillmentFee
+
+    const promos = applyPromos(request.promos || [], {
+        modelId: model.id,
+        variantId: request.variantId,
+        orderValue: vehicleTotal,
+    })
+    promos.applied.forEach((promo) => {
+        lineItems.push({
+            id: `discount:${promo.code}`,
+            kind: "discount",
+            label: promo.description || `Code ${promo.code}`,
+            amount: -promo.discount,
+        })
+    })
+
+    let insurance: InsurancePremium | null = null
+    if (request.insurance) {
+        const plan = selectInsurancePlan(
+            catalogue,
+            model.id,
+            request.insurance.planId
+        )
+        if (plan) {
+            insurance = calculateInsurancePremium(
+                plan,
+                selectInsuranceProvider(catalogue, plan.provider_id),
+                exShowroomPrice,
+                request.insurance.addOns
+            )
+            lineItems.push({
+                id: `insurance:${plan.id}`,
+                kind: "insurance",
+                label: insurance.providerName
+                    ? `${insurance.providerName} ${plan.title}`
+                    : plan.title,
+                amount: insurance.total,
+            })
+        }
+    }
+
+    const totalBeforeDiscount = vehicleTotal + (insurance?.total ?? 0)
+    const total = totalBeforeDiscount - promos.discount
+
+    const incentives = calculateIncentives(
+        selectIncentivesForModel(catalogue, model.id),
+        { state: pricing.row.state, exShowroomPrice, batteryKwh }
+    )
+    const toIncentiveItem = (item: AppliedIncentive): QuoteLineItem => ({
+        id: `incentive:${item.id}`,
+        kind: "incentive",
+        label: item.name,
+        amount: -item.amount,
+    })
+    const incentiveItems = incentives.applied
+        .filter((item) => item.kind === "subsidy")
+        .map(toIncentiveItem)
+    const waiverItems = incentives.applied
+        .filter((item) => item.kind !== "subsidy")
+        .map(toIncentiveItem)
+
+    return {
+        modelId: model.id,
+        pricing,
+        lineItems,
+        basePrice,
+        variantAddition,
+        componentsTotal,
+        fulfillmentFee,
+        exShowroomPrice,
+        insurance,
+        promos,
+        discount: promos.discount,
+        totalBeforeDiscount,
+        total,
+        incentives,
+        incentiveItems,
+        waiverItems,
+        effectiveOnRoadPrice: Math.max(0, total - incentives.subsidyTotal),
+    }
+}
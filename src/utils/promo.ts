@@ -0,0 +1,435 @@
+// src/utils/promo.ts
+import { ApiClient, defaultApiClient } from "./apiClient"
+import { HttpError } from "./apiErrors"
+import { toIsoDateString } from "./formatting"
+
+/**
+ * Coupon, referral and promo codes.
+ *
+ * A PromoRule describes the discount (a percentage with an optional cap, or
+ * a flat amount) and when it applies: minimum order value, model/variant
+ * restrictions, validity dates and whether it stacks. Codes are validated
+ * by a PromoService (the API, or a local stand-in with the same rules);
+ * the validated rules then travel with the quote request, so the discount
+ * is re-checked whenever the configuration or total changes.
+ *
+ * Stacking: a code that isn't stackable can't be combined with any other,
+ * and at most one code of each type (coupon, referral, promo) applies.
+ */
+
+// --- Interfaces ---
+
+type Id = number | string
+
+export type PromoType = "coupon" | "referral" | "promo"
+
+export type PromoDiscountType = "percentage" | "flat"
+
+export interface PromoRule {
+    /** Normalised code (see normalizePromoCode) */
+    code: string
+    type: PromoType
+    discountType: PromoDiscountType
+    /** Percent for "percentage", rupees for "flat" */
+    value: number
+    /** Cap on a percentage discount */
+    maxDiscount?: number
+    minOrderValue?: number
+    /** Models the code is limited to; any model when absent */
+    modelIds?: Id[]
+    /** Variants the code is limited to; any variant when absent */
+    variantIds?: Id[]
+    /** ISO date, inclusive */
+    validFrom?: string
+    /** ISO date, inclusive */
+    validUntil?: string
+    /** Whether the code combines with other stackable codes (default false) */
+    stackable?: boolean
+    description?: string
+}
+
+export interface PromoContext {
+    modelId: Id
+    variantId?: Id | null
+    /** Amount the discount is worked out on */
+    orderValue: number
+    /** Date the code is checked for (default now) */
+    asOf?: Date
+}
+
+export type PromoRejectionReason =
+    | "not_found"
+    | "not_started"
+    | "expired"
+    | "min_order"
+    | "not_applicable"
+    | "not_stackable"
+    | "duplicate"
+
+export interface PromoRejection {
+    code: string
+    reason: PromoRejectionReason
+    message: string
+}
+
+export interface AppliedPromo {
+    code: string
+    type: PromoType
+    description?: string
+    discount: number
+}
+
+export interface PromoApplication {
+    /** Codes that apply, in the order they were entered */
+    applied: AppliedPromo[]
+    /** Codes that no longer apply to the current configuration */
+    rejected: PromoRejection[]
+    /** Sum of the applied discounts, never more than the order value */
+    discount: number
+}
+
+export type PromoValidationResult =
+    | { status: "valid"; rule: PromoRule; discount: number }
+    | ({ status: "rejected" } & PromoRejection)
+
+export interface PromoService {
+    validate(code: string, context: PromoContext): Promise<PromoValidationResult>
+}
+
+export const PROMO_REJECTION_MESSAGES: Record<PromoRejectionReason, string> = {
+    not_found: "This code isn't valid.",
+    not_started: "This code isn't active yet.",
+    expired: "This code has expired.",
+    min_order: "Your order doesn't meet the minimum value for this code.",
+    not_applicable: "This code doesn't apply to the selected vehicle.",
+    not_stackable: "This code can't be combined with the codes already applied.",
+    duplicate: "This code is already applied.",
+}
+
+// --- Rules ---
+
+/**
+ * Normalise a code as typed by the customer
+ * @param {string} code - Raw code
+ * @returns {string} Upper-case code without spaces
+ */
+export const normalizePromoCode = (code: string): string =>
+    code.replace(/\s+/g, "").toUpperCase()
+
+const includesId = (ids: Id[], id: Id): boolean =>
+    ids.some((item) => String(item).trim() === String(id).trim())
+
+const reject = (code: string, reason: PromoRejectionReason): PromoRejection => ({
+    code,
+    reason,
+    message: PROMO_REJECTION_MESSAGES[reason],
+})
+
+/**
+ * Discount a rule gives on an order value
+ * @param {PromoRule} rule - Promo rule
+ * @param {number} orderValue - Amount the discount is worked out on
+ * @returns {number} Discount in rupees, rounded and never above the order value
+ */
+export function calculatePromoDiscount(
+    rule: PromoRule,
+    orderValue: number
+): number {
+    const value = Math.max(0, orderValue || 0)
+    let discount =
+        rule.discountType === "percentage"
+            ? (value * Math.max(0, rule.value)) / 100
+            : Math.max(0, rule.value)
+    if (rule.discountType === "percentage" && rule.maxDiscount !== undefined) {
+        discount = Math.min(discount, rule.maxDiscount)
+    }
+    return Math.round(Math.min(discount, value))
+}
+
+/**
+ * Check a rule against the configuration and date
+ * @param {PromoRule} rule - Promo rule
+ * @param {PromoContext} context - Model, variant, order value and date
+ * @returns {PromoRejection | null} Why the code doesn't apply, or null
+ */
+export function checkPromoRule(
+    rule: PromoRule,
+    context: PromoContext
+): PromoRejection | null {
+    const today = toIsoDateString(context.asOf ?? new Date())
+    if (rule.validFrom && today < rule.validFrom.slice(0, 10)) {
+        return reject(rule.code, "not_started")
+    }
+    if (rule.validUntil && today > rule.validUntil.slice(0, 10)) {
+        return reject(rule.code, "expired")
+    }
+    if (rule.modelIds?.length && !includesId(rule.modelIds, context.modelId)) {
+        return reject(rule.code, "not_applicable")
+    }
+    if (
+        rule.variantIds?.length &&
+        (context.variantId === undefined ||
+            context.variantId === null ||
+            !includesId(rule.variantIds, context.variantId))
+    ) {
+        return reject(rule.code, "not_applicable")
+    }
+    if (
+        rule.minOrderValue !== undefined &&
+        context.orderValue < rule.minOrderValue
+    ) {
+        return reject(rule.code, "min_order")
+    }
+    return null
+}
+
+/**
+ * Check whether a rule can join the codes already applied
+ * @param {PromoRule} rule - Code being added
+ * @param {PromoRule[]} applied - Codes already applied
+ * @returns {PromoRejection | null} Why it can't be added, or null
+ */
+export function checkPromoStacking(
+    rule: PromoRule,
+    applied: PromoRule[]
+): PromoRejection | null {
+    if (applied.some((other) => other.code === rule.code)) {
+        return reject(rule.code, "duplicate")
+    }
+    if (
+        applied.length > 0 &&
+        (!rule.stackable ||
+            applied.some((other) => !other.stackable || other.type === rule.type))
+    ) {
+        return reject(rule.code, "not_stackable")
+    }
+    return null
+}
+
+/**
+ * Apply codes to an order, in order, dropping those that don't apply
+ * @param {PromoRule[]} rules - Validated codes, in the order entered
+ * @param {PromoContext} context - Model, variant, order value and date
+ * @returns {PromoApplication} Applied and rejected codes with the total discount
+ */
+export function applyPromos(
+    rules: PromoRule[],
+    context: PromoContext
+): PromoApplication {
+    const accepted: PromoRule[] = []
+    const applied: AppliedPromo[] = []
+    const rejected: PromoRejection[] = []
+    let remaining = Math.max(0, context.orderValue || 0)
+
+    rules.forEach((rule) => {
+        const rejection =
+            checkPromoRule(rule, context) ?? checkPromoStacking(rule, accepted)
+        if (rejection) {
+            rejected.push(rejection)
+            return
+        }
+        // Each code is worked out on the full order, but the total can't go below zero
+        const discount = Math.min(
+            calculatePromoDiscount(rule, context.orderValue),
+            remaining
+        )
+        remaining -= discount
+        accepted.push(rule)
+        applied.push({
+            code: rule.code,
+            type: rule.type,
+            description: rule.description,
+            discount,
+        })
+    })
+
+    return {
+        applied,
+        rejected,
+        discount: applied.reduce((sum, promo) => sum + promo.discount, 0),
+    }
+}
+
+// --- API Service ---
+
+/** Promo as sent by the API */
+interface ApiPromo {
+    code: string
+    type?: PromoType
+    discount_type: PromoDiscountType
+    value: number
+    max_discount?: number
+    min_order_value?: number
+    model_ids?: Id[]
+    variant_ids?: Id[]
+    valid_from?: string
+    valid_until?: string
+    stackable?: boolean
+    description?: string
+}
+
+interface ApiPromoValidateResponse {
+    status: "success" | "error"
+    valid: boolean
+    promo?: ApiPromo
+    reason?: PromoRejectionReason
+    message?: string
+}
+
+const toPromoRule = (promo: ApiPromo): PromoRule => ({
+    code: normalizePromoCode(promo.code),
+    type: promo.type || "promo",
+    discountType: promo.discount_type,
+    value: Number(promo.value) || 0,
+    maxDiscount: promo.max_discount,
+    minOrderValue: promo.min_order_value,
+    modelIds: promo.model_ids,
+    variantIds: promo.variant_ids,
+    validFrom: promo.valid_from,
+    validUntil: promo.valid_until,
+    stackable: promo.stackable,
+    description: promo.description,
+})
+
+/**
+ * Create a promo service backed by the booking engine API (POST /promos/validate)
+ * @param {ApiClient} [client=defaultApiClient] - Client the requests are routed through
+ * @returns {PromoService} Promo service
+ */
+export function createApiPromoService(
+    client: ApiClient = defaultApiClient
+): PromoService {
+    return {
+        async validate(rawCode, context) {
+            const code = normalizePromoCode(rawCode)
+            let response: ApiPromoValidateResponse
+            try {
+                response = await client.request<ApiPromoValidateResponse>(
+                    "/promos/validate",
+                    {
+                        method: "POST",
+                        body: JSON.stringify({
+                            code,
+                            model_id: context.modelId,
+                            variant_id: context.variantId ?? null,
+                            order_value: context.orderValue,
+                        }),
+                    }
+                )
+            } catch (error) {
+                // Unknown or rejected codes come back as 404/422 with a JSON body
+                if (
+                    error instanceof HttpError &&
+                    (error.status === 404 || error.status === 422) &&
+                    error.body
+                ) {
+                    response = error.body as ApiPromoValidateResponse
+                } else {
+                    throw error
+                }
+            }
+
+            if (!response.valid || !response.promo) {
+                const reason = response.reason || "not_found"
+                return {
+                    status: "rejected",
+                    code,
+                    reason,
+                    message:
+                        response.message || PROMO_REJECTION_MESSAGES[reason],
+                }
+            }
+            const rule = toPromoRule(response.promo)
+            return {
+                status: "valid",
+                rule,
+                discount: calculatePromoDiscount(rule, context.orderValue),
+            }
+        },
+    }
+}
+
+// --- Local Stand-in ---
+
+/** Sample codes for development and demos */
+export const LOCAL_PROMO_RULES: PromoRule[] = [
+    {
+        code: "WELCOME5",
+        type: "coupon",
+        discountType: "percentage",
+        value: 5,
+        maxDiscount: 5000,
+        stackable: true,
+        description: "5% off, up to ₹5,000",
+    },
+    {
+        code: "FLAT2000",
+        type: "promo",
+        discountType: "flat",
+        value: 2000,
+        minOrderValue: 100000,
+        description: "₹2,000 off orders above ₹1,00,000",
+    },
+    {
+        code: "KMFRIEND",
+        type: "referral",
+        discountType: "flat",
+        value: 1500,
+        stackable: true,
+        description: "₹1,500 off for referred customers",
+    },
+]
+
+export interface LocalPromoServiceOptions {
+    /** Codes the service knows (default LOCAL_PROMO_RULES) */
+    rules?: PromoRule[]
+    /** Simulated network delay in ms (default 0) */
+    latencyMs?: number
+}
+
+/**
+ * Create an in-memory promo service with the same rules as the API
+ * @param {LocalPromoServiceOptions} [options] - Known codes and latency
+ * @returns {PromoService} Promo service
+ */
+export function createLocalPromoService({
+    rules = LOCAL_PROMO_RULES,
+    latencyMs = 0,
+}: LocalPromoServiceOptions = {}): PromoService {
+    const byCode = new Map(
+        rules.map((rule) => [normalizePromoCode(rule.code), rule])
+    )
+
+    return {
+        async validate(rawCode, context) {
+            if (latencyMs > 0) {
+                await new Promise((resolve) => setTimeout(resolve, latencyMs))
+            }
+            const code = normalizePromoCode(rawCode)
+            const rule = byCode.get(code)
+            if (!rule) return { status: "rejected", ...reject(code, "not_found") }
+            const rejection = checkPromoRule(rule, context)
+            if (rejection) return { status: "rejected", ...rejection }
+            return {
+                status: "valid",
+                rule: { ...rule, code },
+                discount: calculatePromoDiscount(rule, context.orderValue),
+            }
+        },
+    }
+}
+
+// --- Default Service ---
+
+/**
+ * Service used when none is passed: the local stand-in when
+ * VITE_PROMO_SERVICE is "local", otherwise the API
+ * @param {ApiClient} [client=defaultApiClient] - Client for the promo endpoint
+ * @returns {PromoService} Promo service
+ */
+export const getDefaultPromoService = (
+    client: ApiClient = defaultApiClient
+): PromoService =>
+    import.meta.env.VITE_PROMO_SERVICE === "local"
+        ? createLocalPromoService()
+        : createApiPromoService(client)
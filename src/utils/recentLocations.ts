@@ -0,0 +1,186 @@
+// src/utils/recentLocations.ts
+import type { LocationFeature } from "./api"
+import { normalizeSearchText } from "./fuzzySearch"
+import { parseLocationFeature } from "./location"
+import { readJson, writeJson } from "./storage"
+
+/**
+ * Recently selected locations, newest first, persisted so returning
+ * customers don't have to type their pincode again. Entries are
+ * deduplicated by pincode (or by name for city-level picks).
+ */
+
+// --- Interfaces ---
+
+export type RecentLocationSource = "recent" | "default"
+
+export interface RecentLocation {
+    /** Dedup key: `pincode:<pincode>` or `place:<normalised name>` */
+    id: string
+    /** The feature as selected, so it can be re-selected as-is */
+    feature: LocationFeature
+    pincode?: string
+    /** "default" entries were pre-seeded for a returning user */
+    source: RecentLocationSource
+    /** Epoch ms of the last selection */
+    selectedAt: number
+}
+
+export const RECENT_LOCATIONS_KEY = "recent-locations"
+export const DEFAULT_MAX_RECENT_LOCATIONS = 5
+
+// --- Helpers ---
+
+/**
+ * Dedup key for a feature
+ * @param {LocationFeature} feature - Location feature
+ * @returns {string} `pincode:<pincode>` or `place:<normalised name>`
+ */
+export const getRecentLocationId = (feature: LocationFeature): string => {
+    const { pincode } = parseLocationFeature(feature)
+    return pincode
+        ? `pincode:${pincode}`
+        : `place:${normalizeSearchText(feature.place_name)}`
+}
+
+const isRecentLocation = (value: unknown): value is RecentLocation => {
+    const entry = value as RecentLocation
+    return (
+        !!entry &&
+        typeof entry.id === "string" &&
+        !!entry.feature &&
+        typeof entry.feature.place_name === "string"
+    )
+}
+
+// --- List Operations ---
+
+/**
+ * Add a selection to the front of the list, replacing an entry for the
+ * same pincode and dropping the oldest beyond `max`
+ * @param {RecentLocation[]} list - Current list, newest first
+ * @param {LocationFeature} feature - Selected feature
+ * @param {object} [options] - Entry source, list cap and clock
+ * @returns {RecentLocation[]} New list
+ */
+export function addRecentLocation(
+    list: RecentLocation[],
+    feature: LocationFeature,
+    {
+        source = "recent",
+        max = DEFAULT_MAX_RECENT_LOCATIONS,
+        now = Date.now(),
+    }: { source?: RecentLocationSource; max?: number; now?: number } = {}
+): RecentLocation[] {
+    const id = getRecentLocationId(feature)
+    const entry: RecentLocation = {
+        id,
+        feature,
+        pincode: parseLocationFeature(feature).pincode,
+        source,
+        selectedAt: now,
+    }
+    return [entry, ...list.filter((item) => item.id !== id)].slice(
+        0,
+        Math.max(0, max)
+    )
+}
+
+/**
+ * Remove an entry by id
+ * @param {RecentLocation[]} list - Current list
+ * @param {string} id - Entry id
+ * @returns {RecentLocation[]} New list
+ */
+export const removeRecentLocation = (
+    list: RecentLocation[],
+    id: string
+): RecentLocation[] => list.filter((item) => item.id !== id)
+
+// --- Persistence ---
+
+/**
+ * Load the persisted list, discarding malformed entries
+ * @param {string} [key=RECENT_LOCATIONS_KEY] - Storage key
+ * @returns {RecentLocation[]} Persisted list, newest first
+ */
+export function loadRecentLocations(
+    key: string = RECENT_LOCATIONS_KEY
+): RecentLocation[] {
+    const stored = readJson<unknown>(key, [])
+    return Array.isArray(stored) ? stored.filter(isRecentLocation) : []
+}
+
+/**
+ * Persist the list
+ * @param {RecentLocation[]} list - List to store
+ * @param {string} [key=RECENT_LOCATIONS_KEY] - Storage key
+ */
+export function saveRecentLocations(
+    list: RecentLocation[],
+    key: string = RECENT_LOCATIONS_KEY
+): void {
+    writeJson(key, list)
+}
+
+// --- Shared Store ---
+
+// Every hook using a key shares one list, so no instance writes back a
+// stale copy over another's changes
+const listCache = new Map<string, RecentLocation[]>()
+const listeners = new Map<string, Set<() => void>>()
+
+/**
+ * The current list for a key, loaded on first use. The array is stable
+ * until the list changes, so it can back useSyncExternalStore.
+ * @param {string} [key=RECENT_LOCATIONS_KEY] - Storage key
+ * @returns {RecentLocation[]} List, newest first
+ */
+export function getRecentLocations(
+    key: string = RECENT_LOCATIONS_KEY
+): RecentLocation[] {
+    let list = listCache.get(key)
+    if (!list) {
+        list = loadRecentLocations(key)
+        listCache.set(key, list)
+    }
+    return list
+}
+
+/**
+ * Listen for changes to the list stored under a key
+ * @param {string} key - Storage key
+ * @param {() => void} listener - Called on every change
+ * @returns {() => void} Unsubscribe function
+ */
+export function subscribeRecentLocations(
+    key: string,
+    listener: () => void
+): () => void {
+    let keyListeners = listeners.get(key)
+    if (!keyListeners) {
+        keyListeners = new Set()
+        listeners.set(key, keyListeners)
+    }
+    keyListeners.add(listener)
+    return () => {
+        keyListeners.delete(listener)
+    }
+}
+
+/**
+ * Change the list stored under a key, persisting and announcing the result
+ * @param {(list: RecentLocation[]) => RecentLocation[]} update - Returns the new list, or the same one for no change
+ * @param {string} [key=RECENT_LOCATIONS_KEY] - Storage key
+ */
+export function updateRecentLocations(
+    update: (list: RecentLocation[]) => RecentLocation[],
+    key: string = RECENT_LOCATIONS_KEY
+): void {
+    const current = getRecentLocations(key)
+    const next = update(current)
+    if (next === current) return
+    listCache.set(key, next)
+    saveRecentLocations(next, key)
+    listeners.get(key)?.forEach((listener) => listener())
+}
@@ -0,0 +1,77 @@
+// src/utils/retry.ts
+
+// --- Interfaces ---
+
+export interface RetryPolicy {
+    /** Number of retries after the first attempt (0 disables retrying) */
+    retries: number
+    /** Delay before the first retry in milliseconds */
+    baseDelayMs: number
+    /** Upper bound for any single delay in milliseconds */
+    maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 2,
+    baseDelayMs: 300,
+    maxDelayMs: 5000,
+}
+
+// --- Helpers ---
+
+/**
+ * Compute a jittered exponential backoff delay ("full jitter").
+ * @param {number} attempt - Zero-based retry number
+ * @param {RetryPolicy} policy - Retry policy
+ * @param {() => number} [random=Math.random] - Random source, injectable for tests
+ * @returns {number} Delay in milliseconds
+ */
+export const computeBackoffDelay = (
+    attempt: number,
+    policy: RetryPolicy,
+    random: () => number = Math.random
+): number => {
+    const ceiling = Math.min(
+        policy.maxDelayMs,
+        policy.baseDelayMs * Math.pow(2, attempt)
+    )
+    return Math.round(random() * ceiling)
+}
+
+/**
+ * Check whether an error was caused by an aborted signal
+ * @param {unknown} error - Error to check
+ * @returns {boolean} Whether the error is an AbortError
+ */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === "AbortError"
+
+/**
+ * Create the error thrown when an operation is cancelled
+ * @returns {DOMException} AbortError
+ */
+export const createAbortError = (): DOMException =>
+    new DOMException("The operation was aborted.", "AbortError")
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ * @param {number} ms - Delay in milliseconds
+ * @param {AbortSignal} [signal] - Optional cancellation signal
+ * @returns {Promise<void>} Resolves after the delay
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError())
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId)
+            reject(createAbortError())
+        }
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener("abort", onAbort, { once: true })
+    })
@@ -0,0 +1,123 @@
+// src/utils/serviceability.ts
+import {
+    ApiPricing,
+    LocationFeature,
+    VehicleData,
+    getPricingPlaceFeature,
+} from "./api"
+import { getCatalogue } from "./catalogue"
+import { parsePincode } from "./pricing"
+
+/**
+ * Serviceability of a pincode against the pricing data.
+ *
+ * An unserviced pincode comes with the nearest serviced cities. Indian
+ * pincodes are assigned geographically (zone, sorting district, post
+ * office), so nearness is judged by the longest shared leading digits
+ * and then by numeric distance to the city's closest pricing range.
+ */
+
+// --- Interfaces ---
+
+export interface NearbyServicedCity {
+    city: string
+    state?: string
+    /** Pricing row of the range closest to the pincode */
+    pricing: ApiPricing
+    /** Selectable feature for the city */
+    feature: LocationFeature
+    /** Leading digits shared with the closest serviced pincode (0-6) */
+    sharedDigits: number
+    /** Numeric gap to the closest serviced pincode */
+    pincodeDistance: number
+}
+
+export interface ServiceabilityResult {
+    pincode: string
+    serviceable: boolean
+    /** Covering pricing row, when serviceable */
+    pricing?: ApiPricing
+    /** Closest serviced cities, when not serviceable */
+    nearestCities: NearbyServicedCity[]
+}
+
+export const DEFAULT_NEAREST_CITY_LIMIT = 3
+
+// --- Helpers ---
+
+const sharedLeadingDigits = (a: number, b: number): number => {
+    const left = String(a).padStart(6, "0")
+    const right = String(b).padStart(6, "0")
+    let shared = 0
+    while (shared < 6 && left[shared] === right[shared]) shared++
+    return shared
+}
+
+// --- Check ---
+
+/**
+ * Check whether a pincode is serviced and, if not, suggest nearby cities
+ * @param {string | number} pincode - Pincode to check
+ * @param {VehicleData | null} vehicleData - Vehicle data containing pricing info
+ * @param {object} [options] - Number of cities to suggest (default 3)
+ * @returns {ServiceabilityResult | null} Result, or null for an invalid pincode
+ *   or when there's no pricing data to check it against
+ */
+export function checkServiceability(
+    pincode: string | number,
+    vehicleData: VehicleData | null,
+    { limit = DEFAULT_NEAREST_CITY_LIMIT }: { limit?: number } = {}
+): ServiceabilityResult | null {
+    const pincodeNum = parsePincode(pincode)
+    if (pincodeNum === null) return null
+    // Without coverage data there's no telling, e.g. a bare remote provider
+    if (!vehicleData || !vehicleData.pricing) return null
+    const normalizedPincode = String(pincodeNum).padStart(6, "0")
+
+    const catalogue = getCatalogue(vehicleData)
+    const covering = catalogue.pincodeIndex.lookup(pincodeNum)
+    if (covering) {
+        return {
+            pincode: normalizedPincode,
+            serviceable: true,
+            pricing: covering.value,
+            nearestCities: [],
+        }
+    }
+
+    // Closest segment per city
+    const byCity = new Map<string, NearbyServicedCity>()
+    catalogue.pincodeIndex.segments.forEach((segment) => {
+        const row = segment.value
+        if (!row.city) return
+        const closest = Math.min(Math.max(pincodeNum, segment.start), segment.end)
+        const candidate: NearbyServicedCity = {
+            city: row.city,
+            state: row.state,
+            pricing: row,
+            feature: getPricingPlaceFeature(row),
+            sharedDigits: sharedLeadingDigits(pincodeNum, closest),
+            pincodeDistance: Math.abs(closest - pincodeNum),
+        }
+        const key = `${row.city}|${row.state || ""}`.toLowerCase()
+        const current = byCity.get(key)
+        if (
+            !current ||
+            candidate.sharedDigits > current.sharedDigits ||
+            (candidate.sharedDigits === current.sharedDigits &&
+                candidate.pincodeDistance < current.pincodeDistance)
+        ) {
+            byCity.set(key, candidate)
+        }
+    })
+
+    const nearestCities = Array.from(byCity.values())
+        .sort(
+            (a, b) =>
+                b.sharedDigits - a.sharedDigits ||
+                a.pincodeDistance - b.pincodeDistance
+        )
+        .slice(0, Math.max(0, limit))
+
+    return { pincode: normalizedPincode, serviceable: false, nearestCities }
+}
@@ -0,0 +1,94 @@
+// src/utils/storage.ts
+
+/**
+ * Namespaced JSON access to localStorage.
+ * Every call tolerates a missing or unusable storage (SSR, private mode,
+ * quota exceeded, corrupted values) and falls back instead of throwing.
+ */
+
+export const STORAGE_PREFIX = "km-booking:"
+
+/**
+ * Get localStorage if it can be used
+ * @returns {Storage | null} Storage, or null when unavailable
+ */
+export const getStorage = (): Storage | null => {
+    try {
+        return typeof window !== "undefined" && window.localStorage
+            ? window.localStorage
+            : null
+    } catch {
+        return null // Access itself throws when storage is disabled
+    }
+}
+
+/**
+ * Read and parse a JSON value
+ * @param {string} key - Key without the namespace prefix
+ * @param {T} fallback - Returned when the key is missing or unreadable
+ * @returns {T} Stored value or fallback
+ * @template T The stored value type
+ */
+export function readJson<T>(key: string, fallback: T): T {
+    const storage = getStorage()
+    if (!storage) return fallback
+    try {
+        const raw = storage.getItem(STORAGE_PREFIX + key)
+        return raw === null ? fallback : (JSON.parse(raw) as T)
+    } catch (error) {
+        console.warn(`Ignoring unreadable stored value "${key}":`, error)
+        return fallback
+    }
+}
+
+/**
+ * Serialize and store a JSON value
+ * @param {string} key - Key without the namespace prefix
+ * @param {unknown} value - JSON-serializable value
+ * @returns {boolean} Whether the value was stored
+ */
+export function writeJson(key: string, value: unknown): boolean {
+    const storage = getStorage()
+    if (!storage) return false
+    try {
+        storage.setItem(STORAGE_PREFIX + key, JSON.stringify(value))
+        return true
+    } catch (error) {
+        console.warn(`Could not store "${key}":`, error)
+        return false
+    }
+}
+
+/**
+ * Remove a stored value
+ * @param {string} key - Key without the namespace prefix
+ */
+export function removeItem(key: string): void {
+    try {
+        getStorage()?.removeItem(STORAGE_PREFIX + key)
+    } catch {
+        // Nothing to clean up if storage is unusable
+    }
+}
+
+/**
+ * List stored keys that start with a prefix
+ * @param {string} [prefix=""] - Key prefix without the namespace prefix
+ * @returns {string[]} Matching keys without the namespace prefix
+ */
+export function listKeys(prefix: string = ""): string[] {
+    const storage = getStorage()
+    if (!storage) return []
+    const keys: string[] = []
+    try {
+        for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i)
+            if (key && key.startsWith(STORAGE_PREFIX + prefix)) {
+                keys.push(key.slice(STORAGE_PREFIX.length))
+            }
+        }
+    } catch {
+        // Treat unusable storage as empty
+    }
+    return keys
+}
@@ -1,4 +1,5 @@
 // src/utils/validation.ts
+import type { SelectedLocation } from "./location"
 
 /**
  * Validate email address format
@@ -79,7 +80,7 @@ interface UserInfoFormData {
 }
 
 interface VehicleConfigFormData {
-    location?: string | null
+    location?: SelectedLocation | null
     selectedVehicle?: string | number | null // Assuming ID
     selectedVariant?: string | number | null // Assuming ID
     selectedColor?: string | number | null // Assuming ID
@@ -153,8 +154,13 @@ export const validateVehicleConfig = (
 ): Record<string, string> => {
     const errors: Record<string, string> = {}
 
-    if (!hasValue(formData.location)) {
+    const location = formData.location
+    if (!location) {
         errors.location = "Please select a delivery location"
+    } else if (!location.pincode && !location.city) {
+        errors.location = "Please choose a location from the suggestions"
+    } else if (!location.serviceable) {
+        errors.location = "We don't deliver to this location yet"
     }
 
     if (!hasValue(formData.selectedVehicle)) {
@@ -172,6 +178,35 @@ export const validateVehicleConfig = (
     return errors
 }
 
+/**
+ * Validate a "notify me when available" request
+ * @param {object} formData - Name, phone and pincode
+ * @returns {Record<string, string>} Object with validation errors, empty if valid
+ */
+export const validateAvailabilityRequest = (formData: {
+    name?: string | null
+    phone?: string | null
+    pincode?: string | null
+}): Record<string, string> => {
+    const errors: Record<string, string> = {}
+
+    if (!hasValue(formData.name)) {
+        errors.name = "Name is required"
+    }
+
+    if (!hasValue(formData.phone)) {
+        errors.phone = "Phone number is required"
+    } else if (!isValidPhone(formData.phone)) {
+        errors.phone = "Please enter a valid 10-digit phone number"
+    }
+
+    if (!isValidPincode(formData.pincode)) {
+        errors.pincode = "Please enter a valid 6-digit pincode"
+    }
+
+    return errors
+}
+
 /**
  * Validate OTP code (6 digits)
  * @param {string} otp - OTP to validate
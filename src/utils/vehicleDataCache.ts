@@ -0,0 +1,200 @@
+// src/utils/vehicleDataCache.ts
+import { ApiClient } from "./apiClient"
+import { EmptyResponseError } from "./apiErrors"
+import {
+    VEHICLE_DATA_ENDPOINT,
+    VehicleData,
+    fetchVehicleDataIfChanged,
+} from "./api"
+import { ValidationReport } from "./vehicleDataSchema"
+import { listKeys, readJson, removeItem, writeJson } from "./storage"
+import { idbDelete, idbGet, idbKeys, idbSet } from "./indexedDb"
+
+/**
+ * Stale-while-revalidate cache for the vehicle catalogue.
+ *
+ * The last good payload is kept in memory and in IndexedDB together with
+ * its ETag (localStorage when IndexedDB is unusable), so a page load, or
+ * a tablet that has lost its connection, can render it immediately and
+ * then ask the server whether it changed (If-None-Match). A 304 only
+ * refreshes `fetchedAt`; the payload object is reused, which keeps the
+ * indexed catalogue from utils/catalogue warm.
+ */
+
+// --- Interfaces ---
+
+export interface VehicleDataCacheEntry {
+    /** Cache format version; entries from other versions are ignored */
+    version: number
+    data: VehicleData
+    report: ValidationReport
+    etag?: string
+    /** Epoch ms the server last confirmed this payload */
+    fetchedAt: number
+}
+
+/** Bump when VehicleData or the entry shape changes incompatibly */
+export const VEHICLE_DATA_CACHE_VERSION = 1
+
+/** How long a payload is served without revalidating */
+export const DEFAULT_VEHICLE_DATA_MAX_AGE_MS = 5 * 60 * 1000
+
+const CACHE_KEY_PREFIX = "vehicle-data:"
+
+const memoryCache = new Map<string, VehicleDataCacheEntry>()
+
+// --- Helpers ---
+
+const isCacheEntry = (value: unknown): value is VehicleDataCacheEntry => {
+    const entry = value as VehicleDataCacheEntry
+    return (
+        !!entry &&
+        entry.version === VEHICLE_DATA_CACHE_VERSION &&
+        typeof entry.fetchedAt === "number" &&
+        !!entry.data &&
+        Array.isArray(entry.data.models) &&
+        !!entry.report
+    )
+}
+
+/**
+ * Cache key for a client's catalogue; one entry per resolved URL
+ * @param {ApiClient} client - Client the catalogue is fetched with
+ * @returns {string} Cache key
+ */
+export const getVehicleDataCacheKey = (client: ApiClient): string =>
+    CACHE_KEY_PREFIX + client.buildUrl(VEHICLE_DATA_ENDPOINT)
+
+// --- Cache Access ---
+
+/**
+ * Read a cached entry synchronously, from memory and then localStorage.
+ * Entries kept in IndexedDB are only seen after loadVehicleDataCache.
+ * @param {string} key - Cache key (see getVehicleDataCacheKey)
+ * @returns {VehicleDataCacheEntry | null} Entry, or null if none is usable
+ */
+export function readVehicleDataCache(key: string): VehicleDataCacheEntry | null {
+    const inMemory = memoryCache.get(key)
+    if (inMemory) return inMemory
+
+    const stored = readJson<unknown>(key, null)
+    if (!isCacheEntry(stored)) return null
+    memoryCache.set(key, stored)
+    return stored
+}
+
+/**
+ * Read a cached entry from memory, IndexedDB or localStorage
+ * @param {string} key - Cache key (see getVehicleDataCacheKey)
+ * @returns {Promise<VehicleDataCacheEntry | null>} Entry, or null if none is usable
+ */
+export async function loadVehicleDataCache(
+    key: string
+): Promise<VehicleDataCacheEntry | null> {
+    const inMemory = memoryCache.get(key)
+    if (inMemory) return inMemory
+
+    const stored = await idbGet<unknown>(key)
+    // Re-check: a fetch may have completed while IndexedDB was read
+    const latest = memoryCache.get(key)
+    if (latest) return latest
+    if (isCacheEntry(stored)) {
+        memoryCache.set(key, stored)
+        return stored
+    }
+    return readVehicleDataCache(key)
+}
+
+/**
+ * Store an entry in memory and persist it in the background
+ * @param {string} key - Cache key (see getVehicleDataCacheKey)
+ * @param {VehicleDataCacheEntry} entry - Entry to store
+ */
+export function writeVehicleDataCache(
+    key: string,
+    entry: VehicleDataCacheEntry
+): void {
+    memoryCache.set(key, entry)
+    void idbSet(key, entry).then((stored) => {
+        // Keep a single persisted copy; a catalogue too big for
+        // localStorage still lives in memory
+        if (stored) removeItem(key)
+        else writeJson(key, entry)
+    })
+}
+
+/**
+ * Drop a cached entry, or every cached catalogue when no key is given
+ * @param {string} [key] - Cache key (see getVehicleDataCacheKey)
+ * @returns {Promise<void>} Resolves once the persisted copies are gone
+ */
+export async function invalidateVehicleDataCache(key?: string): Promise<void> {
+    if (!key) memoryCache.clear()
+    const keys = key
+        ? [key]
+        : [...listKeys(CACHE_KEY_PREFIX), ...(await idbKeys(CACHE_KEY_PREFIX))]
+    await Promise.all(
+        keys.map((item) => {
+            memoryCache.delete(item)
+            removeItem(item)
+            return idbDelete(item)
+        })
+    )
+}
+
+/**
+ * Whether an entry is older than `maxAgeMs` and should be revalidated
+ * @param {VehicleDataCacheEntry} entry - Cached entry
+ * @param {number} [maxAgeMs=DEFAULT_VEHICLE_DATA_MAX_AGE_MS] - Freshness window
+ * @param {number} [now=Date.now()] - Current time
+ * @returns {boolean} True when stale
+ */
+export const isVehicleDataStale = (
+    entry: VehicleDataCacheEntry,
+    maxAgeMs: number = DEFAULT_VEHICLE_DATA_MAX_AGE_MS,
+    now: number = Date.now()
+): boolean => now - entry.fetchedAt >= maxAgeMs
+
+// --- Revalidation ---
+
+/**
+ * Ask the server whether the cached catalogue changed and update the cache.
+ * Sends the cached ETag; a 304 keeps the cached payload.
+ * @param {ApiClient} client - Client to send the request with
+ * @param {AbortSignal} [signal] - Cancels the request
+ * @returns {Promise<VehicleDataCacheEntry>} The current entry
+ */
+export async function revalidateVehicleData(
+    client: ApiClient,
+    signal?: AbortSignal
+): Promise<VehicleDataCacheEntry> {
+    const key = getVehicleDataCacheKey(client)
+    const cached = await loadVehicleDataCache(key)
+
+    let result = await fetchVehicleDataIfChanged(client, signal, cached?.etag)
+    if (result.notModified && !cached) {
+        // Nothing to keep (e.g. evicted meanwhile); fetch unconditionally
+        result = await fetchVehicleDataIfChanged(client, signal)
+    }
+
+    let entry: VehicleDataCacheEntry
+    if (!result.notModified) {
+        entry = {
+            version: VEHICLE_DATA_CACHE_VERSION,
+            data: result.data,
+            report: result.report,
+            etag: result.etag,
+            fetchedAt: Date.now(),
+        }
+    } else if (cached) {
+        entry = {
+            ...cached,
+            etag: result.etag ?? cached.etag,
+            fetchedAt: Date.now(),
+        }
+    } else {
+        throw new EmptyResponseError({ endpoint: VEHICLE_DATA_ENDPOINT })
+    }
+    writeVehicleDataCache(key, entry)
+    return entry
+}
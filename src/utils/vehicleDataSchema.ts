@@ -0,0 +1,703 @@
+// src/utils/vehicleDataSchema.ts
+import type {
+    ApiColor,
+    ApiComponent,
+    ApiFinanceOption,
+    ApiFinanceProvider,
+    ApiIncentive,
+    ApiInsurancePlan,
+    ApiInsuranceProvider,
+    ApiModel,
+    ApiPricing,
+    ApiVariant,
+    VehicleData,
+} from "./api"
+
+/**
+ * Runtime validation for the VehicleData payload.
+ *
+ * Each row is checked against a small field spec. Safe cases are coerced
+ * (numeric strings to numbers, "true"/"false" to booleans), invalid optional
+ * fields are dropped from the row, and rows missing a required field are
+ * dropped entirely. Everything is recorded in a ValidationReport with a
+ * path such as `pricing[12].pincode_start`.
+ *
+ * The finance, insurance and incentive collections are optional: a payload
+ * without them validates clean with no offers, plans or incentives.
+ */
+
+// --- Interfaces ---
+
+export type ValidationIssueKind =
+    | "coerced" // Value was converted to the expected type
+    | "field-dropped" // Optional field was invalid and removed
+    | "row-dropped" // Required field was invalid; row removed
+    | "reference" // Row points at an id that doesn't exist
+    | "duplicate" // Id seen more than once in a collection
+
+export interface ValidationIssue {
+    /** Path to the offending value, e.g. `variants[3].model_id` */
+    path: string
+    kind: ValidationIssueKind
+    message: string
+    /** The raw value as received */
+    value?: unknown
+}
+
+export interface ValidationReport {
+    issues: ValidationIssue[]
+    /** Rows received per collection */
+    receivedRows: Record<CollectionName, number>
+    /** Rows kept per collection after validation */
+    keptRows: Record<CollectionName, number>
+    /** True when no issue of any kind was found */
+    isClean: boolean
+}
+
+export interface ValidatedVehicleData {
+    data: VehicleData
+    report: ValidationReport
+}
+
+type CollectionName =
+    | "models"
+    | "variants"
+    | "colors"
+    | "components"
+    | "pricing"
+    | "finance_providers"
+    | "finance_options"
+    | "insurance_providers"
+    | "insurance_plans"
+    | "incentives"
+
+type FieldKind = "id" | "ids" | "string" | "number" | "boolean" | "pincode"
+
+interface FieldSpec {
+    kind: FieldKind
+    required?: boolean
+}
+
+type RowSpec = Record<string, FieldSpec>
+
+// --- Field Specs ---
+
+const modelSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    model_code: { kind: "string" },
+    name: { kind: "string", required: true },
+    description: { kind: "string" },
+    image_url: { kind: "string" },
+}
+
+const variantSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    model_id: { kind: "id", required: true },
+    code: { kind: "string" },
+    title: { kind: "string", required: true },
+    subtitle: { kind: "string" },
+    description: { kind: "string" },
+    price_addition: { kind: "number" },
+    is_default: { kind: "boolean" },
+    battery_kwh: { kind: "number" },
+}
+
+const colorSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    model_id: { kind: "id", required: true },
+    name: { kind: "string", required: true },
+    color_value: { kind: "string" },
+    hex_code: { kind: "string" },
+    is_default: { kind: "boolean" },
+}
+
+const componentSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    model_id: { kind: "id", required: true },
+    component_type: { kind: "string" },
+    code: { kind: "string" },
+    title: { kind: "string", required: true },
+    subtitle: { kind: "string" },
+    description: { kind: "string" },
+    price: { kind: "number" },
+    is_required: { kind: "boolean" },
+    requires: { kind: "ids" },
+    excludes: { kind: "ids" },
+    includes: { kind: "ids" },
+    exclusive_group: { kind: "string" },
+}
+
+const pricingSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    model_id: { kind: "id", required: true },
+    state: { kind: "string" },
+    city: { kind: "string" },
+    pincode_start: { kind: "pincode" },
+    pincode_end: { kind: "pincode" },
+    base_price: { kind: "number" },
+    fulfillment_fee: { kind: "number" },
+}
+
+const financeProviderSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    name: { kind: "string", required: true },
+    logo_url: { kind: "string" },
+    is_active: { kind: "boolean" },
+}
+
+const financeOptionSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    provider_id: { kind: "id", required: true },
+    model_id: { kind: "id" },
+    title: { kind: "string", required: true },
+    description: { kind: "string" },
+    interest_rate: { kind: "number", required: true },
+    min_tenure_months: { kind: "number" },
+    max_tenure_months: { kind: "number" },
+    min_down_payment_percent: { kind: "number" },
+    processing_fee: { kind: "number" },
+    processing_fee_percent: { kind: "number" },
+    subvention_rate: { kind: "number" },
+    is_active: { kind: "boolean" },
+}
+
+const insuranceProviderSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    name: { kind: "string", required: true },
+    logo_url: { kind: "string" },
+    is_active: { kind: "boolean" },
+}
+
+const insurancePlanSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    provider_id: { kind: "id", required: true },
+    model_id: { kind: "id" },
+    title: { kind: "string", required: true },
+    description: { kind: "string" },
+    plan_type: { kind: "string" },
+    premium_rate: { kind: "number" },
+    min_premium: { kind: "number" },
+    third_party_premium: { kind: "number" },
+    zero_dep_rate: { kind: "number" },
+    roadside_assistance_price: { kind: "number" },
+    tenure_years: { kind: "number" },
+    is_default: { kind: "boolean" },
+    is_active: { kind: "boolean" },
+}
+
+const incentiveSpec: RowSpec = {
+    id: { kind: "id", required: true },
+    name: { kind: "string", required: true },
+    scope: { kind: "string", required: true },
+    incentive_type: { kind: "string", required: true },
+    state: { kind: "string" },
+    model_id: { kind: "id" },
+    amount: { kind: "number" },
+    amount_per_kwh: { kind: "number" },
+    percent_of_price: { kind: "number" },
+    max_amount: { kind: "number" },
+    max_percent_of_price: { kind: "number" },
+    max_ex_showroom_price: { kind: "number" },
+    min_battery_kwh: { kind: "number" },
+    valid_from: { kind: "string" },
+    valid_until: { kind: "string" },
+    is_active: { kind: "boolean" },
+}
+
+// --- Coercion ---
+
+type CoerceResult =
+    | { ok: true; value: unknown; coerced: boolean }
+    | { ok: false; reason: string }
+
+const NUMERIC_STRING = /^-?\d+(\.\d+)?$/
+
+/**
+ * Check a single value against a field kind, coercing where it is safe
+ * @param {unknown} value - Raw value
+ * @param {FieldKind} kind - Expected kind
+ * @returns {CoerceResult} Coerced value or the reason it was rejected
+ */
+const coerceValue = (value: unknown, kind: FieldKind): CoerceResult => {
+    switch (kind) {
+        case "id":
+            if (typeof value === "number" && Number.isFinite(value)) {
+                return { ok: true, value, coerced: false }
+            }
+            if (typeof value === "string" && value.trim() !== "") {
+                return {
+                    ok: true,
+                    value: value.trim(),
+                    coerced: value !== value.trim(),
+                }
+            }
+            return {
+                ok: false,
+                reason: "expected a number or non-empty string id",
+            }
+
+        case "ids": {
+            if (!Array.isArray(value)) {
+                return { ok: false, reason: "expected an array of ids" }
+            }
+            const ids = value.map((item) => coerceValue(item, "id"))
+            if (ids.some((id) => !id.ok)) {
+                return { ok: false, reason: "expected an array of ids" }
+            }
+            return {
+                ok: true,
+                value: ids.map((id) => (id.ok ? id.value : null)),
+                coerced: ids.some((id) => id.ok && id.coerced),
+            }
+        }
+
+        case "string":
+            if (typeof value === "string")
+                return { ok: true, value, coerced: false }
+            if (typeof value === "number" && Number.isFinite(value)) {
+                return { ok: true, value: String(value), coerced: true }
+            }
+            return { ok: false, reason: "expected a string" }
+
+        case "number":
+            if (typeof value === "number" && Number.isFinite(value)) {
+                return { ok: true, value, coerced: false }
+            }
+            if (
+                typeof value === "string" &&
+                NUMERIC_STRING.test(value.trim())
+            ) {
+                return { ok: true, value: Number(value.trim()), coerced: true }
+            }
+            return { ok: false, reason: "expected a finite number" }
+
+        case "boolean":
+            if (typeof value === "boolean")
+                return { ok: true, value, coerced: false }
+            if (value === 1 || value === "1" || value === "true") {
+                return { ok: true, value: true, coerced: true }
+            }
+            if (value === 0 || value === "0" || value === "false") {
+                return { ok: true, value: false, coerced: true }
+            }
+            return { ok: false, reason: "expected a boolean" }
+
+        case "pincode": {
+            const asNumber = coerceValue(value, "number")
+            if (
+                asNumber.ok &&
+                Number.isInteger(asNumber.value) &&
+                (asNumber.value as number) >= 100000 &&
+                (asNumber.value as number) <= 999999
+            ) {
+                return asNumber
+            }
+            return { ok: false, reason: "expected a 6-digit pincode" }
+        }
+    }
+}
+
+/**
+ * Validate one row against its spec
+ * @returns {T | null} The cleaned row, or null if it had to be dropped
+ */
+const validateRow = <T>(
+    raw: unknown,
+    spec: RowSpec,
+    path: string,
+    issues: ValidationIssue[]
+): T | null => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        issues.push({
+            path,
+            kind: "row-dropped",
+            message: "expected an object",
+            value: raw,
+        })
+        return null
+    }
+
+    const source = raw as Record<string, unknown>
+    const row: Record<string, unknown> = { ...source } // Keep unknown extra fields
+
+    for (const [field, fieldSpec] of Object.entries(spec)) {
+        const value = source[field]
+        const fieldPath = `${path}.${field}`
+
+        if (value === undefined || value === null) {
+            delete row[field] // Normalise null to absent
+            if (fieldSpec.required) {
+                issues.push({
+                    path: fieldPath,
+                    kind: "row-dropped",
+                    message: "required field is missing",
+                    value,
+                })
+                return null
+            }
+            continue
+        }
+
+        const result = coerceValue(value, fieldSpec.kind)
+        if (!result.ok) {
+            if (fieldSpec.required) {
+                issues.push({
+                    path: fieldPath,
+                    kind: "row-dropped",
+                    message: result.reason,
+                    value,
+                })
+                return null
+            }
+            issues.push({
+                path: fieldPath,
+                kind: "field-dropped",
+                message: result.reason,
+                value,
+            })
+            delete row[field]
+            continue
+        }
+
+        if (result.coerced) {
+            issues.push({
+                path: fieldPath,
+                kind: "coerced",
+                message: `coerced ${typeof value} to ${fieldSpec.kind}`,
+                value,
+            })
+        }
+        row[field] = result.value
+    }
+
+    return row as T
+}
+
+/**
+ * Validate a whole collection, dropping invalid rows and reporting duplicates.
+ * A missing optional collection is treated as empty without an issue.
+ */
+const validateCollection = <T extends { id: number | string }>(
+    raw: unknown,
+    name: CollectionName,
+    spec: RowSpec,
+    issues: ValidationIssue[],
+    optional: boolean = false
+): { rows: T[]; received: number; sourceIndexes: number[] } => {
+    if (optional && (raw === undefined || raw === null)) {
+        return { rows: [], received: 0, sourceIndexes: [] }
+    }
+    if (!Array.isArray(raw)) {
+        issues.push({
+            path: name,
+            kind: "row-dropped",
+            message: "expected an array",
+            value: raw,
+        })
+        return { rows: [], received: 0, sourceIndexes: [] }
+    }
+
+    const seen = new Set<string>()
+    const rows: T[] = []
+    // Position of each kept row in the payload, for paths in later checks
+    const sourceIndexes: number[] = []
+    raw.forEach((item, index) => {
+        const path = `${name}[${index}]`
+        const row = validateRow<T>(item, spec, path, issues)
+        if (!row) return
+        const key = String(row.id)
+        if (seen.has(key)) {
+            issues.push({
+                path: `${path}.id`,
+                kind: "duplicate",
+                message: `duplicate id ${key}; later row dropped`,
+                value: row.id,
+            })
+            return
+        }
+        seen.add(key)
+        rows.push(row)
+        sourceIndexes.push(index)
+    })
+    return { rows, received: raw.length, sourceIndexes }
+}
+
+// --- Public API ---
+
+/**
+ * Validate and clean a raw VehicleData payload
+ * @param {unknown} raw - The `data` field of the API response
+ * @returns {ValidatedVehicleData} Cleaned data and the validation report
+ */
+export function validateVehicleData(raw: unknown): ValidatedVehicleData {
+    const source = (raw && typeof raw === "object" ? raw : {}) as Record<
+        string,
+        unknown
+    >
+    const issues: ValidationIssue[] = []
+
+    const models = validateCollection<ApiModel>(
+        source.models,
+        "models",
+        modelSpec,
+        issues
+    )
+    const variants = validateCollection<ApiVariant>(
+        source.variants,
+        "variants",
+        variantSpec,
+        issues
+    )
+    const colors = validateCollection<ApiColor>(
+        source.colors,
+        "colors",
+        colorSpec,
+        issues
+    )
+    const components = validateCollection<ApiComponent>(
+        source.components,
+        "components",
+        componentSpec,
+        issues
+    )
+    const pricing = validateCollection<ApiPricing>(
+        source.pricing,
+        "pricing",
+        pricingSpec,
+        issues
+    )
+    const financeProviders = validateCollection<ApiFinanceProvider>(
+        source.finance_providers,
+        "finance_providers",
+        financeProviderSpec,
+        issues,
+        true
+    )
+    const financeOptions = validateCollection<ApiFinanceOption>(
+        source.finance_options,
+        "finance_options",
+        financeOptionSpec,
+        issues,
+        true
+    )
+    const insuranceProviders = validateCollection<ApiInsuranceProvider>(
+        source.insurance_providers,
+        "insurance_providers",
+        insuranceProviderSpec,
+        issues,
+        true
+    )
+    const insurancePlans = validateCollection<ApiInsurancePlan>(
+        source.insurance_plans,
+        "insurance_plans",
+        insurancePlanSpec,
+        issues,
+        true
+    )
+    const incentives = validateCollection<ApiIncentive>(
+        source.incentives,
+        "incentives",
+        incentiveSpec,
+        issues,
+        true
+    )
+
+    // Pincode ranges must be complete and ordered to be usable
+    pricing.rows.forEach((row, index) => {
+        const hasStart = row.pincode_start !== undefined
+        const hasEnd = row.pincode_end !== undefined
+        const invalidRange =
+            hasStart !== hasEnd ||
+            (hasStart && hasEnd && row.pincode_start! > row.pincode_end!)
+        if (invalidRange) {
+            issues.push({
+                path: `pricing[${pricing.sourceIndexes[index]}]`,
+                kind: "field-dropped",
+                message:
+                    "pincode range is incomplete or reversed; range removed",
+                value: [row.pincode_start, row.pincode_end],
+            })
+            delete row.pincode_start
+            delete row.pincode_end
+        }
+    })
+
+    // Children must point at a known model
+    const modelIds = new Set(models.rows.map((m) => String(m.id)))
+    const checkReferences = (
+        name: CollectionName,
+        collection: {
+            rows: Array<{ model_id: number | string }>
+            sourceIndexes: number[]
+        }
+    ) => {
+        collection.rows.forEach((row, index) => {
+            if (!modelIds.has(String(row.model_id))) {
+                issues.push({
+                    path: `${name}[${collection.sourceIndexes[index]}].model_id`,
+                    kind: "reference",
+                    message: `unknown model_id ${row.model_id}`,
+                    value: row.model_id,
+                })
+            }
+        })
+    }
+    checkReferences("variants", variants)
+    checkReferences("colors", colors)
+    checkReferences("components", components)
+    checkReferences("pricing", pricing)
+
+    // Component rules must point at components of the same model
+    const componentModels = new Map(
+        components.rows.map((c) => [String(c.id), String(c.model_id)])
+    )
+    const ruleFields = ["requires", "excludes", "includes"] as const
+    components.rows.forEach((row, index) => {
+        const path = `components[${components.sourceIndexes[index]}]`
+        ruleFields.forEach((field) => {
+            row[field]?.forEach((id) => {
+                if (componentModels.get(String(id)) !== String(row.model_id)) {
+                    issues.push({
+                        path: `${path}.${field}`,
+                        kind: "reference",
+                        message: `unknown component ${id} for model ${row.model_id}`,
+                        value: id,
+                    })
+                }
+            })
+        })
+    })
+
+    // Finance options and insurance plans must point at a known provider,
+    // and at a known model when they're model-specific
+    const checkProviderReferences = (
+        name: CollectionName,
+        collection: {
+            rows: Array<{
+                provider_id: number | string
+                model_id?: number | string
+            }>
+            sourceIndexes: number[]
+        },
+        providers: Array<{ id: number | string }>
+    ) => {
+        const providerIds = new Set(providers.map((p) => String(p.id)))
+        collection.rows.forEach((row, index) => {
+            const path = `${name}[${collection.sourceIndexes[index]}]`
+            if (!providerIds.has(String(row.provider_id))) {
+                issues.push({
+                    path: `${path}.provider_id`,
+                    kind: "reference",
+                    message: `unknown provider_id ${row.provider_id}`,
+                    value: row.provider_id,
+                })
+            }
+            if (
+                row.model_id !== undefined &&
+                !modelIds.has(String(row.model_id))
+            ) {
+                issues.push({
+                    path: `${path}.model_id`,
+                    kind: "reference",
+                    message: `unknown model_id ${row.model_id}`,
+                    value: row.model_id,
+                })
+            }
+        })
+    }
+    checkProviderReferences(
+        "finance_options",
+        financeOptions,
+        financeProviders.rows
+    )
+    checkProviderReferences(
+        "insurance_plans",
+        insurancePlans,
+        insuranceProviders.rows
+    )
+
+    // Incentives must be model-wide or point at a known model, and state
+    // incentives need a state to be matched against
+    incentives.rows.forEach((row, index) => {
+        const path = `incentives[${incentives.sourceIndexes[index]}]`
+        if (row.model_id !== undefined && !modelIds.has(String(row.model_id))) {
+            issues.push({
+                path: `${path}.model_id`,
+                kind: "reference",
+                message: `unknown model_id ${row.model_id}`,
+                value: row.model_id,
+            })
+        }
+        if (row.scope.trim().toUpperCase() === "STATE" && !row.state) {
+            issues.push({
+                path: `${path}.state`,
+                kind: "reference",
+                message: "state incentive without a state; it will never apply",
+                value: row.state,
+            })
+        }
+    })
+
+    return {
+        data: {
+            models: models.rows,
+            variants: variants.rows,
+            colors: colors.rows,
+            components: components.rows,
+            pricing: pricing.rows,
+            finance_providers: financeProviders.rows,
+            finance_options: financeOptions.rows,
+            insurance_providers: insuranceProviders.rows,
+            insurance_plans: insurancePlans.rows,
+            incentives: incentives.rows,
+        },
+        report: {
+            issues,
+            receivedRows: {
+                models: models.received,
+                variants: variants.received,
+                colors: colors.received,
+                components: components.received,
+                pricing: pricing.received,
+                finance_providers: financeProviders.received,
+                finance_options: financeOptions.received,
+                insurance_providers: insuranceProviders.received,
+                insurance_plans: insurancePlans.received,
+                incentives: incentives.received,
+            },
+            keptRows: {
+                models: models.rows.length,
+                variants: variants.rows.length,
+                colors: colors.rows.length,
+                components: components.rows.length,
+                pricing: pricing.rows.length,
+                finance_providers: financeProviders.rows.length,
+                finance_options: financeOptions.rows.length,
+                insurance_providers: insuranceProviders.rows.length,
+                insurance_plans: insurancePlans.rows.length,
+                incentives: incentives.rows.length,
+            },
+            isClean: issues.length === 0,
+        },
+    }
+}
+
+/**
+ * One-line summary of a report, for logs and diagnostics panels
+ * @param {ValidationReport} report - Validation report
+ * @returns {string} Summary such as "3 issues (1 row dropped, 2 coerced)"
+ */
+export const summarizeValidationReport = (report: ValidationReport): string => {
+    if (report.isClean) return "No data issues"
+    const counts = report.issues.reduce<Record<string, number>>(
+        (acc, issue) => {
+            acc[issue.kind] = (acc[issue.kind] || 0) + 1
+            return acc
+        },
+        {}
+    )
+    const parts = Object.entries(counts).map(
+        ([kind, count]) => `${count} ${kind}`
+    )
+    return `${report.issues.length} issue${report.issues.length === 1 ? "" : "s"} (${parts.join(", ")})`
+}
@@ -0,0 +1,196 @@
+// src/utils/vehicleDataStore.ts
+import { ApiClient } from "./apiClient"
+import { ApiError } from "./apiErrors"
+import {
+    DEFAULT_VEHICLE_DATA_MAX_AGE_MS,
+    VehicleDataCacheEntry,
+    getVehicleDataCacheKey,
+    invalidateVehicleDataCache,
+    isVehicleDataStale,
+    loadVehicleDataCache,
+    readVehicleDataCache,
+    revalidateVehicleData,
+} from "./vehicleDataCache"
+import { isOnline } from "./connectivity"
+
+/**
+ * Shared state for the vehicle catalogue.
+ *
+ * Every useApiData caller reads the same snapshot (one per client URL)
+ * through useSyncExternalStore, and concurrent loads for a URL share one
+ * request. Requests aren't cancelled when a caller unmounts, since other
+ * callers may be waiting on them. While the browser is offline a cached
+ * copy is served as stale without attempting a request.
+ */
+
+// --- Interfaces ---
+
+export interface VehicleDataSnapshot {
+    entry: VehicleDataCacheEntry | null
+    /** True until the first payload (cached or fetched) is available */
+    loading: boolean
+    /** True while `entry` is a cached copy the server hasn't reconfirmed */
+    isStale: boolean
+    /** Last failure, when there is no payload to fall back on */
+    error: ApiError | Error | null
+}
+
+export interface VehicleDataLoadOptions {
+    /** Serve cached data without revalidating for this long */
+    maxAgeMs?: number
+}
+
+export interface VehicleDataStore {
+    /** Default freshness window for loads */
+    readonly maxAgeMs: number
+    /** Register a change listener; returns the unsubscribe function */
+    subscribe(listener: () => void): () => void
+    /** Current snapshot for a client; stable until the next change */
+    getSnapshot(client: ApiClient): VehicleDataSnapshot
+    /**
+     * Load the catalogue, revalidating a stale cached copy. Joins a load
+     * already in flight for the same client. Never rejects: failures land
+     * in the snapshot and resolve to null.
+     */
+    load(
+        client: ApiClient,
+        options?: VehicleDataLoadOptions
+    ): Promise<VehicleDataCacheEntry | null>
+    /** Drop the cached catalogue and load it again */
+    invalidate(client: ApiClient): Promise<VehicleDataCacheEntry | null>
+}
+
+// --- Factory ---
+
+/**
+ * Create a vehicle data store
+ * @param {object} [options] - Default freshness window (default 5 min)
+ * @returns {VehicleDataStore} Store
+ */
+export function createVehicleDataStore({
+    maxAgeMs = DEFAULT_VEHICLE_DATA_MAX_AGE_MS,
+}: { maxAgeMs?: number } = {}): VehicleDataStore {
+    const snapshots = new Map<string, VehicleDataSnapshot>()
+    const inFlight = new Map<string, Promise<VehicleDataCacheEntry | null>>()
+    const listeners = new Set<() => void>()
+
+    const getSnapshotByKey = (key: string): VehicleDataSnapshot => {
+        let snapshot = snapshots.get(key)
+        if (!snapshot) {
+            const entry = readVehicleDataCache(key)
+            snapshot = {
+                entry,
+                loading: !entry,
+                isStale: !!entry && isVehicleDataStale(entry, maxAgeMs),
+                error: null,
+            }
+            snapshots.set(key, snapshot)
+        }
+        return snapshot
+    }
+
+    const update = (key: string, patch: Partial<VehicleDataSnapshot>) => {
+        snapshots.set(key, { ...getSnapshotByKey(key), ...patch })
+        listeners.forEach((listener) => listener())
+    }
+
+    const revalidate = (
+        client: ApiClient,
+        key: string,
+        cached: VehicleDataCacheEntry | null
+    ): Promise<VehicleDataCacheEntry | null> => {
+        // Stale data stays available while revalidating in the background
+        update(key, {
+            entry: cached ?? getSnapshotByKey(key).entry,
+            loading: !cached,
+            isStale: !!cached,
+            error: null,
+        })
+
+        return revalidateVehicleData(client)
+            .then((entry): VehicleDataCacheEntry | null => {
+                update(key, {
+                    entry,
+                    loading: false,
+                    isStale: false,
+                    error: null,
+                })
+                return entry
+            })
+            .catch((err): VehicleDataCacheEntry | null => {
+                if (cached) {
+                    // Keep serving the last good payload, flagged as stale
+                    console.warn(
+                        "Vehicle data revalidation failed; serving cached copy:",
+                        err
+                    )
+                    update(key, { loading: false })
+                    return cached
+                }
+                console.error("Error loading vehicle data:", err)
+                update(key, {
+                    entry: null,
+                    loading: false,
+                    isStale: false,
+                    error: err instanceof Error ? err : new Error(String(err)),
+                })
+                return null
+            })
+    }
+
+    const load = (
+        client: ApiClient,
+        { maxAgeMs: loadMaxAgeMs = maxAgeMs }: VehicleDataLoadOptions = {}
+    ): Promise<VehicleDataCacheEntry | null> => {
+        const key = getVehicleDataCacheKey(client)
+        const pending = inFlight.get(key)
+        if (pending) return pending
+
+        const request = loadVehicleDataCache(key)
+            .then((cached) => {
+                const fresh =
+                    !!cached && !isVehicleDataStale(cached, loadMaxAgeMs)
+                if (!cached || (!fresh && isOnline())) {
+                    return revalidate(client, key, cached)
+                }
+                // Fresh enough, or offline anyway; skip the network
+                const current = getSnapshotByKey(key)
+                if (
+                    current.entry !== cached ||
+                    current.isStale === fresh ||
+                    current.loading
+                ) {
+                    update(key, {
+                        entry: cached,
+                        loading: false,
+                        isStale: !fresh,
+                        error: null,
+                    })
+                }
+                return cached
+            })
+            .finally(() => inFlight.delete(key))
+        inFlight.set(key, request)
+        return request
+    }
+
+    return {
+        maxAgeMs,
+        subscribe(listener) {
+            listeners.add(listener)
+            return () => {
+                listeners.delete(listener)
+            }
+        },
+        getSnapshot: (client) =>
+            getSnapshotByKey(getVehicleDataCacheKey(client)),
+        load,
+        async invalidate(client) {
+            await invalidateVehicleDataCache(getVehicleDataCacheKey(client))
+            return load(client)
+        },
+    }
+}
+
+/** Store used when no VehicleDataProvider is mounted */
+export const defaultVehicleDataStore = createVehicleDataStore()
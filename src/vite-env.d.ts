@@ -1 +1,22 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** Base URL of the booking engine API */
+    readonly VITE_API_BASE_URL?: string
+    /** Request timeout in milliseconds; "0" disables it, empty uses the default */
+    readonly VITE_API_TIMEOUT_MS?: string
+    /** Fetch credentials mode ("omit" | "same-origin" | "include") */
+    readonly VITE_API_CREDENTIALS?: string
+    /** Booking and notify-me adapter ("http" | "mock"); defaults to "http" */
+    readonly VITE_BOOKING_ADAPTER?: string
+    /** Payment gateway ("razorpay" | "simulator"); defaults to "razorpay" */
+    readonly VITE_PAYMENT_GATEWAY?: string
+    /** Razorpay public key id */
+    readonly VITE_RAZORPAY_KEY_ID?: string
+    /** Promo code service ("api" | "local"); defaults to "api" */
+    readonly VITE_PROMO_SERVICE?: string
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv
+}
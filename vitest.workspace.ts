@@ -10,7 +10,14 @@ const dirname =
 
 // More info at: https://storybook.js.org/docs/writing-tests/test-addon
 export default defineWorkspace([
-  'vite.config.ts',
+  {
+    extends: 'vite.config.ts',
+    test: {
+      name: 'unit',
+      include: ['src/**/*.test.ts'],
+      environment: 'node',
+    },
+  },
   {
     extends: 'vite.config.ts',
     plugins: [